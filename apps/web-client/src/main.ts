@@ -1,5 +1,20 @@
-import { applyAction, createRun, getLegalActions, loadContent } from "@fg/game-core";
-import type { GameEvent, LegalAction, RunState } from "@fg/game-core";
+import {
+  DEFAULT_RNG_ALGO,
+  IllegalActionError,
+  SEED_DERIVATION_VERSION,
+  applyAction,
+  createSaveBlob,
+  deserialize,
+  getLegalActions,
+  getPendingPrompt,
+  isLegalAction,
+  loadContent,
+  previewAction,
+  serialize,
+  startRun,
+  validateState
+} from "@fg/game-core";
+import type { ActionLog, ActionLogHeader, ActionPreview, EventCause, GameEvent, GameEventPayload, LegalAction, PromptOption, RngAlgo, RunState, SeedInput, StartRunAction } from "@fg/game-core";
 import {
   Application,
   Assets,
@@ -17,17 +32,9 @@ import strings from "../../../packages/game-data/content/strings.en.json";
 
 type MajorId = RunState["floor"]["activeMajorId"];
 
-type ActionLogHeader = {
-  engineVersion: string;
-  contentVersion: string;
-  specVersion: "v1.1";
-  createdAtUTC: string;
-};
-
-type StartRunAction = { type: "START_RUN"; seed: number; runLengthTarget: 7 | 14 | 21 };
-type ActionLog = { header: ActionLogHeader; seed: number; actions: Array<StartRunAction | LegalAction> };
-
-const SAVE_KEY = "fg.actionLog.v1";
+const SAVE_KEY = "fg.save.v1";
+// Pre-save-blob builds stored the bare action log; still honoured on resume.
+const LEGACY_ACTION_LOG_KEY = "fg.actionLog.v1";
 
 function assert(condition: unknown, message: string): asserts condition {
   if (!condition) throw new Error(message);
@@ -43,25 +50,39 @@ function nowUTC(): string {
   return new Date().toISOString();
 }
 
-function makeHeader(contentVersion: string): ActionLogHeader {
-  return { engineVersion: "0.1.0", contentVersion, specVersion: "v1.1", createdAtUTC: nowUTC() };
+function makeHeader(contentVersion: string, rngAlgo: RngAlgo): ActionLogHeader {
+  return { engineVersion: "0.1.0", contentVersion, specVersion: "v1.1", createdAtUTC: nowUTC(), rngAlgo };
+}
+
+function hasSavedRun(): boolean {
+  return localStorage.getItem(SAVE_KEY) !== null || localStorage.getItem(LEGACY_ACTION_LOG_KEY) !== null;
 }
 
-function loadSavedActionLog(): ActionLog | null {
+async function loadSavedActionLog(): Promise<ActionLog | null> {
   const raw = localStorage.getItem(SAVE_KEY);
-  if (!raw) return null;
+  if (raw) {
+    try {
+      return (await deserialize(raw)).actionLog;
+    } catch (err) {
+      console.warn(`Ignoring unreadable save: ${String(err)}`);
+    }
+  }
+
+  const legacy = localStorage.getItem(LEGACY_ACTION_LOG_KEY);
+  if (!legacy) return null;
   try {
-    const parsed = JSON.parse(raw) as ActionLog;
+    const parsed = JSON.parse(legacy) as ActionLog;
     if (!parsed || typeof parsed !== "object") return null;
-    if (typeof parsed.seed !== "number" || !Array.isArray(parsed.actions)) return null;
+    if ((typeof parsed.seed !== "number" && typeof parsed.seed !== "string") || !Array.isArray(parsed.actions)) return null;
     return parsed;
   } catch {
     return null;
   }
 }
 
-function saveActionLog(log: ActionLog): void {
-  localStorage.setItem(SAVE_KEY, JSON.stringify(log));
+async function saveRun(state: RunState, log: ActionLog): Promise<void> {
+  const blob = await createSaveBlob(state, log);
+  localStorage.setItem(SAVE_KEY, serialize(blob));
 }
 
 function downloadJson(filename: string, value: unknown): void {
@@ -76,6 +97,14 @@ function downloadJson(filename: string, value: unknown): void {
   URL.revokeObjectURL(url);
 }
 
+function formatString(key: string): string {
+  return (strings as Record<string, string>)[key] ?? key;
+}
+
+function formatPromptOption(o: PromptOption): string {
+  return `${formatString(o.labelKey)}${o.targetSlot !== null ? ` → slot ${o.targetSlot + 1}` : ""}`;
+}
+
 function formatMajorId(id: MajorId): string {
   const key = `majors.${id}.name`;
   return (strings as Record<string, string>)[key] ?? id;
@@ -193,12 +222,79 @@ function describeAction(a: StartRunAction | LegalAction): string {
   }
 }
 
+function formatPreview(p: ActionPreview): string {
+  const delta = (label: string, v: ActionPreview["hpDelta"]) => (v === "unknown" ? `${label} ?` : v ? `${label} ${v > 0 ? "+" : ""}${v}` : "");
+  const parts = [delta("HP", p.hpDelta), delta("Gold", p.goldDelta), delta("Fate", p.fateDelta)];
+  for (const c of p.equipment) parts.push(`${c.change} ${c.kind}`);
+  if (p.armorBreaks) parts.push("armor breaks");
+  if (p.weaponRestrictedTo !== null) parts.push(`weapon then limited to enemies ≤ ${p.weaponRestrictedTo}`);
+  if (p.defeat === true) parts.push("DEFEAT");
+  if (p.dependsOnUnseen) parts.push("draws an unseen card");
+  return parts.filter(Boolean).join(", ") || "no change";
+}
+
+function actionChoices(actions: LegalAction[]): Array<{ label: string; action: LegalAction }> {
+  return actions.map((action) => ({ label: describeAction(action), action }));
+}
+
+function formatCauseLink(c: EventCause): string {
+  switch (c.kind) {
+    case "SHADOW":
+      return `shadow ${formatMajorId(c.majorId)} (${c.hook})`;
+    case "GIFT":
+      return `gift ${formatMajorId(c.majorId)}`;
+    case "MAJOR_PROMPT":
+      return `${formatMajorId(c.majorId)} prompt`;
+    case "CARD":
+      return `slot ${c.slotIndex + 1} ${c.cardId}`;
+    case "RULE":
+      return c.rule.toLowerCase().replace(/_/g, " ");
+    default:
+      return c.kind;
+  }
+}
+
+// The dispatched action already has its own ACTION line, so only the links inside it are shown.
+function formatCause(cause: EventCause): string {
+  const links: string[] = [];
+  for (let c: EventCause | null = cause; c && c.kind !== "ACTION" && c.kind !== "RUN_START"; c = c.parent) links.push(formatCauseLink(c));
+  return links.length ? `  ← ${links.join(" ← ")}` : "";
+}
+
 function formatEvent(e: GameEvent): string {
+  return describeEvent(e) + formatCause(e.cause);
+}
+
+function describeEvent(e: GameEventPayload): string {
   switch (e.type) {
+    case "PHASE_CHANGED":
+      return `PHASE ${e.from} → ${e.to}`;
+    case "FLOOR_STARTED":
+      return `FLOOR ${e.floorNumber}: ${formatMajorId(e.majorId)}`;
+    case "MAJORS_ATTUNED":
+      return `ATTUNED ${e.majorIds.map(formatMajorId).join(", ") || "none"}`;
+    case "BOSS_STARTED":
+      return `BOSS ${formatMajorId(e.majorId)} (${e.roomsRequired} rooms)`;
+    case "MAJOR_CLAIMED":
+      return `CLAIMED ${formatMajorId(e.majorId)}`;
+    case "RUN_ENDED":
+      return `RUN ${e.outcome.toUpperCase()} on floor ${e.floorNumber} (${e.majorsClaimed} claimed)`;
+    case "SHADOW_TRIGGERED":
+      return `SHADOW ${formatMajorId(e.majorId)} (${e.hook})`;
+    case "GIFT_USED":
+      return `GIFT ${formatMajorId(e.majorId)}`;
+    case "PROMPT_OPENED":
+      return `PROMPT ${e.prompt.kind}`;
+    case "CARD_FLIPPED":
+      return `FLIPPED slot ${e.slotIndex + 1} ${e.cardId} → ${e.orientation}`;
+    case "CARD_CLEANSED":
+      return `CLEANSED slot ${e.slotIndex + 1} ${e.cardId}`;
     case "ROOM_REVEALED":
       return "ROOM_REVEALED";
     case "PEEK_TOP_N":
       return `PEEK_TOP_${e.n}`;
+    case "DECK_RESHUFFLED":
+      return `RESHUFFLED ${e.cardCount} cards from ${e.from === "floorDiscard" ? "the discard" : "the floor deck"} into the ${e.deck} deck`;
     case "PLAYER_HP_CHANGED":
       return `HP ${e.delta >= 0 ? "+" : ""}${e.delta} → ${e.hp}`;
     case "PLAYER_GOLD_CHANGED":
@@ -296,7 +392,6 @@ async function main() {
   let state: RunState | null = null;
   let actionLog: ActionLog | null = null;
   const timeline: Array<{ kind: "ACTION" | "EVENT"; text: string }> = [];
-  let lastPeekTop: string[] | null = null;
 
   let uiMode: UiMode = { kind: "PLAY" };
   let pendingPreviewSlot: number | null = null;
@@ -490,41 +585,55 @@ async function main() {
   function dispatch(action: StartRunAction | LegalAction) {
     assert(state && actionLog, "No active run");
 
-    appendLine("ACTION", describeAction(action));
-    actionLog.actions.push(action as any);
-
     if (action.type === "START_RUN") {
-      saveActionLog(actionLog);
+      appendLine("ACTION", describeAction(action));
+      actionLog.actions.push(action);
+      actionLog.events?.push([]);
+      void saveRun(state, actionLog);
       exportBtn.disabled = false;
       return;
     }
 
-    const res = applyAction(state, action);
+    // Rejected actions leave the state untouched and never reach the action log; anything else is an engine bug.
+    let res: ReturnType<typeof applyAction>;
+    try {
+      res = applyAction(state, action);
+    } catch (err) {
+      if (!(err instanceof IllegalActionError)) throw err;
+      appendLine("EVENT", `Rejected ${action.type} (${err.code}): ${err.message}`);
+      return;
+    }
+    appendLine("ACTION", describeAction(action));
+    actionLog.actions.push(action);
+    actionLog.events?.push(res.events);
     state = res.nextState;
-    for (const e of res.events) {
-      if (e.type === "PEEK_TOP_N") lastPeekTop = e.cardIds;
-      appendLine("EVENT", formatEvent(e));
+    if (import.meta.env.DEV) {
+      const violations = validateState(state);
+      if (violations.length) console.warn(`validateState after ${action.type}`, violations);
     }
-    saveActionLog(actionLog);
+    for (const e of res.events) appendLine("EVENT", formatEvent(e));
+    void saveRun(state, actionLog);
     exportBtn.disabled = false;
     renderAll();
   }
 
-  function beginNewRun(seed: number, runLengthTarget: 7 | 14 | 21) {
-    state = createRun({ seed, runLengthTarget });
-    lastPeekTop = null;
+  function beginNewRun(seed: SeedInput, runLengthTarget: 7 | 14 | 21) {
+    const started = startRun({ seed, runLengthTarget, seedDerivation: SEED_DERIVATION_VERSION, rngAlgo: DEFAULT_RNG_ALGO });
+    state = started.nextState;
     uiMode = { kind: "PLAY" };
     pendingPreviewSlot = null;
     pendingDrag = null;
     timeline.length = 0;
 
     actionLog = {
-      header: makeHeader((majors as any).contentVersion ?? "unknown"),
+      header: makeHeader((majors as any).contentVersion ?? "unknown", DEFAULT_RNG_ALGO),
       seed,
-      actions: [{ type: "START_RUN", seed, runLengthTarget }]
+      actions: [{ type: "START_RUN", seed, runLengthTarget, seedDerivation: SEED_DERIVATION_VERSION }],
+      events: [started.events]
     };
-    saveActionLog(actionLog);
+    void saveRun(state, actionLog);
     appendLine("ACTION", `START_RUN seed=${seed} runLength=${runLengthTarget}`);
+    for (const e of started.events) appendLine("EVENT", formatEvent(e));
     exportBtn.disabled = false;
     renderAll();
   }
@@ -532,23 +641,26 @@ async function main() {
   function replayFromLog(log: ActionLog) {
     assert(log.actions.length > 0 && (log.actions[0] as any).type === "START_RUN", "Log must start with START_RUN");
     const sr = log.actions[0] as StartRunAction;
-    let s = createRun({ seed: sr.seed, runLengthTarget: sr.runLengthTarget });
-    const events: GameEvent[] = [];
+    const started = startRun({
+      seed: sr.seed,
+      runLengthTarget: sr.runLengthTarget,
+      seedDerivation: sr.seedDerivation ?? 0,
+      rngAlgo: log.header.rngAlgo ?? DEFAULT_RNG_ALGO
+    });
+    let s = started.nextState;
+    const stepEvents: GameEvent[][] = [started.events];
     for (const a of log.actions.slice(1)) {
       const res = applyAction(s, a as LegalAction);
-      events.push(...res.events);
+      stepEvents.push(res.events);
       s = res.nextState;
     }
     state = s;
-    actionLog = log;
+    // Keep recording from here on; the re-derived events stand in for whatever the imported log carried.
+    actionLog = { ...log, events: stepEvents };
     timeline.length = 0;
-    lastPeekTop = null;
     appendLine("ACTION", describeAction(sr));
     for (const a of log.actions.slice(1)) appendLine("ACTION", describeAction(a as LegalAction));
-    for (const e of events) {
-      if (e.type === "PEEK_TOP_N") lastPeekTop = e.cardIds;
-      appendLine("EVENT", formatEvent(e));
-    }
+    for (const e of stepEvents.flat()) appendLine("EVENT", formatEvent(e));
     exportBtn.disabled = false;
     renderAll();
   }
@@ -567,12 +679,13 @@ async function main() {
     promptLayer.removeChildren(1); // keep title at index 0
   }
 
-  function showChoicePrompt(title: string, actions: LegalAction[], anchor?: { x: number; y: number }) {
+  function showChoicePrompt(title: string, choices: Array<{ label: string; action: LegalAction }>, anchor?: { x: number; y: number }) {
     clearPromptLayer();
+    const actions = choices.map((c) => c.action);
     uiMode = anchor ? { kind: "PROMPT_CHOICE", actions, anchor } : { kind: "PROMPT_CHOICE", actions };
     choiceTitle.text = title;
     choiceTitle.position.set(anchor?.x ?? app.screen.width / 2, (anchor?.y ?? app.screen.height / 2) - 90);
-    const max = Math.min(actions.length, 8);
+    const max = Math.min(choices.length, 8);
     const cols = Math.min(4, max);
     const rows = Math.ceil(max / cols);
     const cardW = 150;
@@ -581,18 +694,18 @@ async function main() {
     const startX = (anchor?.x ?? app.screen.width / 2) - ((cols - 1) * (cardW + gap)) / 2;
     const startY = (anchor?.y ?? app.screen.height / 2) - ((rows - 1) * (cardH + gap)) / 2;
     for (let i = 0; i < max; i += 1) {
-      const a = actions[i]!;
+      const { label, action: a } = choices[i]!;
       const v = makeCardView("MAJOR");
       v.container.zIndex = 200 + i;
       promptLayer.addChild(v.container);
       layoutCard(v, startX + (i % cols) * (cardW + gap), startY + Math.floor(i / cols) * (cardH + gap), cardW, cardH);
       setCardTexture(v, Assets.get(getArtUrlForCanonicalId("card.back")) as Texture);
       drawCardFrame(v, 0x7aa2ff, 0x0b0f18);
-      const t = new Text({ text: describeAction(a), style: smallStyle });
+      const t = new Text({ text: label, style: smallStyle });
       t.anchor.set(0.5);
       t.position.set(0, 0);
       v.container.addChild(t);
-      v.container.on("pointerenter", (ev) => showTooltip(describeAction(a), ev.globalX, ev.globalY));
+      v.container.on("pointerenter", (ev) => showTooltip(label, ev.globalX, ev.globalY));
       v.container.on("pointerleave", hideTooltip);
       v.container.on("pointerdown", () => {
         hideTooltip();
@@ -604,21 +717,22 @@ async function main() {
     }
   }
 
-  function showReorderTop3Prompt(top3: string[]) {
+  function showReorderTop3Prompt(title: string, top3: string[]) {
     clearPromptLayer();
     uiMode = { kind: "PROMPT_REORDER_TOP3", top3 };
-    choiceTitle.text = "Reorder top 3 (click two to swap, then confirm)";
+    choiceTitle.text = `${title} (click two to swap, then confirm)`;
     choiceTitle.position.set(app.screen.width / 2, app.screen.height / 2 - 120);
 
-    const order = [0, 1, 2];
+    // Fewer than 3 when the deck ran short even after reshuffling the discard.
+    const order = top3.map((_id, i) => i);
     let selected: number | null = null;
     const cards: CardView[] = [];
     const w = 180;
     const h = 260;
     const gap = 16;
-    const startX = app.screen.width / 2 - (w + gap);
+    const startX = app.screen.width / 2 - ((order.length - 1) * (w + gap)) / 2;
     const y = app.screen.height / 2;
-    for (let i = 0; i < 3; i += 1) {
+    for (let i = 0; i < order.length; i += 1) {
       const v = makeCardView("MAJOR");
       promptLayer.addChild(v.container);
       layoutCard(v, startX + i * (w + gap), y, w, h);
@@ -634,7 +748,7 @@ async function main() {
     confirm.container.addChild(confirmText);
 
     const render = () => {
-      for (let i = 0; i < 3; i += 1) {
+      for (let i = 0; i < order.length; i += 1) {
         const v = cards[i]!;
         const cardId = top3[order[i]!]!;
         const minor = state?.decks.cards.minors[cardId];
@@ -645,7 +759,7 @@ async function main() {
     };
     render();
 
-    for (let i = 0; i < 3; i += 1) {
+    for (let i = 0; i < order.length; i += 1) {
       const v = cards[i]!;
       v.container.on("pointerdown", () => {
         if (selected === null) selected = i;
@@ -665,10 +779,10 @@ async function main() {
     });
   }
 
-  function showReorderRoomPrompt(slots: Array<string | null>) {
+  function showReorderRoomPrompt(title: string, slots: Array<string | null>) {
     clearPromptLayer();
     uiMode = { kind: "PROMPT_REORDER_ROOM4", slots };
-    choiceTitle.text = "Reorder room (click two to swap, then confirm)";
+    choiceTitle.text = `${title} (click two to swap, then confirm)`;
     choiceTitle.position.set(app.screen.width / 2, app.screen.height / 2 - 140);
 
     const order = [0, 1, 2, 3];
@@ -747,12 +861,12 @@ async function main() {
       // Card-based attunement selection prompt.
       const actions = legal.filter((a): a is Extract<LegalAction, { type: "SELECT_ATTUNEMENT" }> => a.type === "SELECT_ATTUNEMENT");
       const anchor = { x: app.screen.width / 2, y: app.screen.height / 2 };
-      showChoicePrompt("Attune (up to 3)", actions, anchor);
+      showChoicePrompt("Attune (up to 3)", actionChoices(actions), anchor);
       return;
     }
 
-    const pending = state.debug?.pendingPrompt;
-    if (!pending) {
+    const prompt = getPendingPrompt(state);
+    if (!prompt) {
       if (uiMode.kind !== "PLAY") {
         uiMode = { kind: "PLAY" };
         clearPromptLayer();
@@ -760,19 +874,19 @@ async function main() {
       return;
     }
 
-    if (pending.kind === "MAJOR_REORDER_TOP3") {
-      const top3 = lastPeekTop?.slice(0, 3) ?? [];
-      showReorderTop3Prompt(top3);
+    const title = formatString(prompt.titleKey);
+    if (prompt.kind === "MAJOR_REORDER_TOP3") {
+      showReorderTop3Prompt(title, prompt.cardIds);
       return;
     }
 
-    if (pending.kind === "MAJOR_REORDER_ROOM4") {
-      showReorderRoomPrompt([...state.room.slots]);
+    if (prompt.kind === "MAJOR_REORDER_ROOM4") {
+      showReorderRoomPrompt(title, prompt.cardIds);
       return;
     }
 
-    // Generic prompt -> show legal actions as choice cards.
-    showChoicePrompt("Choose", legal, { x: app.screen.width / 2, y: app.screen.height / 2 });
+    const choices = prompt.options.map((o) => ({ label: formatPromptOption(o), action: o.action }));
+    showChoicePrompt(title, choices, { x: app.screen.width / 2, y: app.screen.height / 2 });
   }
 
   // --- Rendering ---
@@ -1099,14 +1213,19 @@ async function main() {
       const card = state.decks.cards.minors[cardId];
       if (!card) return;
       const rank = minorRankLabel(card.rank);
-      const text = [
+      const lines = [
         `${rank.short} of ${suitLabel(card.suit)} (${card.orientation})`,
         card.rank.kind === "court" && card.orientation === "reversed" ? "Elite (+2)" : "",
         state.floor.bossMode && card.rank.kind === "number" ? "Boss corruption: treated as reversed" : "",
         state.room.pendingCleanses[idx] ? "Cleansed for next resolution" : ""
-      ]
-        .filter(Boolean)
-        .join("\n");
+      ];
+      const commit: LegalAction = { type: "COMMIT_RESOLVE", slotIndex: idx };
+      if (isLegalAction(state, commit)) {
+        const preview = previewAction(state, commit);
+        if (preview.choices.length) for (const c of preview.choices) lines.push(`${describeAction(c.action)}: ${formatPreview(c)}`);
+        else lines.push(`Resolve: ${formatPreview(preview)}`);
+      }
+      const text = lines.filter(Boolean).join("\n");
       showTooltip(text, ev.globalX, ev.globalY);
       hoverLift(v, true);
       setPreview(idx);
@@ -1292,7 +1411,7 @@ async function main() {
         if (legal.some((a) => a.type === "USE_SPELL_CLEANSE" && a.slotIndex === i)) opts.push({ type: "USE_SPELL_CLEANSE", slotIndex: i });
         if (legal.some((a) => a.type === "USE_SPELL_REROLL" && a.slotIndex === i)) opts.push({ type: "USE_SPELL_REROLL", slotIndex: i });
         if (opts.length === 0) break;
-        showChoicePrompt("Spell", opts, { x: ev.globalX, y: ev.globalY });
+        showChoicePrompt("Spell", actionChoices(opts), { x: ev.globalX, y: ev.globalY });
         return;
       }
       resetPositions();
@@ -1319,7 +1438,7 @@ async function main() {
           resetPositions();
           return;
         }
-        showChoicePrompt("Spend Fate", opts, { x: ev.globalX, y: ev.globalY });
+        showChoicePrompt("Spend Fate", actionChoices(opts), { x: ev.globalX, y: ev.globalY });
         return;
       }
       resetPositions();
@@ -1336,14 +1455,16 @@ async function main() {
   };
 
   newRunBtn.onclick = () => {
-    const seed = Number(seedInput.value || "1");
+    // Integer seeds stay numbers in the log; anything else is a named seed ("MOON-TOWER-42").
+    const raw = seedInput.value.trim() || "1";
+    const seed = /^-?\d+$/.test(raw) && Number.isSafeInteger(Number(raw)) ? Number(raw) : raw;
     const runLengthTarget = Number(runLengthSelect.value) as 7 | 14 | 21;
     beginNewRun(seed, runLengthTarget);
   };
 
   exportBtn.onclick = () => {
     if (!actionLog) return;
-    downloadJson(`fools-gambit_actionlog_seed${actionLog.seed}.json`, actionLog);
+    downloadJson(`fools-gambit_actionlog_seed${String(actionLog.seed).replace(/[^\w-]/g, "_")}.json`, actionLog);
   };
 
   importInput.onchange = async () => {
@@ -1356,10 +1477,9 @@ async function main() {
     resumeBtn.disabled = false;
   };
 
-  const saved = loadSavedActionLog();
-  resumeBtn.disabled = !saved;
-  resumeBtn.onclick = () => {
-    const log = loadSavedActionLog();
+  resumeBtn.disabled = !hasSavedRun();
+  resumeBtn.onclick = async () => {
+    const log = await loadSavedActionLog();
     if (log) replayFromLog(log);
   };
 
@@ -0,0 +1,72 @@
+import { readFileSync } from "node:fs";
+
+import { describe, expect, it } from "vitest";
+
+import { createContentRegistry, loadContent } from "./content.js";
+import type { ContentBundle, ContentRegistry, MajorsContent } from "./content.js";
+import { applyAction, createRun, getLegalActions } from "./engine.js";
+import { ContentError } from "./errors.js";
+import { replayActionLog } from "./replay.js";
+import type { ActionLog } from "./replay.js";
+import type { GameEvent, RunState } from "./types.js";
+
+function readBundle(): ContentBundle {
+  const majors = JSON.parse(readFileSync(new URL("../../game-data/content/majors.json", import.meta.url), "utf8"));
+  const strings = JSON.parse(readFileSync(new URL("../../game-data/content/strings.en.json", import.meta.url), "utf8"));
+  return { majors, strings };
+}
+
+// The shipped content, except that the Hermit's shadow peeks at 5 cards instead of 3.
+function variantBundle(): ContentBundle {
+  const bundle = readBundle();
+  const majors: MajorsContent = { ...bundle.majors, contentVersion: `${bundle.majors.contentVersion}-hermit5` };
+  const hermit = majors.majors.find((m) => m.id === "hermit")!;
+  hermit.shadow.effect.n = 5;
+  return { ...bundle, majors };
+}
+
+function hermitFloor(content: ContentRegistry): RunState {
+  const s = createRun({ seed: 1, runLengthTarget: 7, content });
+  s.floor.activeMajorId = "hermit";
+  return s;
+}
+
+function peekSize(events: GameEvent[]): number | undefined {
+  const peek = events.find((e) => e.type === "PEEK_TOP_N");
+  return peek?.type === "PEEK_TOP_N" ? peek.n : undefined;
+}
+
+describe("Content registries", () => {
+  it("are not installed as the default", () => {
+    const content = createContentRegistry(readBundle());
+    expect(content.contentVersion).toBe(content.majors.contentVersion);
+    expect(() => createRun({ seed: 1, runLengthTarget: 7 })).toThrow(ContentError);
+    expect(getLegalActions(createRun({ seed: 1, runLengthTarget: 7, content }), { content }).length).toBeGreaterThan(0);
+  });
+
+  it("run two content versions side by side", () => {
+    const shipped = loadContent(readBundle());
+    const variant = createContentRegistry(variantBundle());
+    const action = { type: "SELECT_ATTUNEMENT", majorIds: [] } as const;
+
+    expect(peekSize(applyAction(hermitFloor(variant), action, { content: variant, strict: true }).events)).toBe(5);
+    expect(peekSize(applyAction(hermitFloor(shipped), action, { content: shipped }).events)).toBe(3);
+    // Calls that name no registry fall back to the loaded one.
+    expect(peekSize(applyAction(hermitFloor(variant), action).events)).toBe(3);
+  });
+
+  it("replay a log against the content they are given", async () => {
+    loadContent(readBundle());
+    const variant = createContentRegistry(variantBundle());
+    // Seed 33 opens on the Hermit's floor.
+    const log: ActionLog = {
+      header: { engineVersion: "0.1.0", contentVersion: variant.contentVersion, specVersion: "v1.1", createdAtUTC: "2025-12-27T00:00:00.000Z" },
+      seed: 33,
+      actions: [{ type: "START_RUN", seed: 33, runLengthTarget: 7, seedDerivation: 2 }, { type: "SELECT_ATTUNEMENT", majorIds: [] }]
+    };
+
+    const replayed = await replayActionLog(log, { content: variant, strict: true });
+    expect(peekSize(replayed.events[1]!)).toBe(5);
+    expect(peekSize((await replayActionLog(log)).events[1]!)).toBe(3);
+  });
+});
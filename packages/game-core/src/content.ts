@@ -1,3 +1,4 @@
+import { ContentError } from "./errors.js";
 import type { MajorId } from "./types.js";
 
 export type StringsBundle = Record<string, string>;
@@ -85,19 +86,27 @@ export type MajorDefinition = {
 
 export type MajorsContent = { contentVersion: string; majors: MajorDefinition[] };
 
-export type LoadedContent = {
+// One validated content bundle. Runs take it explicitly (EngineConfig.content, ApplyActionOptions.content, ...), so
+// several versions can be played side by side; calls that pass none use the one loadContent installed.
+export type ContentRegistry = {
+  contentVersion: string;
   majors: MajorsContent;
   strings: StringsBundle;
   majorById: Record<MajorId, MajorDefinition>;
 };
 
-let loaded: LoadedContent | null = null;
+export type ContentBundle = { majors: MajorsContent; strings: StringsBundle };
+
+let loaded: ContentRegistry | null = null;
+
+// The registry of the engine call in progress (see withContent).
+let active: ContentRegistry | null = null;
 
 function assert(condition: unknown, message: string): asserts condition {
-  if (!condition) throw new Error(message);
+  if (!condition) throw new ContentError(message);
 }
 
-export function loadContent(bundle: { majors: MajorsContent; strings: StringsBundle }): LoadedContent {
+export function createContentRegistry(bundle: ContentBundle): ContentRegistry {
   assert(bundle.majors && typeof bundle.majors === "object", "loadContent: majors bundle required");
   assert(typeof bundle.majors.contentVersion === "string" && bundle.majors.contentVersion.length > 0, "loadContent: majors.contentVersion required");
   assert(Array.isArray(bundle.majors.majors) && bundle.majors.majors.length === 21, "loadContent: majors.majors must be length 21");
@@ -108,12 +117,34 @@ export function loadContent(bundle: { majors: MajorsContent; strings: StringsBun
     majorById[m.id] = m;
   }
 
-  loaded = { majors: bundle.majors, strings: bundle.strings, majorById };
+  return { contentVersion: bundle.majors.contentVersion, majors: bundle.majors, strings: bundle.strings, majorById };
+}
+
+// Installs the default registry for calls that pass none.
+export function loadContent(bundle: ContentBundle): ContentRegistry {
+  loaded = createContentRegistry(bundle);
   return loaded;
 }
 
-export function getLoadedContent(): LoadedContent {
-  if (!loaded) throw new Error("Content not loaded. Call loadContent({majors, strings}) first.");
+export function getLoadedContent(): ContentRegistry {
+  if (!loaded) throw new ContentError("Content not loaded. Call loadContent({majors, strings}) first.");
   return loaded;
 }
 
+// Runs `fn` against `content`, or against the loaded default when it is undefined. Nested calls keep the outer
+// registry unless they name their own.
+export function withContent<T>(content: ContentRegistry | undefined, fn: () => T): T {
+  const outer = active;
+  active = content ?? outer ?? getLoadedContent();
+  try {
+    return fn();
+  } finally {
+    active = outer;
+  }
+}
+
+// The registry engine internals read: the current withContent one, else the loaded default.
+export function getContent(): ContentRegistry {
+  return active ?? getLoadedContent();
+}
+
@@ -0,0 +1,71 @@
+import { readFileSync } from "node:fs";
+
+import { bench, describe } from "vitest";
+
+import { loadContent } from "./content.js";
+import { applyAction, createRun, getLegalActions } from "./engine.js";
+import { Xorshift32 } from "./rng/xorshift32.js";
+import { draftState, writable } from "./stateDraft.js";
+import { createRunStateHasher, hashRunState, hashRunStateSync } from "./stateHash.js";
+import type { LegalAction, RunState } from "./types.js";
+
+loadContent({
+  majors: JSON.parse(readFileSync(new URL("../../game-data/content/majors.json", import.meta.url), "utf8")),
+  strings: JSON.parse(readFileSync(new URL("../../game-data/content/strings.en.json", import.meta.url), "utf8"))
+});
+
+// Fixed random playouts; every bench op replays all of their steps, so actions/sec = hz * STEPS.length.
+const STEPS: Array<{ state: RunState; action: LegalAction }> = [];
+for (let seed = 1; seed <= 10; seed += 1) {
+  const chooser = new Xorshift32(900 + seed);
+  let s = createRun({ seed, runLengthTarget: 7 });
+  s.player.maxHp = 60;
+  s.player.hp = 60;
+  for (let i = 0; i < 100; i += 1) {
+    const legal = getLegalActions(s);
+    if (!legal.length) break;
+    const action = legal[chooser.nextUint32() % legal.length]!;
+    STEPS.push({ state: s, action });
+    s = applyAction(s, action).nextState;
+  }
+}
+
+describe(`engine (${STEPS.length} steps per op)`, () => {
+  bench("applyAction", () => {
+    for (const { state, action } of STEPS) applyAction(state, action);
+  });
+
+  bench("applyAction (strict)", () => {
+    for (const { state, action } of STEPS) applyAction(state, action, { strict: true });
+  });
+
+  // The per-action copy: a draft that writes the player, as most actions do, against the structuredClone it replaced.
+  bench("draftState", () => {
+    for (const { state } of STEPS) writable(draftState(state), "player");
+  });
+
+  bench("structuredClone (baseline)", () => {
+    for (const { state } of STEPS) structuredClone(state);
+  });
+
+  bench("getLegalActions", () => {
+    for (const { state } of STEPS) getLegalActions(state);
+  });
+
+  bench("hashRunState", async () => {
+    for (const { state } of STEPS) await hashRunState(state);
+  });
+
+  bench("hashRunStateSync", () => {
+    for (const { state } of STEPS) hashRunStateSync(state);
+  });
+
+  bench("createRunStateHasher", () => {
+    const hasher = createRunStateHasher();
+    for (const { state } of STEPS) hasher.hash(state);
+  });
+
+  bench("createRun", () => {
+    for (let seed = 1; seed <= STEPS.length; seed += 1) createRun({ seed, runLengthTarget: 7 });
+  });
+});
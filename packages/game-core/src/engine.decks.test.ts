@@ -0,0 +1,107 @@
+import { readFileSync } from "node:fs";
+
+import { beforeAll, describe, expect, it } from "vitest";
+
+import { loadContent } from "./content.js";
+import { applyAction, createRun, getLegalActions } from "./engine.js";
+import { getPendingPrompt } from "./prompts.js";
+import type { EventCause, GameEvent, LegalAction, MajorId, RunState } from "./types.js";
+
+beforeAll(() => {
+  const majors = JSON.parse(readFileSync(new URL("../../game-data/content/majors.json", import.meta.url), "utf8"));
+  const strings = JSON.parse(readFileSync(new URL("../../game-data/content/strings.en.json", import.meta.url), "utf8"));
+  loadContent({ majors, strings });
+});
+
+function chooseAction(state: RunState): LegalAction {
+  const legal = getLegalActions(state);
+  return legal.find((a) => a.type === "CHOOSE_ENGAGE") ?? legal.find((a) => a.type === "COMMIT_RESOLVE") ?? legal[0]!;
+}
+
+function chain(cause: EventCause): string[] {
+  const out: string[] = [];
+  for (let c: EventCause | null = cause; c; c = c.parent) out.push(c.kind === "RULE" ? `RULE:${c.rule}` : c.kind);
+  return out;
+}
+
+// A fresh floor whose minor deck keeps only `keep` cards; the rest wait in the floor discard.
+function shortFloor(keep: number, activeMajorId: RunState["floor"]["activeMajorId"]): RunState {
+  const s = createRun({ seed: 1, runLengthTarget: 7 });
+  s.floor.activeMajorId = activeMajorId;
+  s.floor.floorDiscard = s.decks.minorDeck.splice(keep);
+  return s;
+}
+
+function reshuffles(events: GameEvent[]) {
+  return events.filter((e) => e.type === "DECK_RESHUFFLED");
+}
+
+describe("Deck exhaustion", () => {
+  it("puts the shuffled floor discard under an exhausted minor deck", () => {
+    const s = shortFloor(2, "magician");
+    const discarded = [...s.floor.floorDiscard];
+    const { nextState, events } = applyAction(s, { type: "SELECT_ATTUNEMENT", majorIds: [] }, { strict: true });
+
+    const [reshuffle, ...rest] = reshuffles(events);
+    expect(rest).toEqual([]);
+    expect(reshuffle).toMatchObject({ deck: "minor", from: "floorDiscard", cardCount: discarded.length });
+    expect(chain(reshuffle!.cause)).toEqual(["RULE:DECK_EXHAUSTED", "RULE:ROOM_REFILL", "ACTION"]);
+    expect(nextState.room.slots.every((id) => id !== null)).toBe(true);
+    expect(nextState.floor.floorDiscard).toEqual([]);
+    expect([...nextState.room.slots.slice(2), ...nextState.decks.minorDeck].sort()).toEqual(discarded.sort());
+  });
+
+  it("refills a deck too short for a peek before looking", () => {
+    const s = shortFloor(5, "hermit");
+    const { nextState, events } = applyAction(s, { type: "SELECT_ATTUNEMENT", majorIds: [] }, { strict: true });
+
+    expect(chain(reshuffles(events)[0]!.cause)).toEqual(["RULE:DECK_EXHAUSTED", "SHADOW", "RULE:ROOM_REFILL", "ACTION"]);
+    const peek = events.find((e) => e.type === "PEEK_TOP_N");
+    expect(peek).toMatchObject({ n: 3, cardIds: nextState.decks.minorDeck.slice(0, 3) });
+  });
+
+  it("draws the boss deck from the rest of the minor deck when the discard is empty", () => {
+    let s = createRun({ seed: 123, runLengthTarget: 7 });
+    s.player.hp = 999;
+    s.player.maxHp = 999;
+    for (let next = applyAction(s, chooseAction(s)).nextState; !next.floor.bossMode; next = applyAction(s, chooseAction(s)).nextState) s = next;
+    // Only the card resolved by the boss-starting action reaches the boss deck.
+    s.decks.minorDeck.push(...s.floor.floorDiscard.splice(0));
+    const floorDeck = s.decks.minorDeck.length;
+
+    const { nextState, events } = applyAction(s, chooseAction(s), { strict: true });
+    expect(nextState.floor.bossMode).toBe(true);
+    expect(reshuffles(events)).toEqual([expect.objectContaining({ deck: "boss", from: "minorDeck", cardCount: floorDeck })]);
+    expect(nextState.room.slots.every((id) => id !== null)).toBe(true);
+    expect(nextState.decks.minorDeck).toEqual([]);
+  });
+
+  it("shrinks a top-3 reorder to the cards a short boss deck and its refill hold", () => {
+    let s = createRun({ seed: 123, runLengthTarget: 7 });
+    s.player.hp = 999;
+    s.player.maxHp = 999;
+    while (!(s.floor.bossMode && s.phase === "PreResolveWindow")) s = applyAction(s, chooseAction(s)).nextState;
+
+    const majorId = (["moon", "hermit", "high_priestess"] as MajorId[]).find((id) => id !== s.floor.activeMajorId)!;
+    s.majors.claimed = [majorId];
+    s.majors.attuned = [majorId];
+    s.decks.majorDeck = s.decks.majorDeck.filter((id) => id !== majorId);
+    // One card left in the boss deck and one in the floor discard: the refill reaches only 2.
+    const [bossCard, discardCard, ...rest] = [...s.floor.bossDeck!, ...s.floor.floorDiscard];
+    s.floor.bossDeck = [bossCard!];
+    s.floor.floorDiscard = [discardCard!];
+    s.decks.minorDeck.push(...rest);
+
+    const { nextState } = applyAction(s, { type: "USE_MAJOR_GIFT", majorId }, { strict: true });
+    expect(nextState.floor.bossDeck).toHaveLength(2);
+    expect(getPendingPrompt(nextState)).toMatchObject({ kind: "MAJOR_REORDER_TOP3", cardIds: nextState.floor.bossDeck });
+    const legal = getLegalActions(nextState);
+    expect(legal).toEqual([
+      { type: "REORDER_TOP3", order: [0, 1] },
+      { type: "REORDER_TOP3", order: [1, 0] }
+    ]);
+    for (const action of legal) expect(() => applyAction(nextState, action, { strict: true })).not.toThrow();
+    const swapped = applyAction(nextState, legal[1]!, { strict: true }).nextState;
+    expect(swapped.floor.bossDeck).toEqual([...nextState.floor.bossDeck!].reverse());
+  });
+});
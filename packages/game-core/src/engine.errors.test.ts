@@ -0,0 +1,100 @@
+import { readFileSync } from "node:fs";
+
+import { beforeAll, describe, expect, it } from "vitest";
+
+import { loadContent } from "./content.js";
+import { applyAction, createRun, getLegalActions } from "./engine.js";
+import { ContentError, EngineError, IllegalActionError, InternalEngineError } from "./errors.js";
+import { replayActionLog } from "./replay.js";
+import type { ActionLog } from "./replay.js";
+import { hashRunState } from "./stateHash.js";
+import type { LegalAction, RunState } from "./types.js";
+
+let bundle: Parameters<typeof loadContent>[0];
+
+beforeAll(() => {
+  const majors = JSON.parse(readFileSync(new URL("../../game-data/content/majors.json", import.meta.url), "utf8"));
+  const strings = JSON.parse(readFileSync(new URL("../../game-data/content/strings.en.json", import.meta.url), "utf8"));
+  bundle = { majors, strings };
+  loadContent(bundle);
+});
+
+function catchError(fn: () => unknown): unknown {
+  try {
+    fn();
+  } catch (err) {
+    return err;
+  }
+  throw new Error("expected a throw");
+}
+
+function toPreResolveWindow(seed: number): RunState {
+  let s = createRun({ seed, runLengthTarget: 7 });
+  for (let i = 0; i < 20 && s.phase !== "PreResolveWindow"; i += 1) {
+    const legal = getLegalActions(s);
+    s = applyAction(s, legal.find((a) => a.type === "CHOOSE_ENGAGE") ?? legal[0]!).nextState;
+  }
+  expect(s.phase).toBe("PreResolveWindow");
+  return s;
+}
+
+describe("Engine errors", () => {
+  it("rejects actions from the wrong phase without touching the input state", async () => {
+    const s = createRun({ seed: 1, runLengthTarget: 7 });
+    const before = await hashRunState(s);
+    const err = catchError(() => applyAction(s, { type: "CHOOSE_ENGAGE" }));
+
+    expect(err).toBeInstanceOf(IllegalActionError);
+    expect(err).toBeInstanceOf(EngineError);
+    expect(err).toMatchObject({ code: "ILLEGAL_PHASE", context: { actionType: "CHOOSE_ENGAGE", phase: "FloorStart" } });
+    expect(await hashRunState(s)).toBe(before);
+  });
+
+  it("reports missing Fate and empty slots with structured context", () => {
+    const s = toPreResolveWindow(2);
+    s.player.fate = 1;
+    expect(catchError(() => applyAction(s, { type: "SPEND_FATE_EXILE_REPLACE", slotIndex: 0 }))).toMatchObject({
+      code: "INSUFFICIENT_FATE",
+      context: { actionType: "SPEND_FATE_EXILE_REPLACE", required: 2, available: 1 }
+    });
+
+    const emptied = structuredClone(s);
+    const slot = emptied.room.slots.findIndex((id) => id !== null);
+    emptied.decks.minorDeck.push(emptied.room.slots[slot]!);
+    emptied.room.slots[slot] = null;
+    expect(catchError(() => applyAction(emptied, { type: "SPEND_FATE_REROLL", slotIndex: slot }))).toMatchObject({
+      code: "SLOT_EMPTY",
+      context: { slotIndex: slot }
+    });
+  });
+
+  it("rejects answers to a prompt that is not outstanding", () => {
+    const s = toPreResolveWindow(3);
+    s.pending.prompt = { kind: "MAJOR_REORDER_TOP3", majorId: "moon" };
+    s.pending.majorPrompt = { kind: "REORDER_TOP3", majorId: "moon" };
+    const action: LegalAction = { type: "BARGAIN_CHOICE", bargainChoice: "pay" };
+    expect(catchError(() => applyAction(s, action))).toMatchObject({ code: "PROMPT_MISMATCH" });
+  });
+
+  it("separates content and internal failures from illegal actions", () => {
+    const badContent = catchError(() => loadContent({ ...bundle, majors: { ...bundle.majors, majors: [] } }));
+    expect(badContent).toBeInstanceOf(ContentError);
+    expect(badContent).toMatchObject({ code: "CONTENT_INVALID" });
+
+    const s = createRun({ seed: 4, runLengthTarget: 7 });
+    s.decks.minorDeck.push(s.decks.minorDeck[0]!);
+    const broken = catchError(() => applyAction(s, { type: "SELECT_ATTUNEMENT", majorIds: [] }, { strict: true }));
+    expect(broken).toBeInstanceOf(InternalEngineError);
+    expect(broken).not.toBeInstanceOf(IllegalActionError);
+    expect(broken).toMatchObject({ code: "INTERNAL" });
+  });
+
+  it("tags errors raised while replaying with the rejected step", async () => {
+    const log: ActionLog = {
+      header: { engineVersion: "0.1.0", contentVersion: "test", specVersion: "v1.1", createdAtUTC: "2025-12-27T00:00:00.000Z" },
+      seed: 5,
+      actions: [{ type: "START_RUN", seed: 5, runLengthTarget: 7 }, { type: "CHOOSE_ENGAGE" }]
+    };
+    await expect(replayActionLog(log)).rejects.toMatchObject({ code: "ILLEGAL_PHASE", context: { stepIndex: 1 } });
+  });
+});
@@ -42,7 +42,7 @@ function withRoom(
   s.room.pendingCleanses = (room.pendingCleanses ?? [false, false, false, false]) as any;
   s.room.resolvedMask = (room.resolvedMask ?? [false, false, false, false]) as any;
   s.phase = "PreResolveWindow";
-  s.debug = {};
+  s.pending = { resolution: null, prompt: null, majorPrompt: null, floorStart: null };
   return s;
 }
 
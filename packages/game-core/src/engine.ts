@@ -1,30 +1,45 @@
-import { Xorshift32 } from "./rng/xorshift32.js";
-import type { EffectNode } from "./content.js";
-import { getLoadedContent } from "./content.js";
+import { SEED_DERIVATION_VERSION, deriveSeed } from "./rng/seed.js";
+import { deriveStreamSeed, deriveStreams } from "./rng/streams.js";
+import type { RngStream } from "./rng/streams.js";
+import { DEFAULT_RNG_ALGO, createRng } from "./rng/registry.js";
+import type { Rng } from "./rng/registry.js";
+import type { EffectNode, HookId } from "./content.js";
+import { getContent, withContent } from "./content.js";
 import type {
+  ApplyActionOptions,
   CardId,
+  ContentOptions,
   EngineConfig,
   EngineResult,
-  GameEvent,
+  EventSource,
+  GameEventPayload,
   LegalAction,
   MajorId,
   MinorCard,
   MinorRank,
   MinorSuit,
   Orientation,
+  PendingPrompt,
+  PhaseId,
   RunState
 } from "./types.js";
 import {
   applyArmorIfAny,
+  canUseWeaponAgainstEnemy,
   computeEffectiveOrientation,
   computeEnemyValue,
   computeMinorNumericValue,
   isCourt,
   isNumbered
 } from "./rules.js";
-import { beginMajorEffectPrompt, clearMajorPrompt, getMajorPrompt, getMajorPromptLegalActions, getFloorMajorShadow } from "./majors.js";
-
-const ALL_MAJORS: MajorId[] = [
+import { beginMajorEffectPrompt, beginMajorTargetPrompt, clearMajorPrompt, getMajorPrompt, getMajorPromptLegalActions, getFloorMajorShadow, openMajorPrompt, reorderTopCount } from "./majors.js";
+import { ContentError, IllegalActionError, InternalEngineError } from "./errors.js";
+import { attributeEvents, sealEvents, withCause } from "./events.js";
+import { stableStringify } from "./stateHash.js";
+import { draftState, writable } from "./stateDraft.js";
+import { assertCardConservation } from "./zoneAudit.js";
+
+export const ALL_MAJORS: MajorId[] = [
   "magician",
   "high_priestess",
   "empress",
@@ -48,7 +63,7 @@ const ALL_MAJORS: MajorId[] = [
   "world"
 ];
 
-function fisherYatesShuffle<T>(arr: T[], rng: Xorshift32) {
+function fisherYatesShuffle<T>(arr: T[], rng: Rng) {
   for (let i = arr.length - 1; i > 0; i -= 1) {
     const j = rng.nextUint32() % (i + 1);
     const tmp = arr[i];
@@ -57,20 +72,29 @@ function fisherYatesShuffle<T>(arr: T[], rng: Xorshift32) {
   }
 }
 
-function withRng<T>(state: RunState, fn: (rng: Xorshift32) => T): T {
-  const rng = new Xorshift32(state.rng.state);
+// Legacy runs (no streams) draw every purpose from the single state.
+function withRng<T>(state: RunState, stream: RngStream, fn: (rng: Rng) => T): T {
+  const { algo, streams } = state.rng;
+  const rng = createRng(algo, streams ? streams[stream] : state.rng.state);
   const out = fn(rng);
-  state.rng.state = rng.state;
+  const next = writable(state, "rng");
+  if (next.streams) next.streams[stream] = rng.state;
+  else next.state = rng.state;
   return out;
 }
 
+// Restarts `stream` from the run seed and `key`, so what it draws next does not depend on anything drawn before.
+function rekeyStream(state: RunState, stream: RngStream, key: number) {
+  if (state.rng.streams) writable(state, "rng").streams![stream] = deriveStreamSeed(state.rng.state, stream, key);
+}
+
 function computeBossRoomsRequired(floorNumber: number): number {
   if (floorNumber <= 7) return 2;
   if (floorNumber <= 14) return 3;
   return 4;
 }
 
-function buildMinorCards(rng: Xorshift32): { cards: Record<CardId, MinorCard>; deck: CardId[] } {
+function buildMinorCards(orientationRng: Rng, orderRng: Rng): { cards: Record<CardId, MinorCard>; deck: CardId[] } {
   const cards: Record<CardId, MinorCard> = {};
   const deck: CardId[] = [];
 
@@ -81,28 +105,28 @@ function buildMinorCards(rng: Xorshift32): { cards: Record<CardId, MinorCard>; d
   for (const suit of suits) {
     for (const v of numberValues) {
       const id = `${suit}_${v}`;
-      const orientation: Orientation = (rng.nextUint32() & 1) === 1 ? "reversed" : "upright";
+      const orientation: Orientation = (orientationRng.nextUint32() & 1) === 1 ? "reversed" : "upright";
       const rank: MinorRank = { kind: "number", value: v };
       cards[id] = { id, suit, rank, orientation };
       deck.push(id);
     }
     {
       const id = `${suit}_ace`;
-      const orientation: Orientation = (rng.nextUint32() & 1) === 1 ? "reversed" : "upright";
+      const orientation: Orientation = (orientationRng.nextUint32() & 1) === 1 ? "reversed" : "upright";
       const rank: MinorRank = { kind: "ace" };
       cards[id] = { id, suit, rank, orientation };
       deck.push(id);
     }
     for (const face of courtFaces) {
       const id = `${suit}_${face}`;
-      const orientation: Orientation = (rng.nextUint32() & 1) === 1 ? "reversed" : "upright";
+      const orientation: Orientation = (orientationRng.nextUint32() & 1) === 1 ? "reversed" : "upright";
       const rank: MinorRank = { kind: "court", face };
       cards[id] = { id, suit, rank, orientation };
       deck.push(id);
     }
   }
 
-  fisherYatesShuffle(deck, rng);
+  fisherYatesShuffle(deck, orderRng);
   return { cards, deck };
 }
 
@@ -122,64 +146,93 @@ function buildInitialRoom(carried: { slotIndex: number; cardId: CardId } | null)
   };
 }
 
-function cloneState(state: RunState): RunState {
-  return structuredClone(state);
-}
-
 function clamp(n: number, min: number, max: number) {
   return Math.max(min, Math.min(max, n));
 }
 
-function addFate(state: RunState, delta: number, events: GameEvent[]) {
+// Every phase change goes through here so the event stream reports it; entering a terminal phase also ends the run.
+function setPhase(state: RunState, phase: PhaseId, events: GameEventPayload[]) {
+  if (state.phase === phase) return;
+  events.push({ type: "PHASE_CHANGED", from: state.phase, to: phase });
+  state.phase = phase;
+  if (phase === "RunVictory" || phase === "RunDefeat") {
+    const outcome = phase === "RunVictory" ? "victory" : "defeat";
+    events.push({ type: "RUN_ENDED", outcome, floorNumber: state.floor.floorNumber, majorsClaimed: state.majors.claimed.length });
+  }
+}
+
+function addFate(state: RunState, delta: number, events: GameEventPayload[]) {
   const next = clamp(state.player.fate + delta, 0, state.fateCap);
   const actual = next - state.player.fate;
   if (actual !== 0) {
-    state.player.fate = next;
+    writable(state, "player").fate = next;
     events.push({ type: "PLAYER_FATE_CHANGED", delta: actual, fate: next });
   }
 }
 
-function addGold(state: RunState, delta: number, events: GameEvent[]) {
+function addGold(state: RunState, delta: number, events: GameEventPayload[]) {
   const next = clamp(state.player.gold + delta, 0, 9999);
   const actual = next - state.player.gold;
   if (actual !== 0) {
-    state.player.gold = next;
+    writable(state, "player").gold = next;
     events.push({ type: "PLAYER_GOLD_CHANGED", delta: actual, gold: next });
   }
 }
 
-function applyDamage(state: RunState, amount: number, events: GameEvent[]) {
+function applyDamage(state: RunState, amount: number, events: GameEventPayload[]) {
   const reduced = applyArmorIfAny(state, amount, events);
   if (reduced <= 0) return;
   const next = clamp(state.player.hp - reduced, 0, 999);
   const actual = next - state.player.hp;
   if (actual !== 0) {
-    state.player.hp = next;
+    writable(state, "player").hp = next;
     events.push({ type: "PLAYER_HP_CHANGED", delta: actual, hp: next });
-    if (state.player.hp <= 0) state.phase = "RunDefeat";
+    if (state.player.hp <= 0) setPhase(state, "RunDefeat", events);
   }
 }
 
-function applyHeal(state: RunState, amount: number, events: GameEvent[]) {
+function applyHeal(state: RunState, amount: number, events: GameEventPayload[]) {
   if (amount <= 0) return;
   if (state.room.healingUsedThisRoom) return;
   const next = clamp(state.player.hp + amount, 0, state.player.maxHp);
   const actual = next - state.player.hp;
   if (actual <= 0) return;
-  state.player.hp = next;
+  writable(state, "player").hp = next;
   state.room.healingUsedThisRoom = true;
   events.push({ type: "PLAYER_HP_CHANGED", delta: actual, hp: next });
 }
 
-function drawFromMinorDeck(state: RunState): CardId {
-  const id = (state.floor.bossMode ? state.floor.bossDeck?.shift() : state.decks.minorDeck.shift()) ?? null;
-  if (!id) throw new Error("Minor deck is empty");
+// An active deck that runs short gets the shuffled floor discard put underneath it. A boss deck with no discard to fall
+// back on takes what is left of the floor's minor deck instead.
+function refillActiveDeck(state: RunState, deck: CardId[], events: GameEventPayload[]) {
+  const boss = state.floor.bossMode;
+  const from = boss && !state.floor.floorDiscard.length ? "minorDeck" : "floorDiscard";
+  const cards = from === "floorDiscard" ? state.floor.floorDiscard.splice(0) : state.decks.minorDeck.splice(0);
+  if (!cards.length) return;
+  withRng(state, boss ? "boss" : "deck", (rng) => fisherYatesShuffle(cards, rng));
+  deck.push(...cards);
+  events.push({ type: "DECK_RESHUFFLED", deck: boss ? "boss" : "minor", from, cardCount: cards.length });
+  attributeEvents(events, events.length - 1, { kind: "RULE", rule: "DECK_EXHAUSTED" });
+}
+
+// The active deck, refilled first if it holds fewer than `n` cards (draws need 1, peeks and reorders their N).
+function ensureActiveDeck(state: RunState, n: number, events: GameEventPayload[]): CardId[] {
+  const deck = state.floor.bossMode ? state.floor.bossDeck : state.decks.minorDeck;
+  if (!deck) throw new InternalEngineError("bossDeck missing in bossMode");
+  if (deck.length < n) refillActiveDeck(state, deck, events);
+  return deck;
+}
+
+function drawFromMinorDeck(state: RunState, events: GameEventPayload[]): CardId {
+  // Unreachable with all 56 minors in play: room, equipment and tucked enemies cannot hold the rest.
+  const id = ensureActiveDeck(state, 1, events).shift();
+  if (!id) throw new InternalEngineError("No cards left to draw", { phase: state.phase });
   return id;
 }
 
-function bottomToActiveDeck(state: RunState, cardId: CardId, events: GameEvent[]) {
+function bottomToActiveDeck(state: RunState, cardId: CardId, events: GameEventPayload[]) {
   if (state.floor.bossMode) {
-    if (!state.floor.bossDeck) throw new Error("bossDeck missing in bossMode");
+    if (!state.floor.bossDeck) throw new InternalEngineError("bossDeck missing in bossMode");
     state.floor.bossDeck.push(cardId);
   } else {
     state.decks.minorDeck.push(cardId);
@@ -187,34 +240,85 @@ function bottomToActiveDeck(state: RunState, cardId: CardId, events: GameEvent[]
   events.push({ type: "CARD_BOTTOMED", cardId });
 }
 
-function exileToFloorDiscard(state: RunState, cardId: CardId, events: GameEvent[]) {
+function exileToFloorDiscard(state: RunState, cardId: CardId, events: GameEventPayload[]) {
   state.floor.floorDiscard.push(cardId);
   events.push({ type: "CARD_EXILED", cardId });
 }
 
-function fillRoomToFour(state: RunState, events: GameEvent[]) {
+function discardEquipment(state: RunState, kind: "armor" | "spell", events: GameEventPayload[]) {
+  const item = state.player[kind];
+  if (!item) return;
+  writable(state, "player")[kind] = null;
+  exileToFloorDiscard(state, item.cardId, events);
+  events.push({ type: "DISCARD_EQUIPMENT", kind, cardId: item.cardId });
+}
+
+// A discarded weapon takes the enemies tucked under it along to the floor discard.
+function discardWeapon(state: RunState, events: GameEventPayload[]) {
+  const weapon = state.player.weapon;
+  if (!weapon) return;
+  writable(state, "player").weapon = null;
+  exileToFloorDiscard(state, weapon.cardId, events);
+  for (const tucked of weapon.tuckedEnemyIds) exileToFloorDiscard(state, tucked, events);
+  events.push({ type: "DISCARD_EQUIPMENT", kind: "weapon", cardId: weapon.cardId });
+}
+
+// The floor Major's shadow for `hook`, if it has one; reported as SHADOW_TRIGGERED before it is applied.
+function triggerShadow(state: RunState, hook: HookId, events: GameEventPayload[]): EffectNode | null {
+  const shadow = getFloorMajorShadow(state, hook);
+  if (shadow) events.push({ type: "SHADOW_TRIGGERED", majorId: state.floor.activeMajorId, hook });
+  return shadow;
+}
+
+// Triggers and applies the floor Major's shadow for `hook`; everything it does is attributed to it.
+function applyShadow(state: RunState, hook: HookId, events: GameEventPayload[]) {
+  const majorId = state.floor.activeMajorId;
+  withCause(events, { kind: "SHADOW", majorId, hook }, () => {
+    const shadow = triggerShadow(state, hook, events);
+    if (shadow) applyMajorEffect(state, majorId, shadow, events);
+  });
+}
+
+function queueCleanse(state: RunState, slotIndex: number, events: GameEventPayload[]) {
+  state.room.pendingCleanses[slotIndex] = true;
+  events.push({ type: "CARD_CLEANSED", cardId: state.room.slots[slotIndex]!, slotIndex });
+}
+
+function fillRoomToFour(state: RunState, events: GameEventPayload[]) {
+  const start = events.length;
   for (let i = 0; i < 4; i += 1) {
     if (state.room.slots[i] === null) {
-      state.room.slots[i] = drawFromMinorDeck(state);
+      state.room.slots[i] = drawFromMinorDeck(state, events);
     }
   }
-  state.phase = "RoomChoice";
+  setPhase(state, "RoomChoice", events);
   events.push({ type: "ROOM_REVEALED", slots: [...state.room.slots] });
 
-  const shadow = getFloorMajorShadow(state, "ROOM_REVEALED");
-  if (shadow) applyMajorEffect(state, state.floor.activeMajorId, shadow, events);
+  applyShadow(state, "ROOM_REVEALED", events);
+  attributeEvents(events, start, { kind: "RULE", rule: "ROOM_REFILL" });
 }
 
-function startFloor(state: RunState) {
+function startFloor(state: RunState, events: GameEventPayload[]) {
   // Rebuild minorDeck from all minors excluding equipped items, then shuffle deterministically.
+  // Enemies tucked under the weapon go back into the deck; the weapon keeps its restriction value.
+  if (state.player.weapon?.tuckedEnemyIds.length) writable(state, "player").weapon!.tuckedEnemyIds = [];
   const all = Object.keys(state.decks.cards.minors);
   const excluded = new Set<CardId>();
   if (state.player.weapon) excluded.add(state.player.weapon.cardId);
   if (state.player.armor) excluded.add(state.player.armor.cardId);
   if (state.player.spell) excluded.add(state.player.spell.cardId);
 
-  const deck = all.filter((id) => !excluded.has(id));
-  withRng(state, (rng) => fisherYatesShuffle(deck, rng));
+  let deck: CardId[];
+  if (state.rng.streams) {
+    // Shuffle all 56 and then drop the equipped cards, so the floor's order depends only on the seed and floor number.
+    rekeyStream(state, "deck", state.floor.floorNumber);
+    deck = [...all];
+    withRng(state, "deck", (rng) => fisherYatesShuffle(deck, rng));
+    deck = deck.filter((id) => !excluded.has(id));
+  } else {
+    deck = all.filter((id) => !excluded.has(id));
+    withRng(state, "deck", (rng) => fisherYatesShuffle(deck, rng));
+  }
 
   state.decks.minorDeck = deck;
   state.floor.floorDiscard = [];
@@ -225,44 +329,50 @@ function startFloor(state: RunState) {
   state.floor.bossRoomsRequired = computeBossRoomsRequired(state.floor.floorNumber);
   state.room = buildInitialRoom(null);
 
-  state.rules.weaponRestrictionMode = "DEFAULT";
-  state.rules.orderConstraint = { kind: "NONE", requiresChooseCarriedFirst: false, scopeMajorId: null };
+  const rules = writable(state, "rules");
+  rules.weaponRestrictionMode = "DEFAULT";
+  rules.orderConstraint = { kind: "NONE", requiresChooseCarriedFirst: false, scopeMajorId: null };
   state.floor.params = { chariotDirection: null };
 
-  state.debug ??= {};
-  (state.debug as any).floorStartForFloorNumber = state.floor.floorNumber;
-  (state.debug as any).floorStartAttunementChosen = false;
-  (state.debug as any).floorStartAppliedFloorStartHook = false;
-  (state.debug as any).floorStartAppliedOrderConstraintHook = false;
+  state.pending.floorStart = {
+    floorNumber: state.floor.floorNumber,
+    attunementChosen: false,
+    floorStartHookApplied: false,
+    orderConstraintHookApplied: false
+  };
+  events.push({ type: "FLOOR_STARTED", floorNumber: state.floor.floorNumber, majorId: state.floor.activeMajorId });
 }
 
 function resolvedCount(state: RunState) {
   return state.room.resolvedMask.filter(Boolean).length;
 }
 
+function illegalPhase(state: RunState, actionType: LegalAction["type"]) {
+  return new IllegalActionError("ILLEGAL_PHASE", `${actionType} not allowed in this phase`, { actionType, phase: state.phase });
+}
+
+function insufficientFate(state: RunState, actionType: LegalAction["type"], required: number) {
+  return new IllegalActionError("INSUFFICIENT_FATE", "Not enough Fate", { actionType, required, available: state.player.fate });
+}
+
 function getCard(state: RunState, cardId: CardId) {
   const c = state.decks.cards.minors[cardId];
-  if (!c) throw new Error(`Unknown cardId: ${cardId}`);
+  if (!c) throw new InternalEngineError(`Unknown cardId: ${cardId}`, { cardId });
   return c;
 }
 
-function canUseWeaponAgainstEnemy(state: RunState, enemyValue: number): boolean {
-  const weapon = state.player.weapon;
-  if (!weapon) return false;
-  if (state.player.buffs.cheatWeaponNextEnemyFight || state.player.buffs.cheatWeaponThisRoom) return true;
-  if (weapon.lastHelpedDefeatValue === null) return true;
-  if (state.rules.weaponRestrictionMode === "STRICT") return enemyValue < weapon.lastHelpedDefeatValue;
-  return enemyValue <= weapon.lastHelpedDefeatValue;
+function setCardOrientation(state: RunState, cardId: CardId, orientation: Orientation) {
+  const card = getCard(state, cardId);
+  state.decks.cards = { minors: { ...state.decks.cards.minors, [cardId]: { ...card, orientation } } };
 }
 
 function clearPendingResolution(state: RunState) {
-  if (!state.debug) return;
-  delete state.debug.pendingResolution;
+  state.pending.resolution = null;
 }
 
 function completeResolvedCard(
   state: RunState,
-  events: GameEvent[],
+  events: GameEventPayload[],
   slotIndex: number,
   cardId: CardId,
   effectiveOrientation: Orientation,
@@ -278,12 +388,12 @@ function completeResolvedCard(
   clearPendingResolution(state);
 
   if (state.player.hp <= 0) {
-    state.phase = "RunDefeat";
+    setPhase(state, "RunDefeat", events);
     return;
   }
 
-  if (resolvedCount(state) >= 3) state.phase = "RoomEnd";
-  else state.phase = "PreResolveWindow";
+  if (resolvedCount(state) >= 3) setPhase(state, "RoomEnd", events);
+  else setPhase(state, "PreResolveWindow", events);
 
   if (state.phase === "RoomEnd") {
     if (state.floor.bossMode) state.floor.bossRoomsCompleted += 1;
@@ -291,19 +401,16 @@ function completeResolvedCard(
   }
 
   // AFTER_FIRST_RESOLUTION hook (e.g., Sun shadow).
-  if (resolvedCount(state) === 1) {
-    const shadow = getFloorMajorShadow(state, "AFTER_FIRST_RESOLUTION");
-    if (shadow) applyMajorEffect(state, state.floor.activeMajorId, shadow, events);
-  }
+  if (resolvedCount(state) === 1) applyShadow(state, "AFTER_FIRST_RESOLUTION", events);
 }
 
-function resolvePendingNoChoice(state: RunState, events: GameEvent[]): boolean {
-  const pending = state.debug?.pendingResolution;
+function resolvePendingNoChoice(state: RunState, events: GameEventPayload[]): boolean {
+  const pending = state.pending.resolution;
   if (!pending) return false;
 
   const slotIndex = pending.slotIndex;
   const cardId = state.room.slots[slotIndex];
-  if (!cardId || cardId !== pending.cardId) throw new Error("Pending resolution card mismatch");
+  if (!cardId || cardId !== pending.cardId) throw new InternalEngineError("Pending resolution card mismatch");
 
   const card = getCard(state, cardId);
   const effective = computeEffectiveOrientation(state, slotIndex, card);
@@ -321,7 +428,7 @@ function resolvePendingNoChoice(state: RunState, events: GameEvent[]): boolean {
     return true;
   }
 
-  if (card.rank.kind !== "number") throw new Error("Unexpected non-number non-ace minor");
+  if (card.rank.kind !== "number") throw new InternalEngineError("Unexpected non-number non-ace minor");
   const v = computeMinorNumericValue(card.rank);
 
   if (card.suit === "cups" && effective === "upright" && v >= 8) return false; // player choice
@@ -342,10 +449,11 @@ function resolvePendingNoChoice(state: RunState, events: GameEvent[]): boolean {
   if (card.suit === "cups") {
     if (effective === "upright") applyHeal(state, v, events);
     else {
-      const prevArmor = state.player.armor;
-      state.player.armor = null;
+      const player = writable(state, "player");
+      const prevArmor = player.armor;
+      player.armor = null;
       applyDamage(state, v, events);
-      state.player.armor = prevArmor;
+      player.armor = prevArmor;
     }
     completeResolvedCard(state, events, slotIndex, cardId, effective, true);
     return true;
@@ -353,15 +461,13 @@ function resolvePendingNoChoice(state: RunState, events: GameEvent[]): boolean {
 
   if (card.suit === "wands") {
     if (effective === "upright") {
-      state.player.spell = { cardId, value: v };
+      discardEquipment(state, "spell", events);
+      writable(state, "player").spell = { cardId, value: v };
       events.push({ type: "EQUIP_SPELL", cardId, value: v });
       completeResolvedCard(state, events, slotIndex, cardId, effective, false);
     } else {
       if (state.player.spell) {
-        const discarded = state.player.spell.cardId;
-        state.player.spell = null;
-        exileToFloorDiscard(state, discarded, events);
-        events.push({ type: "DISCARD_EQUIPMENT", kind: "spell", cardId: discarded });
+        discardEquipment(state, "spell", events);
       } else {
         applyDamage(state, 2, events);
       }
@@ -372,12 +478,8 @@ function resolvePendingNoChoice(state: RunState, events: GameEvent[]): boolean {
 
   if (card.suit === "swords") {
     if (effective === "upright") {
-      const prev = state.player.weapon;
-      if (prev) {
-        exileToFloorDiscard(state, prev.cardId, events);
-        events.push({ type: "DISCARD_EQUIPMENT", kind: "weapon", cardId: prev.cardId });
-      }
-      state.player.weapon = { cardId, value: v, lastHelpedDefeatValue: null, tuckedEnemyIds: [] };
+      discardWeapon(state, events);
+      writable(state, "player").weapon = { cardId, value: v, lastHelpedDefeatValue: null, tuckedEnemyIds: [] };
       events.push({ type: "EQUIP_WEAPON", cardId, value: v });
       completeResolvedCard(state, events, slotIndex, cardId, effective, false);
     } else {
@@ -388,7 +490,16 @@ function resolvePendingNoChoice(state: RunState, events: GameEvent[]): boolean {
     return true;
   }
 
-  throw new Error("Unhandled suit");
+  throw new InternalEngineError("Unhandled suit");
+}
+
+// What a pending resolution waits on once resolvePendingNoChoice has declined to resolve it automatically.
+function minorPrompt(state: RunState, cardId: CardId): PendingPrompt {
+  const card = getCard(state, cardId);
+  if (card.rank.kind === "ace") return { kind: "ACE", cardId };
+  if (isCourt(card)) return { kind: "ENEMY_FIGHT", cardId };
+  if (card.suit === "cups") return { kind: "CUPS_8_10", cardId };
+  return { kind: "SWORDS_AMBUSH_BLOCK", cardId };
 }
 
 function computeAllowedCommitSlots(state: RunState): number[] {
@@ -432,8 +543,8 @@ function computeAllowedCommitSlots(state: RunState): number[] {
   return [sorted[0]!.i];
 }
 
-function applyMajorEffect(state: RunState, majorId: MajorId, effect: EffectNode, events: GameEvent[]) {
-  if (state.debug?.pendingPrompt) return;
+function applyMajorEffect(state: RunState, majorId: MajorId, effect: EffectNode, events: GameEventPayload[]) {
+  if (state.pending.prompt) return;
 
   switch (effect.type) {
     case "NOOP":
@@ -442,14 +553,14 @@ function applyMajorEffect(state: RunState, majorId: MajorId, effect: EffectNode,
     case "SEQUENCE": {
       for (const child of effect.effects ?? []) {
         applyMajorEffect(state, majorId, child, events);
-        if (state.debug?.pendingPrompt) return;
+        if (state.pending.prompt) return;
       }
       return;
     }
 
     case "CONDITIONAL": {
       const pred = effect.if;
-      if (!pred || !effect.then || !effect.else) throw new Error("CONDITIONAL requires if/then/else");
+      if (!pred || !effect.then || !effect.else) throw new ContentError("CONDITIONAL requires if/then/else", { majorId });
       const ok =
         pred.kind === "ROOM_HAS_ENEMY"
           ? state.room.slots.some((id) => id && state.decks.cards.minors[id]!.rank.kind === "court")
@@ -466,23 +577,25 @@ function applyMajorEffect(state: RunState, majorId: MajorId, effect: EffectNode,
       return;
     }
 
+    case "REORDER_TOP_N": {
+      // With fewer than 2 cards left even after the refill there is nothing to reorder.
+      if (ensureActiveDeck(state, 3, events).length >= 2) beginMajorEffectPrompt(state, majorId, effect, events);
+      return;
+    }
+
     case "CHOICE":
     case "BARGAIN":
-    case "REORDER_TOP_N":
     case "REORDER_ROOM_ARBITRARY": {
-      beginMajorEffectPrompt(state, majorId, effect);
+      beginMajorEffectPrompt(state, majorId, effect, events);
       return;
     }
 
     case "PEEK_TOP_N": {
-      const deck = state.floor.bossMode ? state.floor.bossDeck : state.decks.minorDeck;
       const n = effect.n ?? 3;
-      const top = (deck ?? []).slice(0, n);
-      events.push({ type: "PEEK_TOP_N", n, cardIds: top });
-      if (effect.canReorder) {
-        state.debug ??= {};
-        state.debug.pendingPrompt = { kind: "MAJOR_REORDER_TOP3", majorId };
-        (state.debug as any).pendingMajorPrompt = { kind: "REORDER_TOP3", majorId };
+      const deck = ensureActiveDeck(state, effect.canReorder ? Math.max(n, 3) : n, events);
+      events.push({ type: "PEEK_TOP_N", n, cardIds: deck.slice(0, n) });
+      if (effect.canReorder && deck.length >= 2) {
+        openMajorPrompt(state, { kind: "MAJOR_REORDER_TOP3", majorId }, { kind: "REORDER_TOP3", majorId }, events);
       }
       return;
     }
@@ -518,7 +631,7 @@ function applyMajorEffect(state: RunState, majorId: MajorId, effect: EffectNode,
 
     case "SET_WEAPON_RESTRICTION_MODE": {
       if (effect.scope !== "THIS_FLOOR" || !effect.weaponRestrictionMode) return;
-      state.rules.weaponRestrictionMode = effect.weaponRestrictionMode;
+      writable(state, "rules").weaponRestrictionMode = effect.weaponRestrictionMode;
       return;
     }
 
@@ -534,7 +647,7 @@ function applyMajorEffect(state: RunState, majorId: MajorId, effect: EffectNode,
               : effect.orderConstraint === "SUIT_ORDER"
                 ? "SUIT_ORDER"
                 : "NONE";
-      state.rules.orderConstraint = {
+      writable(state, "rules").orderConstraint = {
         kind,
         requiresChooseCarriedFirst: Boolean(effect.requiresChooseCarriedFirst),
         scopeMajorId: state.floor.activeMajorId
@@ -545,11 +658,11 @@ function applyMajorEffect(state: RunState, majorId: MajorId, effect: EffectNode,
     case "SET_FLOOR_PARAM": {
       if (effect.scope !== "THIS_FLOOR" || !effect.paramKey) return;
       if (effect.paramKey === "cheatWeapon") {
-        state.player.buffs.cheatWeaponNextEnemyFight = true;
+        writable(state, "player").buffs.cheatWeaponNextEnemyFight = true;
         return;
       }
       if (effect.paramKey === "chariotDirection") {
-        if (effect.paramValue !== "LEFT_TO_RIGHT" && effect.paramValue !== "RIGHT_TO_LEFT") throw new Error("Invalid chariotDirection paramValue");
+        if (effect.paramValue !== "LEFT_TO_RIGHT" && effect.paramValue !== "RIGHT_TO_LEFT") throw new ContentError("Invalid chariotDirection paramValue", { majorId });
         state.floor.params.chariotDirection = effect.paramValue;
         return;
       }
@@ -563,7 +676,7 @@ function applyMajorEffect(state: RunState, majorId: MajorId, effect: EffectNode,
     case "EXILE_REPLACE_REVEALED":
     case "CLEANSE_REVEALED": {
       const selector = effect.selector;
-      if (!selector) throw new Error(`${effect.type} requires selector`);
+      if (!selector) throw new ContentError(`${effect.type} requires selector`, { majorId });
 
       const occupied = [0, 1, 2, 3].filter((i) => state.room.slots[i] !== null);
       const effectiveReversed = occupied.filter((i) => {
@@ -587,9 +700,7 @@ function applyMajorEffect(state: RunState, majorId: MajorId, effect: EffectNode,
           applyMajorEffectToSlot(state, effect, candidates[0]!, events);
           return;
         }
-        state.debug ??= {};
-        state.debug.pendingPrompt = { kind: "MAJOR_CHOICE", majorId, promptKey: "major.selectTarget", optionIds: candidates.map(String) };
-        (state.debug as any).pendingMajorPrompt = { kind: "SELECT_TARGET", majorId, effect, candidates };
+        beginMajorTargetPrompt(state, majorId, effect, candidates, events);
       };
 
       if (selector.kind === "PLAYER_CHOICE" || selector.kind === "IF_ENEMY_PRESENT_PLAYER_CHOICE" || selector.kind === "IF_ANY_REVERSED_PLAYER_CHOICE") {
@@ -603,7 +714,7 @@ function applyMajorEffect(state: RunState, majorId: MajorId, effect: EffectNode,
       }
 
       if (selector.kind === "RANDOM") {
-        const slotIndex = candidates[withRng(state, (rng) => rng.nextUint32() % candidates.length)]!;
+        const slotIndex = candidates[withRng(state, "targets", (rng) => rng.nextUint32() % candidates.length)]!;
         applyMajorEffectToSlot(state, effect, slotIndex, events);
         return;
       }
@@ -631,57 +742,54 @@ function applyMajorEffect(state: RunState, majorId: MajorId, effect: EffectNode,
   }
 }
 
-function applyMajorEffectToSlot(state: RunState, effect: EffectNode, slotIndex: number, events: GameEvent[]) {
+function applyMajorEffectToSlot(state: RunState, effect: EffectNode, slotIndex: number, events: GameEventPayload[]) {
   const cardId = state.room.slots[slotIndex];
   if (!cardId) return;
 
   if (effect.type === "CLEANSE_REVEALED") {
     const card = state.decks.cards.minors[cardId]!;
     if (computeEffectiveOrientation(state, slotIndex, card) !== "reversed") return;
-    state.room.pendingCleanses[slotIndex] = true;
+    queueCleanse(state, slotIndex, events);
     return;
   }
 
   if (effect.type === "REROLL_REVEALED") {
     bottomToActiveDeck(state, cardId, events);
     state.room.pendingCleanses[slotIndex] = false;
-    state.room.slots[slotIndex] = drawFromMinorDeck(state);
+    state.room.slots[slotIndex] = drawFromMinorDeck(state, events);
     return;
   }
 
   if (effect.type === "EXILE_REPLACE_REVEALED") {
     exileToFloorDiscard(state, cardId, events);
     state.room.pendingCleanses[slotIndex] = false;
-    state.room.slots[slotIndex] = drawFromMinorDeck(state);
+    state.room.slots[slotIndex] = drawFromMinorDeck(state, events);
     return;
   }
 }
 
-function autoAdvance(state: RunState, events: GameEvent[]) {
+function autoAdvance(state: RunState, events: GameEventPayload[]) {
   while (true) {
     if (state.phase === "RunInit") {
-      state.phase = "FloorStart";
+      setPhase(state, "FloorStart", events);
       continue;
     }
     if (state.phase === "FloorStart") {
-      state.debug ??= {};
-      const dbg: any = state.debug;
-      if (dbg.floorStartForFloorNumber !== state.floor.floorNumber) startFloor(state);
-      if (state.debug.pendingPrompt) break;
-      if (!dbg.floorStartAttunementChosen) break;
-      if (!dbg.floorStartAppliedFloorStartHook) {
-        dbg.floorStartAppliedFloorStartHook = true;
-        const shadow = getFloorMajorShadow(state, "FLOOR_START");
-        if (shadow) applyMajorEffect(state, state.floor.activeMajorId, shadow, events);
-        if (state.debug.pendingPrompt) break;
+      if (state.pending.floorStart?.floorNumber !== state.floor.floorNumber) withCause(events, { kind: "RULE", rule: "FLOOR_START" }, () => startFloor(state, events));
+      const progress = state.pending.floorStart!;
+      if (state.pending.prompt) break;
+      if (!progress.attunementChosen) break;
+      if (!progress.floorStartHookApplied) {
+        progress.floorStartHookApplied = true;
+        applyShadow(state, "FLOOR_START", events);
+        if (state.pending.prompt) break;
       }
-      if (!dbg.floorStartAppliedOrderConstraintHook) {
-        dbg.floorStartAppliedOrderConstraintHook = true;
-        const shadow = getFloorMajorShadow(state, "ORDER_CONSTRAINT");
-        if (shadow) applyMajorEffect(state, state.floor.activeMajorId, shadow, events);
-        if (state.debug.pendingPrompt) break;
+      if (!progress.orderConstraintHookApplied) {
+        progress.orderConstraintHookApplied = true;
+        applyShadow(state, "ORDER_CONSTRAINT", events);
+        if (state.pending.prompt) break;
       }
-      state.phase = "RoomReveal";
+      setPhase(state, "RoomReveal", events);
       continue;
     }
     if (state.phase === "RoomReveal") {
@@ -691,57 +799,73 @@ function autoAdvance(state: RunState, events: GameEvent[]) {
     if (state.phase === "EngageSetup") {
       const requiresChooseCarriedFirst = state.rules.orderConstraint.requiresChooseCarriedFirst;
       if (requiresChooseCarriedFirst && state.room.carryChoiceIndex === null) break;
-      state.phase = "PreResolveWindow";
+      setPhase(state, "PreResolveWindow", events);
       continue;
     }
     if (state.phase === "ResolveCommit") {
-      state.phase = "ResolveExecute";
+      setPhase(state, "ResolveExecute", events);
       continue;
     }
     if (state.phase === "ResolveExecute") {
-      if (!state.debug?.pendingResolution) break;
-      const progressed = resolvePendingNoChoice(state, events);
+      const resolution = state.pending.resolution;
+      if (!resolution) break;
+      const progressed = withCause(events, { kind: "CARD", cardId: resolution.cardId, slotIndex: resolution.slotIndex }, () => {
+        if (resolvePendingNoChoice(state, events)) return true;
+        events.push({ type: "PROMPT_OPENED", prompt: minorPrompt(state, resolution.cardId) });
+        return false;
+      });
       if (progressed) continue;
       break;
     }
     if (state.phase === "RoomEnd") {
       const remainingIndex = [0, 1, 2, 3].find((i) => state.room.slots[i] !== null);
-      if (remainingIndex === undefined) throw new Error("RoomEnd with no remaining carried card");
+      if (remainingIndex === undefined) throw new InternalEngineError("RoomEnd with no remaining carried card");
       const carriedCardId = state.room.slots[remainingIndex]!;
 
       if (state.floor.bossMode) {
         if (state.floor.bossRoomsCompleted >= state.floor.bossRoomsRequired) {
           // Floor victory: claim major and advance.
+          const start = events.length;
           const defeated = state.floor.activeMajorId;
-          if (!state.majors.claimed.includes(defeated)) state.majors.claimed.push(defeated);
-          if (!state.majors.spentThisFloor.includes(defeated)) state.majors.spentThisFloor.push(defeated);
+          if (!state.majors.claimed.includes(defeated)) {
+            writable(state, "majors").claimed.push(defeated);
+            events.push({ type: "MAJOR_CLAIMED", majorId: defeated, floorNumber: state.floor.floorNumber });
+          }
+          if (!state.majors.spentThisFloor.includes(defeated)) writable(state, "majors").spentThisFloor.push(defeated);
 
           if (state.majors.claimed.length >= state.runLengthTarget) {
-            state.phase = "RunVictory";
+            setPhase(state, "RunVictory", events);
+            attributeEvents(events, start, { kind: "RULE", rule: "FLOOR_CLEARED" });
             break;
           }
 
           state.floor.floorNumber += 1;
-          const nextMajor = state.decks.majorDeck.shift();
-          if (!nextMajor) throw new Error("Major deck empty");
+          const [nextMajor, ...restMajors] = state.decks.majorDeck;
+          if (!nextMajor) throw new InternalEngineError("Major deck empty");
+          state.decks.majorDeck = restMajors;
           state.floor.activeMajorId = nextMajor;
-          state.majors.spentThisFloor = [];
-          state.phase = "FloorStart";
+          writable(state, "majors").spentThisFloor = [];
+          setPhase(state, "FloorStart", events);
+          attributeEvents(events, start, { kind: "RULE", rule: "FLOOR_CLEARED" });
           continue;
         }
       } else {
         if (state.floor.engagedRoomsCompleted >= 6) {
-          // Start boss immediately with the carried card.
+          // Start boss immediately with the carried card. The discard pile becomes the boss deck.
           state.floor.bossMode = true;
-          state.floor.bossDeck = [...state.floor.floorDiscard];
-          withRng(state, (rng) => fisherYatesShuffle(state.floor.bossDeck!, rng));
+          state.floor.bossDeck = state.floor.floorDiscard;
+          state.floor.floorDiscard = [];
+          rekeyStream(state, "boss", state.floor.floorNumber);
+          withRng(state, "boss", (rng) => fisherYatesShuffle(state.floor.bossDeck!, rng));
           state.floor.bossRoomsCompleted = 0;
           state.floor.bossRoomsRequired = computeBossRoomsRequired(state.floor.floorNumber);
+          events.push({ type: "BOSS_STARTED", floorNumber: state.floor.floorNumber, majorId: state.floor.activeMajorId, roomsRequired: state.floor.bossRoomsRequired });
+          attributeEvents(events, events.length - 1, { kind: "RULE", rule: "BOSS_START" });
         }
       }
 
       state.room = buildInitialRoom({ slotIndex: remainingIndex, cardId: carriedCardId });
-      state.phase = "RoomReveal";
+      setPhase(state, "RoomReveal", events);
       continue;
     }
     break;
@@ -749,11 +873,23 @@ function autoAdvance(state: RunState, events: GameEvent[]) {
 }
 
 export function createRun(config: EngineConfig): RunState {
+  return startRun(config).nextState;
+}
+
+// createRun plus the events of getting the run to its first decision (PHASE_CHANGED, FLOOR_STARTED, ...).
+export function startRun(config: EngineConfig): EngineResult {
   // Phase D: majors are driven by content and required for correct gameplay.
-  getLoadedContent();
+  return withContent(config.content, () => startRunWithContent(config));
+}
 
-  const rng = new Xorshift32(config.seed);
-  const { cards, deck } = buildMinorCards(rng);
+function startRunWithContent(config: EngineConfig): EngineResult {
+  const derivation = config.seedDerivation ?? SEED_DERIVATION_VERSION;
+  const root = deriveSeed(config.seed, derivation);
+  const streams = derivation >= 2 ? deriveStreams(root) : null;
+  const algo = config.rngAlgo ?? DEFAULT_RNG_ALGO;
+  const rng = createRng(algo, streams ? streams.setup : root);
+  const orientationRng = streams ? createRng(algo, streams.orientation) : rng;
+  const { cards, deck } = buildMinorCards(orientationRng, rng);
   const majorDeck = [...ALL_MAJORS];
   fisherYatesShuffle(majorDeck, rng);
   const activeMajorId = majorDeck.shift() ?? "magician";
@@ -762,7 +898,9 @@ export function createRun(config: EngineConfig): RunState {
     phase: "RunInit",
     runLengthTarget: config.runLengthTarget,
     fateCap: 10,
-    rng: { algo: "xorshift32", state: rng.state },
+    rng: streams
+      ? { algo, state: root, streams: { ...streams, setup: rng.state, orientation: orientationRng.state } }
+      : { algo, state: rng.state },
     player: {
       hp: 20,
       maxHp: 20,
@@ -791,20 +929,24 @@ export function createRun(config: EngineConfig): RunState {
     rules: {
       weaponRestrictionMode: "DEFAULT",
       orderConstraint: { kind: "NONE", requiresChooseCarriedFirst: false, scopeMajorId: null }
-    }
+    },
+    pending: { resolution: null, prompt: null, majorPrompt: null, floorStart: null }
   };
 
-  state.rng.state = rng.state;
-  const events: GameEvent[] = [];
+  const events: GameEventPayload[] = [];
   autoAdvance(state, events);
-  return state;
+  return { nextState: state, events: sealEvents(events, { kind: "RUN_START" }) };
+}
+
+export function getLegalActions(state: RunState, options: ContentOptions = {}): LegalAction[] {
+  return withContent(options.content, () => listLegalActions(state));
 }
 
-export function getLegalActions(state: RunState): LegalAction[] {
+function listLegalActions(state: RunState): LegalAction[] {
   if (state.phase === "RunDefeat" || state.phase === "RunVictory") return [];
   if (state.player.hp <= 0) return [];
 
-  if (state.debug?.pendingPrompt?.kind?.startsWith("MAJOR_")) {
+  if (state.pending.prompt?.kind.startsWith("MAJOR_")) {
     return getMajorPromptLegalActions(state);
   }
 
@@ -885,7 +1027,7 @@ export function getLegalActions(state: RunState): LegalAction[] {
   }
 
   if (state.phase === "ResolveExecute") {
-    const pending = state.debug?.pendingResolution;
+    const pending = state.pending.resolution;
     if (!pending) return [];
     const card = getCard(state, pending.cardId);
     const effective = computeEffectiveOrientation(state, pending.slotIndex, card);
@@ -893,16 +1035,16 @@ export function getLegalActions(state: RunState): LegalAction[] {
     // Ace prompts
     if (card.rank.kind === "ace") {
       if (card.suit === "pentacles") {
-        return [
-          { type: "ACE_CHOICE", optionId: "pay5_heal5" },
-          { type: "ACE_CHOICE", optionId: "gain5_take3" }
-        ];
+        const acts: LegalAction[] = [];
+        if (state.player.gold >= 5) acts.push({ type: "ACE_CHOICE", optionId: "pay5_heal5" });
+        acts.push({ type: "ACE_CHOICE", optionId: "gain5_take3" });
+        return acts;
       }
       if (card.suit === "cups") {
         const acts: LegalAction[] = [{ type: "ACE_CHOICE", optionId: "heal_to_full" }];
         for (const slotIndex of [0, 1, 2, 3]) {
           const id = state.room.slots[slotIndex];
-          if (!id) continue;
+          if (!id || slotIndex === pending.slotIndex) continue;
           const target = getCard(state, id);
           const eff = computeEffectiveOrientation(state, slotIndex, target);
           if (eff === "reversed") acts.push({ type: "ACE_CHOICE", optionId: "cleanse_free", slotIndex });
@@ -912,7 +1054,7 @@ export function getLegalActions(state: RunState): LegalAction[] {
       if (card.suit === "wands") {
         const acts: LegalAction[] = [];
         for (const slotIndex of [0, 1, 2, 3]) {
-          if (state.room.slots[slotIndex] === null) continue;
+          if (state.room.slots[slotIndex] === null || slotIndex === pending.slotIndex) continue;
           acts.push({ type: "ACE_CHOICE", optionId: "exile_replace_free", slotIndex });
           acts.push({ type: "ACE_CHOICE", optionId: "reroll_free", slotIndex });
         }
@@ -921,7 +1063,7 @@ export function getLegalActions(state: RunState): LegalAction[] {
       if (card.suit === "swords") {
         const acts: LegalAction[] = [{ type: "ACE_CHOICE", optionId: "cheat_weapon_free" }];
         for (const slotIndex of [0, 1, 2, 3]) {
-          if (state.room.slots[slotIndex] === null) continue;
+          if (state.room.slots[slotIndex] === null || slotIndex === pending.slotIndex) continue;
           acts.push({ type: "ACE_CHOICE", optionId: "reroll_free", slotIndex });
         }
         return acts;
@@ -959,82 +1101,115 @@ export function getLegalActions(state: RunState): LegalAction[] {
   return [];
 }
 
-export function applyAction(state: RunState, action: LegalAction): EngineResult {
-  const nextState = cloneState(state);
-  const events: GameEvent[] = [];
+export function isLegalAction(state: RunState, action: LegalAction, options: ContentOptions = {}): boolean {
+  const key = stableStringify(action);
+  return getLegalActions(state, options).some((a) => stableStringify(a) === key);
+}
+
+export function applyAction(state: RunState, action: LegalAction, options: ApplyActionOptions = {}): EngineResult {
+  return withContent(options.content, () => applyActionWithContent(state, action, options));
+}
+
+function applyActionWithContent(state: RunState, action: LegalAction, options: ApplyActionOptions): EngineResult {
+  if (!options.strict) return applyActionUnchecked(state, action);
+
+  // Strict mode: accept exactly what getLegalActions lists. Unlisted actions still go through the engine first so they
+  // are rejected with the most specific error it has.
+  const legal = isLegalAction(state, action);
+  let result: EngineResult;
+  try {
+    result = applyActionUnchecked(state, action);
+  } catch (err) {
+    if (legal && err instanceof IllegalActionError) throw new InternalEngineError(`Listed action rejected: ${err.message}`, { ...err.context, phase: state.phase });
+    throw err;
+  }
+  if (!legal) throw new IllegalActionError("ILLEGAL_ACTION", `${action.type} is not a legal action in this state`, { actionType: action.type, phase: state.phase });
+  assertCardConservation(result.nextState, action.type);
+  return result;
+}
+
+function applyActionUnchecked(state: RunState, action: LegalAction): EngineResult {
+  const { nextState, events } = dispatchAction(state, action);
+  return { nextState, events: sealEvents(events, { kind: "ACTION", action: structuredClone(action) }) };
+}
+
+function dispatchAction(state: RunState, action: LegalAction): { nextState: RunState; events: GameEventPayload[] } {
+  const nextState = draftState(state);
+  const events: GameEventPayload[] = [];
 
   if (nextState.player.hp <= 0) return { nextState: { ...nextState, phase: "RunDefeat" }, events };
 
-  if (nextState.debug?.pendingPrompt?.kind?.startsWith("MAJOR_")) {
+  if (nextState.pending.prompt?.kind.startsWith("MAJOR_")) {
     const prompt = getMajorPrompt(nextState);
-    if (!prompt) throw new Error("Major prompt missing payload");
+    if (!prompt) throw new InternalEngineError("Major prompt missing payload");
+    const answer: EventSource = { kind: "MAJOR_PROMPT", majorId: prompt.majorId };
 
     if (action.type === "USE_MAJOR_GIFT") {
       if (prompt.kind === "CHOICE") {
-        if (action.majorId !== prompt.majorId) throw new Error("Prompt majorId mismatch");
-        if (!action.optionId) throw new Error("Missing optionId");
+        if (action.majorId !== prompt.majorId) throw new IllegalActionError("PROMPT_MISMATCH", "Prompt majorId mismatch", { actionType: action.type, majorId: prompt.majorId });
+        if (!action.optionId) throw new IllegalActionError("PROMPT_MISMATCH", "Missing optionId", { actionType: action.type });
         const idx = prompt.optionIds.indexOf(action.optionId);
-        if (idx < 0) throw new Error("Unknown optionId");
+        if (idx < 0) throw new IllegalActionError("PROMPT_MISMATCH", "Unknown optionId", { actionType: action.type });
         clearMajorPrompt(nextState);
-        applyMajorEffect(nextState, prompt.majorId, prompt.optionEffects[idx]!, events);
+        withCause(events, answer, () => applyMajorEffect(nextState, prompt.majorId, prompt.optionEffects[idx]!, events));
         autoAdvance(nextState, events);
         return { nextState, events };
       }
       if (prompt.kind === "SELECT_TARGET") {
-        if (action.majorId !== prompt.majorId) throw new Error("Prompt majorId mismatch");
-        if (action.slotIndex === undefined) throw new Error("Missing slotIndex");
-        if (!prompt.candidates.includes(action.slotIndex)) throw new Error("Slot not a candidate");
+        if (action.majorId !== prompt.majorId) throw new IllegalActionError("PROMPT_MISMATCH", "Prompt majorId mismatch", { actionType: action.type, majorId: prompt.majorId });
+        if (action.slotIndex === undefined) throw new IllegalActionError("PROMPT_MISMATCH", "Missing slotIndex", { actionType: action.type });
+        if (!prompt.candidates.includes(action.slotIndex)) throw new IllegalActionError("PROMPT_MISMATCH", "Slot not a candidate", { actionType: action.type, slotIndex: action.slotIndex });
         clearMajorPrompt(nextState);
-        applyMajorEffectToSlot(nextState, prompt.effect, action.slotIndex, events);
+        withCause(events, answer, () => applyMajorEffectToSlot(nextState, prompt.effect, action.slotIndex!, events));
         autoAdvance(nextState, events);
         return { nextState, events };
       }
-      throw new Error("USE_MAJOR_GIFT not valid for this major prompt");
+      throw new IllegalActionError("PROMPT_MISMATCH", "USE_MAJOR_GIFT not valid for this major prompt", { actionType: action.type });
     }
 
     if (action.type === "BARGAIN_CHOICE") {
-      if (prompt.kind !== "BARGAIN") throw new Error("Expected BARGAIN prompt");
+      if (prompt.kind !== "BARGAIN") throw new IllegalActionError("PROMPT_MISMATCH", "Expected BARGAIN prompt", { actionType: action.type });
       const ix = prompt.options.findIndex((k) => k === action.bargainChoice);
-      if (ix < 0) throw new Error("Bargain option not available");
+      if (ix < 0) throw new IllegalActionError("PROMPT_MISMATCH", "Bargain option not available", { actionType: action.type });
       const opt = prompt.bargainOptions[ix]!;
-      if (action.bargainChoice === "pay") {
-        const payGold = opt.payGold ?? 0;
-        if (nextState.player.gold < payGold) throw new Error("Not enough gold");
+      const payGold = action.bargainChoice === "pay" ? (opt.payGold ?? 0) : 0;
+      if (nextState.player.gold < payGold) throw new IllegalActionError("ILLEGAL_ACTION", "Not enough gold", { actionType: action.type, required: payGold, available: nextState.player.gold });
+      withCause(events, answer, () => {
         if (payGold) addGold(nextState, -payGold, events);
-      } else {
-        const dmg = opt.takeDamage ?? 0;
+        const dmg = action.bargainChoice === "takeDamage" ? (opt.takeDamage ?? 0) : 0;
         if (dmg) applyDamage(nextState, dmg, events);
-      }
-      if (opt.gainGold) addGold(nextState, opt.gainGold, events);
-      if (opt.heal) applyHeal(nextState, opt.heal, events);
+        if (opt.gainGold) addGold(nextState, opt.gainGold, events);
+        if (opt.heal) applyHeal(nextState, opt.heal, events);
+      });
       clearMajorPrompt(nextState);
       autoAdvance(nextState, events);
       return { nextState, events };
     }
 
     if (action.type === "REORDER_TOP3") {
-      if (prompt.kind !== "REORDER_TOP3") throw new Error("Expected REORDER_TOP3 prompt");
+      if (prompt.kind !== "REORDER_TOP3") throw new IllegalActionError("PROMPT_MISMATCH", "Expected REORDER_TOP3 prompt", { actionType: action.type });
       const ord = action.order;
-      if (ord.length !== 3) throw new Error("order must be length 3");
-      if (new Set(ord).size !== 3) throw new Error("order must be a permutation");
-      if (!ord.every((x) => x === 0 || x === 1 || x === 2)) throw new Error("order indices out of range");
+      const count = reorderTopCount(nextState);
+      if (ord.length !== count) throw new IllegalActionError("PROMPT_MISMATCH", `order must be length ${count}`, { actionType: action.type });
+      if (new Set(ord).size !== count) throw new IllegalActionError("PROMPT_MISMATCH", "order must be a permutation", { actionType: action.type });
+      if (!ord.every((x) => Number.isInteger(x) && x >= 0 && x < count)) {
+        throw new IllegalActionError("PROMPT_MISMATCH", "order indices out of range", { actionType: action.type });
+      }
       const deck = nextState.floor.bossMode ? nextState.floor.bossDeck : nextState.decks.minorDeck;
-      if (!deck) throw new Error("Active deck missing");
-      const top3 = deck.slice(0, 3);
-      if (top3.length !== 3) throw new Error("Deck has fewer than 3 cards");
-      const nextTop3 = ord.map((i) => top3[i]!) as CardId[];
-      deck.splice(0, 3, ...nextTop3);
+      if (!deck) throw new InternalEngineError("Active deck missing");
+      const top = deck.slice(0, count);
+      deck.splice(0, count, ...ord.map((i) => top[i]!));
       clearMajorPrompt(nextState);
       autoAdvance(nextState, events);
       return { nextState, events };
     }
 
     if (action.type === "REORDER_ROOM4") {
-      if (prompt.kind !== "REORDER_ROOM4") throw new Error("Expected REORDER_ROOM4 prompt");
+      if (prompt.kind !== "REORDER_ROOM4") throw new IllegalActionError("PROMPT_MISMATCH", "Expected REORDER_ROOM4 prompt", { actionType: action.type });
       const ord = action.order;
-      if (ord.length !== 4) throw new Error("order must be length 4");
-      if (new Set(ord).size !== 4) throw new Error("order must be a permutation");
-      if (!ord.every((x) => x === 0 || x === 1 || x === 2 || x === 3)) throw new Error("order indices out of range");
+      if (ord.length !== 4) throw new IllegalActionError("PROMPT_MISMATCH", "order must be length 4", { actionType: action.type });
+      if (new Set(ord).size !== 4) throw new IllegalActionError("PROMPT_MISMATCH", "order must be a permutation", { actionType: action.type });
+      if (!ord.every((x) => x === 0 || x === 1 || x === 2 || x === 3)) throw new IllegalActionError("PROMPT_MISMATCH", "order indices out of range", { actionType: action.type });
       const oldSlots = nextState.room.slots;
       const oldPending = nextState.room.pendingCleanses;
       const oldResolved = nextState.room.resolvedMask;
@@ -1050,29 +1225,29 @@ export function applyAction(state: RunState, action: LegalAction): EngineResult
       return { nextState, events };
     }
 
-    throw new Error("Action not allowed while major prompt is pending");
+    throw new IllegalActionError("PROMPT_MISMATCH", "Action not allowed while major prompt is pending", { actionType: action.type });
   }
 
   switch (action.type) {
     case "SELECT_ATTUNEMENT": {
-      if (nextState.phase !== "FloorStart") throw new Error("SELECT_ATTUNEMENT not allowed in this phase");
+      if (nextState.phase !== "FloorStart") throw illegalPhase(nextState, action.type);
       const ids = action.majorIds;
-      if (ids.length > 3) throw new Error("Can only attune up to 3 majors");
-      if (new Set(ids).size !== ids.length) throw new Error("Duplicate majorIds");
+      if (ids.length > 3) throw new IllegalActionError("ILLEGAL_ACTION", "Can only attune up to 3 majors", { actionType: action.type });
+      if (new Set(ids).size !== ids.length) throw new IllegalActionError("ILLEGAL_ACTION", "Duplicate majorIds", { actionType: action.type });
       for (const id of ids) {
-        if (!nextState.majors.claimed.includes(id)) throw new Error("Can only attune claimed majors");
+        if (!nextState.majors.claimed.includes(id)) throw new IllegalActionError("ILLEGAL_ACTION", "Can only attune claimed majors", { actionType: action.type });
       }
-      nextState.majors.attuned = [...ids];
-      nextState.majors.spentThisFloor = [];
-      nextState.debug ??= {};
-      (nextState.debug as any).floorStartAttunementChosen = true;
+      writable(nextState, "majors").attuned = [...ids];
+      writable(nextState, "majors").spentThisFloor = [];
+      events.push({ type: "MAJORS_ATTUNED", majorIds: [...ids] });
+      if (nextState.pending.floorStart) nextState.pending.floorStart.attunementChosen = true;
       autoAdvance(nextState, events);
       return { nextState, events };
     }
 
     case "CHOOSE_FLEE": {
-      if (nextState.phase !== "RoomChoice") throw new Error("CHOOSE_FLEE not allowed in this phase");
-      if (nextState.lastRoomWasFlee) throw new Error("Cannot flee two rooms in a row");
+      if (nextState.phase !== "RoomChoice") throw illegalPhase(nextState, action.type);
+      if (nextState.lastRoomWasFlee) throw new IllegalActionError("ILLEGAL_ACTION", "Cannot flee two rooms in a row", { actionType: action.type });
 
       for (let i = 0; i < 4; i += 1) {
         const id = nextState.room.slots[i];
@@ -1084,148 +1259,156 @@ export function applyAction(state: RunState, action: LegalAction): EngineResult
 
       nextState.lastRoomWasFlee = true;
       nextState.room = buildInitialRoom(null);
-      nextState.phase = "RoomReveal";
+      setPhase(nextState, "RoomReveal", events);
       autoAdvance(nextState, events);
       return { nextState, events };
     }
 
     case "CHOOSE_ENGAGE": {
-      if (nextState.phase !== "RoomChoice") throw new Error("CHOOSE_ENGAGE not allowed in this phase");
+      if (nextState.phase !== "RoomChoice") throw illegalPhase(nextState, action.type);
       nextState.lastRoomWasFlee = false;
-      nextState.phase = "EngageSetup";
+      setPhase(nextState, "EngageSetup", events);
       autoAdvance(nextState, events);
       return { nextState, events };
     }
 
     case "SELECT_CARRIED_CARD": {
-      if (nextState.phase !== "EngageSetup") throw new Error("SELECT_CARRIED_CARD not allowed in this phase");
-      if (!nextState.rules.orderConstraint.requiresChooseCarriedFirst) throw new Error("No carried selection required");
-      if (nextState.room.slots[action.slotIndex] === null) throw new Error("Slot is empty");
+      if (nextState.phase !== "EngageSetup") throw illegalPhase(nextState, action.type);
+      if (!nextState.rules.orderConstraint.requiresChooseCarriedFirst) throw new IllegalActionError("ILLEGAL_ACTION", "No carried selection required", { actionType: action.type });
+      if (nextState.room.slots[action.slotIndex] === null) throw new IllegalActionError("SLOT_EMPTY", "Slot is empty", { actionType: action.type, slotIndex: action.slotIndex });
       nextState.room.carryChoiceIndex = action.slotIndex;
       autoAdvance(nextState, events);
       return { nextState, events };
     }
 
     case "USE_LEAP_OF_FAITH": {
-      if (nextState.phase !== "PreResolveWindow") throw new Error("USE_LEAP_OF_FAITH not allowed in this phase");
-      if (nextState.room.leapUsed) throw new Error("Leap already used this room");
+      if (nextState.phase !== "PreResolveWindow") throw illegalPhase(nextState, action.type);
+      if (nextState.room.leapUsed) throw new IllegalActionError("ILLEGAL_ACTION", "Leap already used this room", { actionType: action.type });
       const cardId = nextState.room.slots[action.slotIndex];
-      if (!cardId) throw new Error("Slot is empty");
-      const card = getCard(nextState, cardId);
-      card.orientation = card.orientation === "upright" ? "reversed" : "upright";
+      if (!cardId) throw new IllegalActionError("SLOT_EMPTY", "Slot is empty", { actionType: action.type, slotIndex: action.slotIndex });
+      const orientation = getCard(nextState, cardId).orientation === "upright" ? "reversed" : "upright";
+      setCardOrientation(nextState, cardId, orientation);
       nextState.room.leapUsed = true;
-      if (card.orientation === "reversed") addFate(nextState, 2, events);
+      events.push({ type: "CARD_FLIPPED", cardId, slotIndex: action.slotIndex, orientation });
+      if (orientation === "reversed") addFate(nextState, 2, events);
       else applyDamage(nextState, 2, events);
       return { nextState, events };
     }
 
     case "USE_MAJOR_GIFT": {
-      if (nextState.phase !== "PreResolveWindow") throw new Error("USE_MAJOR_GIFT not allowed in this phase");
+      if (nextState.phase !== "PreResolveWindow") throw illegalPhase(nextState, action.type);
       const majorId = action.majorId;
-      if (!nextState.majors.attuned.includes(majorId)) throw new Error("Major is not attuned");
-      if (nextState.majors.spentThisFloor.includes(majorId)) throw new Error("Major already spent this floor");
-      const major = getLoadedContent().majorById[majorId];
-      if (!major) throw new Error("Unknown majorId");
-      nextState.majors.spentThisFloor.push(majorId);
-      applyMajorEffect(nextState, majorId, major.gift.effect, events);
+      if (!nextState.majors.attuned.includes(majorId)) throw new IllegalActionError("ILLEGAL_ACTION", "Major is not attuned", { actionType: action.type, majorId });
+      if (nextState.majors.spentThisFloor.includes(majorId)) throw new IllegalActionError("ILLEGAL_ACTION", "Major already spent this floor", { actionType: action.type, majorId });
+      const major = getContent().majorById[majorId];
+      if (!major) throw new ContentError("Unknown majorId", { majorId });
+      writable(nextState, "majors").spentThisFloor.push(majorId);
+      withCause(events, { kind: "GIFT", majorId }, () => {
+        events.push({ type: "GIFT_USED", majorId });
+        applyMajorEffect(nextState, majorId, major.gift.effect, events);
+      });
       autoAdvance(nextState, events);
       return { nextState, events };
     }
 
     case "SPEND_FATE_REROLL": {
-      if (nextState.phase !== "PreResolveWindow") throw new Error("SPEND_FATE_REROLL not allowed in this phase");
-      if (nextState.room.disabledFateActionsThisRoom.includes("REROLL")) throw new Error("Fate reroll disabled this room");
-      if (nextState.player.fate < 1) throw new Error("Not enough Fate");
+      if (nextState.phase !== "PreResolveWindow") throw illegalPhase(nextState, action.type);
+      if (nextState.room.disabledFateActionsThisRoom.includes("REROLL")) throw new IllegalActionError("ILLEGAL_ACTION", "Fate reroll disabled this room", { actionType: action.type });
+      if (nextState.player.fate < 1) throw insufficientFate(nextState, action.type, 1);
       const cardId = nextState.room.slots[action.slotIndex];
-      if (!cardId) throw new Error("Slot is empty");
+      if (!cardId) throw new IllegalActionError("SLOT_EMPTY", "Slot is empty", { actionType: action.type, slotIndex: action.slotIndex });
       addFate(nextState, -1, events);
       bottomToActiveDeck(nextState, cardId, events);
       nextState.room.pendingCleanses[action.slotIndex] = false;
-      nextState.room.slots[action.slotIndex] = drawFromMinorDeck(nextState);
+      nextState.room.slots[action.slotIndex] = drawFromMinorDeck(nextState, events);
       return { nextState, events };
     }
 
     case "SPEND_FATE_CLEANSE": {
-      if (nextState.phase !== "PreResolveWindow") throw new Error("SPEND_FATE_CLEANSE not allowed in this phase");
-      if (nextState.room.disabledFateActionsThisRoom.includes("CLEANSE")) throw new Error("Fate cleanse disabled this room");
-      if (nextState.player.fate < 1) throw new Error("Not enough Fate");
+      if (nextState.phase !== "PreResolveWindow") throw illegalPhase(nextState, action.type);
+      if (nextState.room.disabledFateActionsThisRoom.includes("CLEANSE")) throw new IllegalActionError("ILLEGAL_ACTION", "Fate cleanse disabled this room", { actionType: action.type });
+      if (nextState.player.fate < 1) throw insufficientFate(nextState, action.type, 1);
       const cardId = nextState.room.slots[action.slotIndex];
-      if (!cardId) throw new Error("Slot is empty");
+      if (!cardId) throw new IllegalActionError("SLOT_EMPTY", "Slot is empty", { actionType: action.type, slotIndex: action.slotIndex });
       const card = getCard(nextState, cardId);
       const eff = computeEffectiveOrientation(nextState, action.slotIndex, card);
-      if (eff !== "reversed") throw new Error("Can only cleanse effective-reversed cards");
+      if (eff !== "reversed") throw new IllegalActionError("ILLEGAL_ACTION", "Can only cleanse effective-reversed cards", { actionType: action.type });
       addFate(nextState, -1, events);
-      nextState.room.pendingCleanses[action.slotIndex] = true;
+      queueCleanse(nextState, action.slotIndex, events);
       return { nextState, events };
     }
 
     case "SPEND_FATE_EXILE_REPLACE": {
-      if (nextState.phase !== "PreResolveWindow") throw new Error("SPEND_FATE_EXILE_REPLACE not allowed in this phase");
-      if (nextState.player.fate < 2) throw new Error("Not enough Fate");
+      if (nextState.phase !== "PreResolveWindow") throw illegalPhase(nextState, action.type);
+      if (nextState.player.fate < 2) throw insufficientFate(nextState, action.type, 2);
       const cardId = nextState.room.slots[action.slotIndex];
-      if (!cardId) throw new Error("Slot is empty");
+      if (!cardId) throw new IllegalActionError("SLOT_EMPTY", "Slot is empty", { actionType: action.type, slotIndex: action.slotIndex });
       addFate(nextState, -2, events);
       exileToFloorDiscard(nextState, cardId, events);
       nextState.room.pendingCleanses[action.slotIndex] = false;
-      nextState.room.slots[action.slotIndex] = drawFromMinorDeck(nextState);
+      nextState.room.slots[action.slotIndex] = drawFromMinorDeck(nextState, events);
       return { nextState, events };
     }
 
     case "SPEND_FATE_CHEAT_WEAPON": {
-      if (nextState.phase !== "PreResolveWindow") throw new Error("SPEND_FATE_CHEAT_WEAPON not allowed in this phase");
-      if (nextState.player.fate < 2) throw new Error("Not enough Fate");
+      if (nextState.phase !== "PreResolveWindow") throw illegalPhase(nextState, action.type);
+      if (nextState.player.fate < 2) throw insufficientFate(nextState, action.type, 2);
       addFate(nextState, -2, events);
-      nextState.player.buffs.cheatWeaponNextEnemyFight = true;
+      writable(nextState, "player").buffs.cheatWeaponNextEnemyFight = true;
       return { nextState, events };
     }
 
     case "USE_SPELL_CLEANSE": {
-      if (nextState.phase !== "PreResolveWindow") throw new Error("USE_SPELL_CLEANSE not allowed in this phase");
-      if (!nextState.player.spell) throw new Error("No spell prepared");
+      if (nextState.phase !== "PreResolveWindow") throw illegalPhase(nextState, action.type);
+      if (!nextState.player.spell) throw new IllegalActionError("ILLEGAL_ACTION", "No spell prepared", { actionType: action.type });
       const cardId = nextState.room.slots[action.slotIndex];
-      if (!cardId) throw new Error("Slot is empty");
+      if (!cardId) throw new IllegalActionError("SLOT_EMPTY", "Slot is empty", { actionType: action.type, slotIndex: action.slotIndex });
       const discarded = nextState.player.spell.cardId;
-      nextState.player.spell = null;
+      writable(nextState, "player").spell = null;
       exileToFloorDiscard(nextState, discarded, events);
-      nextState.room.pendingCleanses[action.slotIndex] = true;
+      queueCleanse(nextState, action.slotIndex, events);
       return { nextState, events };
     }
 
     case "USE_SPELL_REROLL": {
-      if (nextState.phase !== "PreResolveWindow") throw new Error("USE_SPELL_REROLL not allowed in this phase");
-      if (!nextState.player.spell) throw new Error("No spell prepared");
+      if (nextState.phase !== "PreResolveWindow") throw illegalPhase(nextState, action.type);
+      if (!nextState.player.spell) throw new IllegalActionError("ILLEGAL_ACTION", "No spell prepared", { actionType: action.type });
       const cardId = nextState.room.slots[action.slotIndex];
-      if (!cardId) throw new Error("Slot is empty");
+      if (!cardId) throw new IllegalActionError("SLOT_EMPTY", "Slot is empty", { actionType: action.type, slotIndex: action.slotIndex });
       const discarded = nextState.player.spell.cardId;
-      nextState.player.spell = null;
+      writable(nextState, "player").spell = null;
       exileToFloorDiscard(nextState, discarded, events);
       bottomToActiveDeck(nextState, cardId, events);
       nextState.room.pendingCleanses[action.slotIndex] = false;
-      nextState.room.slots[action.slotIndex] = drawFromMinorDeck(nextState);
+      nextState.room.slots[action.slotIndex] = drawFromMinorDeck(nextState, events);
       return { nextState, events };
     }
 
     case "COMMIT_RESOLVE": {
-      if (nextState.phase !== "PreResolveWindow") throw new Error("COMMIT_RESOLVE not allowed in this phase");
-      if (!computeAllowedCommitSlots(nextState).includes(action.slotIndex)) throw new Error("Slot not legal to resolve");
+      if (nextState.phase !== "PreResolveWindow") throw illegalPhase(nextState, action.type);
+      if (!computeAllowedCommitSlots(nextState).includes(action.slotIndex)) throw new IllegalActionError("ILLEGAL_ACTION", "Slot not legal to resolve", { actionType: action.type, slotIndex: action.slotIndex });
       const cardId = nextState.room.slots[action.slotIndex];
-      if (!cardId) throw new Error("Slot is empty");
+      if (!cardId) throw new IllegalActionError("SLOT_EMPTY", "Slot is empty", { actionType: action.type, slotIndex: action.slotIndex });
 
       // BEFORE_FIRST_RESOLVE_ATTEMPT hook (e.g., Hanged Man): first attempt is exiled + replaced.
       if (!nextState.room.hangedManTriggeredThisRoom && resolvedCount(nextState) === 0) {
         const shadow = getFloorMajorShadow(nextState, "BEFORE_FIRST_RESOLVE_ATTEMPT");
         if (shadow?.type === "FORCED_EXILE_FIRST_RESOLVE_ATTEMPT") {
+          const majorId = nextState.floor.activeMajorId;
+          withCause(events, { kind: "SHADOW", majorId, hook: "BEFORE_FIRST_RESOLVE_ATTEMPT" }, () => {
+            events.push({ type: "SHADOW_TRIGGERED", majorId, hook: "BEFORE_FIRST_RESOLVE_ATTEMPT" });
+            exileToFloorDiscard(nextState, cardId, events);
+          });
           nextState.room.hangedManTriggeredThisRoom = true;
-          exileToFloorDiscard(nextState, cardId, events);
           nextState.room.pendingCleanses[action.slotIndex] = false;
-          nextState.room.slots[action.slotIndex] = drawFromMinorDeck(nextState);
+          nextState.room.slots[action.slotIndex] = drawFromMinorDeck(nextState, events);
           autoAdvance(nextState, events);
           return { nextState, events };
         }
       }
 
-      nextState.phase = "ResolveCommit";
-      nextState.debug = { ...(nextState.debug ?? {}), pendingResolution: { slotIndex: action.slotIndex, cardId } };
+      setPhase(nextState, "ResolveCommit", events);
+      nextState.pending.resolution = { slotIndex: action.slotIndex, cardId };
       autoAdvance(nextState, events);
       return { nextState, events };
     }
@@ -1234,35 +1417,39 @@ export function applyAction(state: RunState, action: LegalAction): EngineResult
     case "ENEMY_FIGHT_CHOICE":
     case "SWORDS_AMBUSH_BLOCK_CHOICE":
     case "CUPS_8_10_CHOICE": {
-      if (nextState.phase !== "ResolveExecute") throw new Error(`${action.type} not allowed in this phase`);
-      const pending = nextState.debug?.pendingResolution;
-      if (!pending) throw new Error("No pending resolution");
+      if (nextState.phase !== "ResolveExecute") throw illegalPhase(nextState, action.type);
+      const pending = nextState.pending.resolution;
+      if (!pending) throw new InternalEngineError("No pending resolution");
 
       const slotIndex = pending.slotIndex;
       const resolvingCardId = nextState.room.slots[slotIndex];
-      if (!resolvingCardId || resolvingCardId !== pending.cardId) throw new Error("Pending resolution card mismatch");
+      if (!resolvingCardId || resolvingCardId !== pending.cardId) throw new InternalEngineError("Pending resolution card mismatch");
 
       const card = getCard(nextState, resolvingCardId);
       const effective = computeEffectiveOrientation(nextState, slotIndex, card);
+      const resolvingFrom = events.length;
 
+      // Everything up to completing the card is the card's doing; what autoAdvance does next is not.
       const finalize = (discardToFloor: boolean) => {
         completeResolvedCard(nextState, events, slotIndex, resolvingCardId, effective, discardToFloor);
+        attributeEvents(events, resolvingFrom, { kind: "CARD", cardId: resolvingCardId, slotIndex });
         autoAdvance(nextState, events);
       };
 
       // Resolve by kind
       if (card.rank.kind === "ace") {
-        if (action.type !== "ACE_CHOICE") throw new Error("Expected ACE_CHOICE");
+        if (action.type !== "ACE_CHOICE") throw new IllegalActionError("PROMPT_MISMATCH", "Expected ACE_CHOICE", { actionType: action.type });
+        if (action.slotIndex === slotIndex) throw new IllegalActionError("ILLEGAL_ACTION", "Ace cannot target its own slot", { actionType: action.type, slotIndex });
         if (card.suit === "pentacles") {
           if (action.optionId === "pay5_heal5") {
-            if (nextState.player.gold < 5) throw new Error("Not enough gold");
+            if (nextState.player.gold < 5) throw new IllegalActionError("ILLEGAL_ACTION", "Not enough gold", { actionType: action.type, required: 5, available: nextState.player.gold });
             addGold(nextState, -5, events);
             applyHeal(nextState, 5, events);
           } else if (action.optionId === "gain5_take3") {
             addGold(nextState, 5, events);
             applyDamage(nextState, 3, events);
           } else {
-            throw new Error("Unknown pentacles ace optionId");
+            throw new IllegalActionError("PROMPT_MISMATCH", "Unknown pentacles ace optionId", { actionType: action.type });
           }
           finalize(true);
           return { nextState, events };
@@ -1272,52 +1459,52 @@ export function applyAction(state: RunState, action: LegalAction): EngineResult
             applyHeal(nextState, nextState.player.maxHp, events);
           } else if (action.optionId === "cleanse_free") {
             const t = action.slotIndex;
-            if (t === undefined) throw new Error("Missing slotIndex for cleanse_free");
+            if (t === undefined) throw new IllegalActionError("PROMPT_MISMATCH", "Missing slotIndex for cleanse_free", { actionType: action.type });
             const targetId = nextState.room.slots[t];
-            if (!targetId) throw new Error("Target slot empty");
+            if (!targetId) throw new IllegalActionError("SLOT_EMPTY", "Target slot empty", { actionType: action.type, slotIndex: t });
             const targetCard = getCard(nextState, targetId);
             const eff = computeEffectiveOrientation(nextState, t, targetCard);
-            if (eff !== "reversed") throw new Error("Can only cleanse effective-reversed cards");
-            nextState.room.pendingCleanses[t] = true;
+            if (eff !== "reversed") throw new IllegalActionError("ILLEGAL_ACTION", "Can only cleanse effective-reversed cards", { actionType: action.type });
+            queueCleanse(nextState, t, events);
           } else {
-            throw new Error("Unknown cups ace optionId");
+            throw new IllegalActionError("PROMPT_MISMATCH", "Unknown cups ace optionId", { actionType: action.type });
           }
           finalize(true);
           return { nextState, events };
         }
         if (card.suit === "wands") {
           const t = action.slotIndex;
-          if (t === undefined) throw new Error("Missing slotIndex for wands ace option");
-          if (nextState.room.slots[t] === null) throw new Error("Target slot empty");
+          if (t === undefined) throw new IllegalActionError("PROMPT_MISMATCH", "Missing slotIndex for wands ace option", { actionType: action.type });
+          if (nextState.room.slots[t] === null) throw new IllegalActionError("SLOT_EMPTY", "Target slot empty", { actionType: action.type, slotIndex: t });
           if (action.optionId === "exile_replace_free") {
             const targetId = nextState.room.slots[t]!;
             exileToFloorDiscard(nextState, targetId, events);
             nextState.room.pendingCleanses[t] = false;
-            nextState.room.slots[t] = drawFromMinorDeck(nextState);
+            nextState.room.slots[t] = drawFromMinorDeck(nextState, events);
           } else if (action.optionId === "reroll_free") {
             const targetId = nextState.room.slots[t]!;
             bottomToActiveDeck(nextState, targetId, events);
             nextState.room.pendingCleanses[t] = false;
-            nextState.room.slots[t] = drawFromMinorDeck(nextState);
+            nextState.room.slots[t] = drawFromMinorDeck(nextState, events);
           } else {
-            throw new Error("Unknown wands ace optionId");
+            throw new IllegalActionError("PROMPT_MISMATCH", "Unknown wands ace optionId", { actionType: action.type });
           }
           finalize(true);
           return { nextState, events };
         }
         if (card.suit === "swords") {
           if (action.optionId === "cheat_weapon_free") {
-            nextState.player.buffs.cheatWeaponThisRoom = true;
+            writable(nextState, "player").buffs.cheatWeaponThisRoom = true;
           } else if (action.optionId === "reroll_free") {
             const t = action.slotIndex;
-            if (t === undefined) throw new Error("Missing slotIndex for reroll_free");
-            if (nextState.room.slots[t] === null) throw new Error("Target slot empty");
+            if (t === undefined) throw new IllegalActionError("PROMPT_MISMATCH", "Missing slotIndex for reroll_free", { actionType: action.type });
+            if (nextState.room.slots[t] === null) throw new IllegalActionError("SLOT_EMPTY", "Target slot empty", { actionType: action.type, slotIndex: t });
             const targetId = nextState.room.slots[t]!;
             bottomToActiveDeck(nextState, targetId, events);
             nextState.room.pendingCleanses[t] = false;
-            nextState.room.slots[t] = drawFromMinorDeck(nextState);
+            nextState.room.slots[t] = drawFromMinorDeck(nextState, events);
           } else {
-            throw new Error("Unknown swords ace optionId");
+            throw new IllegalActionError("PROMPT_MISMATCH", "Unknown swords ace optionId", { actionType: action.type });
           }
           finalize(true);
           return { nextState, events };
@@ -1325,20 +1512,23 @@ export function applyAction(state: RunState, action: LegalAction): EngineResult
       }
 
       if (isCourt(card)) {
-        if (action.type !== "ENEMY_FIGHT_CHOICE") throw new Error("Expected ENEMY_FIGHT_CHOICE");
+        if (action.type !== "ENEMY_FIGHT_CHOICE") throw new IllegalActionError("PROMPT_MISMATCH", "Expected ENEMY_FIGHT_CHOICE", { actionType: action.type });
         const enemyVal = computeEnemyValue(card, effective);
         if (action.enemyMode === "weapon") {
-          if (!nextState.player.weapon) throw new Error("No weapon equipped");
-          if (!canUseWeaponAgainstEnemy(nextState, enemyVal)) throw new Error("Weapon restricted");
+          if (!nextState.player.weapon) throw new IllegalActionError("ILLEGAL_ACTION", "No weapon equipped", { actionType: action.type });
+          if (!canUseWeaponAgainstEnemy(nextState, enemyVal)) throw new IllegalActionError("ILLEGAL_ACTION", "Weapon restricted", { actionType: action.type });
           const dmg = Math.max(0, enemyVal - nextState.player.weapon.value);
           applyDamage(nextState, dmg, events);
-          nextState.player.weapon.lastHelpedDefeatValue = enemyVal;
-          nextState.player.weapon.tuckedEnemyIds.push(resolvingCardId);
-          nextState.player.buffs.cheatWeaponNextEnemyFight = false;
-          nextState.player.buffs.cheatWeaponThisRoom = false;
-        } else {
-          applyDamage(nextState, enemyVal, events);
+          const player = writable(nextState, "player");
+          player.weapon!.lastHelpedDefeatValue = enemyVal;
+          player.weapon!.tuckedEnemyIds.push(resolvingCardId);
+          player.buffs.cheatWeaponNextEnemyFight = false;
+          player.buffs.cheatWeaponThisRoom = false;
+          // Defeated enemy is tucked under the weapon rather than discarded.
+          finalize(false);
+          return { nextState, events };
         }
+        applyDamage(nextState, enemyVal, events);
         finalize(true);
         return { nextState, events };
       }
@@ -1361,9 +1551,10 @@ export function applyAction(state: RunState, action: LegalAction): EngineResult
         if (card.suit === "cups") {
           if (effective === "upright") {
             if (v >= 8) {
-              if (action.type !== "CUPS_8_10_CHOICE") throw new Error("Expected CUPS_8_10_CHOICE");
+              if (action.type !== "CUPS_8_10_CHOICE") throw new IllegalActionError("PROMPT_MISMATCH", "Expected CUPS_8_10_CHOICE", { actionType: action.type });
               if (action.cupsChoice === "equipArmor") {
-                nextState.player.armor = { cardId: resolvingCardId, value: v };
+                discardEquipment(nextState, "armor", events);
+                writable(nextState, "player").armor = { cardId: resolvingCardId, value: v };
                 events.push({ type: "EQUIP_ARMOR", cardId: resolvingCardId, value: v });
                 finalize(false);
                 return { nextState, events };
@@ -1375,10 +1566,11 @@ export function applyAction(state: RunState, action: LegalAction): EngineResult
             }
           } else {
             // Reversed cups ignores armor by rule; apply damage directly.
-            const prevArmor = nextState.player.armor;
-            nextState.player.armor = null;
+            const player = writable(nextState, "player");
+            const prevArmor = player.armor;
+            player.armor = null;
             applyDamage(nextState, v, events);
-            nextState.player.armor = prevArmor;
+            player.armor = prevArmor;
           }
           finalize(true);
           return { nextState, events };
@@ -1386,16 +1578,14 @@ export function applyAction(state: RunState, action: LegalAction): EngineResult
 
         if (card.suit === "wands") {
           if (effective === "upright") {
-            nextState.player.spell = { cardId: resolvingCardId, value: v };
+            discardEquipment(nextState, "spell", events);
+            writable(nextState, "player").spell = { cardId: resolvingCardId, value: v };
             events.push({ type: "EQUIP_SPELL", cardId: resolvingCardId, value: v });
             finalize(false);
             return { nextState, events };
           } else {
             if (nextState.player.spell) {
-              const discarded = nextState.player.spell.cardId;
-              nextState.player.spell = null;
-              exileToFloorDiscard(nextState, discarded, events);
-              events.push({ type: "DISCARD_EQUIPMENT", kind: "spell", cardId: discarded });
+              discardEquipment(nextState, "spell", events);
             } else {
               applyDamage(nextState, 2, events);
             }
@@ -1406,18 +1596,14 @@ export function applyAction(state: RunState, action: LegalAction): EngineResult
 
         if (card.suit === "swords") {
           if (effective === "upright") {
-            const prev = nextState.player.weapon;
-            if (prev) {
-              exileToFloorDiscard(nextState, prev.cardId, events);
-              events.push({ type: "DISCARD_EQUIPMENT", kind: "weapon", cardId: prev.cardId });
-            }
-            nextState.player.weapon = { cardId: resolvingCardId, value: v, lastHelpedDefeatValue: null, tuckedEnemyIds: [] };
+            discardWeapon(nextState, events);
+            writable(nextState, "player").weapon = { cardId: resolvingCardId, value: v, lastHelpedDefeatValue: null, tuckedEnemyIds: [] };
             events.push({ type: "EQUIP_WEAPON", cardId: resolvingCardId, value: v });
             finalize(false);
             return { nextState, events };
           } else {
             if (nextState.player.weapon) {
-              if (action.type !== "SWORDS_AMBUSH_BLOCK_CHOICE") throw new Error("Expected SWORDS_AMBUSH_BLOCK_CHOICE");
+              if (action.type !== "SWORDS_AMBUSH_BLOCK_CHOICE") throw new IllegalActionError("PROMPT_MISMATCH", "Expected SWORDS_AMBUSH_BLOCK_CHOICE", { actionType: action.type });
               const dmg = action.block ? Math.max(0, v - nextState.player.weapon.value) : v;
               applyDamage(nextState, dmg, events);
             } else {
@@ -1429,10 +1615,10 @@ export function applyAction(state: RunState, action: LegalAction): EngineResult
         }
       }
 
-      throw new Error("Unhandled resolve branch");
+      throw new InternalEngineError("Unhandled resolve branch");
     }
 
     default:
-      throw new Error("Unknown action");
+      throw new IllegalActionError("ILLEGAL_ACTION", "Unknown action", { actionType: action.type });
   }
 }
@@ -0,0 +1,74 @@
+import type { CardId, MajorId, PhaseId } from "./types.js";
+
+export type EngineErrorCode =
+  // The action is not accepted in the current phase.
+  | "ILLEGAL_PHASE"
+  // The action breaks a rule in the current phase (already used, restricted weapon, not attuned, not enough gold...).
+  | "ILLEGAL_ACTION"
+  | "INSUFFICIENT_FATE"
+  | "SLOT_EMPTY"
+  // The action does not answer the outstanding prompt (wrong kind, unknown option, non-candidate target).
+  | "PROMPT_MISMATCH"
+  // Content (majors.json effect trees) is malformed or not loaded.
+  | "CONTENT_INVALID"
+  // A save blob is malformed, corrupted, or from an unsupported save version.
+  | "SAVE_INVALID"
+  // Engine bug: the state broke an invariant the engine relies on.
+  | "INTERNAL";
+
+export type EngineErrorContext = {
+  actionType?: string;
+  phase?: PhaseId;
+  slotIndex?: number;
+  cardId?: CardId;
+  majorId?: MajorId;
+  required?: number;
+  available?: number;
+  // Set by the replay helpers when an action log step is rejected.
+  stepIndex?: number;
+};
+
+export class EngineError extends Error {
+  readonly code: EngineErrorCode;
+  readonly context: EngineErrorContext;
+
+  constructor(code: EngineErrorCode, message: string, context: EngineErrorContext = {}) {
+    super(message);
+    this.name = "EngineError";
+    this.code = code;
+    this.context = context;
+  }
+}
+
+/** The player asked for something the rules do not allow; the state is unchanged and the action must not be logged. */
+export class IllegalActionError extends EngineError {
+  constructor(code: "ILLEGAL_PHASE" | "ILLEGAL_ACTION" | "INSUFFICIENT_FATE" | "SLOT_EMPTY" | "PROMPT_MISMATCH", message: string, context: EngineErrorContext = {}) {
+    super(code, message, context);
+    this.name = "IllegalActionError";
+  }
+}
+
+export class ContentError extends EngineError {
+  constructor(message: string, context: EngineErrorContext = {}) {
+    super("CONTENT_INVALID", message, context);
+    this.name = "ContentError";
+  }
+}
+
+export class SaveBlobError extends EngineError {
+  constructor(message: string, context: EngineErrorContext = {}) {
+    super("SAVE_INVALID", message, context);
+    this.name = "SaveBlobError";
+  }
+}
+
+export class InternalEngineError extends EngineError {
+  constructor(message: string, context: EngineErrorContext = {}) {
+    super("INTERNAL", message, context);
+    this.name = "InternalEngineError";
+  }
+}
+
+export function isEngineError(value: unknown): value is EngineError {
+  return value instanceof EngineError;
+}
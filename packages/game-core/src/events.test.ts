@@ -0,0 +1,136 @@
+import { readFileSync } from "node:fs";
+
+import { beforeAll, describe, expect, it } from "vitest";
+
+import { loadContent } from "./content.js";
+import { applyAction, getLegalActions, startRun } from "./engine.js";
+import { getPendingPrompt } from "./prompts.js";
+import { Xorshift32 } from "./rng/xorshift32.js";
+import type { EventCause, GameEvent, RunState } from "./types.js";
+
+beforeAll(() => {
+  const majors = JSON.parse(readFileSync(new URL("../../game-data/content/majors.json", import.meta.url), "utf8"));
+  const strings = JSON.parse(readFileSync(new URL("../../game-data/content/strings.en.json", import.meta.url), "utf8"));
+  loadContent({ majors, strings });
+});
+
+function checkPhaseChain(before: RunState, after: RunState, events: GameEvent[]) {
+  let phase = before.phase;
+  for (const e of events) {
+    if (e.type !== "PHASE_CHANGED") continue;
+    expect(e.from).toBe(phase);
+    phase = e.to;
+  }
+  expect(phase).toBe(after.phase);
+}
+
+function chain(cause: EventCause): string[] {
+  const out: string[] = [];
+  for (let c: EventCause | null = cause; c; c = c.parent) out.push(c.kind === "RULE" ? `RULE:${c.rule}` : c.kind);
+  return out;
+}
+
+function toPreResolve(seed: number): RunState {
+  let s = startRun({ seed, runLengthTarget: 7 }).nextState;
+  for (let i = 0; i < 40 && s.phase !== "PreResolveWindow"; i += 1) {
+    const legal = getLegalActions(s);
+    s = applyAction(s, legal.find((a) => a.type === "CHOOSE_ENGAGE") ?? legal[0]!).nextState;
+  }
+  expect(s.phase).toBe("PreResolveWindow");
+  return s;
+}
+
+describe("Game events", () => {
+  it("announce the first floor from startRun", () => {
+    const { nextState, events } = startRun({ seed: 5, runLengthTarget: 7 });
+    expect(events.find((e) => e.type === "FLOOR_STARTED")).toMatchObject({ floorNumber: 1, majorId: nextState.floor.activeMajorId });
+    expect(events[0]).toMatchObject({ type: "PHASE_CHANGED", from: "RunInit", to: "FloorStart" });
+  });
+
+  it("report every phase change, prompt and run end in fuzzed runs", () => {
+    const seen = new Set<string>();
+    for (let seed = 1; seed <= 12; seed += 1) {
+      const chooser = new Xorshift32(500 + seed);
+      let s = startRun({ seed, runLengthTarget: 7 }).nextState;
+      s.player.maxHp = 100;
+      s.player.hp = 100;
+      for (let i = 0; i < 400; i += 1) {
+        const legal = getLegalActions(s);
+        if (!legal.length) break;
+        const { nextState, events } = applyAction(s, legal[chooser.nextUint32() % legal.length]!);
+        for (const e of events) seen.add(e.type);
+        checkPhaseChain(s, nextState, events);
+
+        const ended = events.filter((e) => e.type === "RUN_ENDED");
+        const terminal = nextState.phase === "RunVictory" || nextState.phase === "RunDefeat";
+        expect(ended).toHaveLength(terminal ? 1 : 0);
+        if (terminal) expect(ended[0]).toMatchObject({ outcome: nextState.phase === "RunVictory" ? "victory" : "defeat", floorNumber: nextState.floor.floorNumber });
+
+        // A prompt that is outstanding after this action but was not before it must have been announced.
+        if (getPendingPrompt(nextState) && !getPendingPrompt(s)) expect(events.some((e) => e.type === "PROMPT_OPENED")).toBe(true);
+        s = nextState;
+      }
+    }
+    for (const type of ["FLOOR_STARTED", "MAJORS_ATTUNED", "BOSS_STARTED", "MAJOR_CLAIMED", "SHADOW_TRIGGERED", "GIFT_USED", "PROMPT_OPENED", "CARD_CLEANSED", "RUN_ENDED"]) {
+      expect(seen, type).toContain(type);
+    }
+  }, 60_000);
+
+  it("report a Leap of Faith flip", () => {
+    const s = toPreResolve(2);
+    const leap = getLegalActions(s).find((a) => a.type === "USE_LEAP_OF_FAITH");
+    expect(leap).toBeDefined();
+    const { nextState, events } = applyAction(s, leap!);
+    const flip = events.find((e) => e.type === "CARD_FLIPPED");
+    expect(flip).toBeDefined();
+    if (flip?.type === "CARD_FLIPPED") expect(nextState.decks.cards.minors[flip.cardId]!.orientation).toBe(flip.orientation);
+  });
+
+  it("number every event and trace its cause back to the dispatched action", () => {
+    const chooser = new Xorshift32(77);
+    const started = startRun({ seed: 8, runLengthTarget: 7 });
+    for (const e of started.events) expect(chain(e.cause).at(-1)).toBe("RUN_START");
+    let s = started.nextState;
+    for (let i = 0; i < 200; i += 1) {
+      const legal = getLegalActions(s);
+      if (!legal.length) break;
+      const action = legal[chooser.nextUint32() % legal.length]!;
+      const { nextState, events } = applyAction(s, action);
+      events.forEach((e, i) => {
+        expect(e.seq).toBe(i);
+        let root = e.cause;
+        while (root.parent) root = root.parent;
+        expect(root).toEqual({ kind: "ACTION", action, parent: null });
+      });
+      s = nextState;
+    }
+  });
+
+  it("attribute a shadow reroll to the shadow and the room refill that triggered it", () => {
+    const s = startRun({ seed: 3, runLengthTarget: 7 }).nextState;
+    s.floor.activeMajorId = "moon";
+    const { events } = applyAction(s, { type: "SELECT_ATTUNEMENT", majorIds: [] });
+    const bottomed = events.find((e) => e.type === "CARD_BOTTOMED");
+    expect(bottomed?.cause).toMatchObject({ kind: "SHADOW", majorId: "moon", hook: "ROOM_REVEALED" });
+    expect(chain(bottomed!.cause)).toEqual(["SHADOW", "RULE:ROOM_REFILL", "ACTION"]);
+    expect(chain(events.find((e) => e.type === "ROOM_REVEALED")!.cause)).toEqual(["RULE:ROOM_REFILL", "ACTION"]);
+    expect(chain(events.find((e) => e.type === "MAJORS_ATTUNED")!.cause)).toEqual(["ACTION"]);
+  });
+
+  it("attribute an armor break to the armor rule and the resolving card", () => {
+    const s = toPreResolve(4);
+    s.room.carryChoiceIndex = null;
+    s.room.slots[0] = "swords_7";
+    s.decks.cards = { minors: { ...s.decks.cards.minors, swords_7: { ...s.decks.cards.minors["swords_7"]!, orientation: "reversed" } } };
+    s.room.pendingCleanses[0] = false;
+    s.room.hangedManTriggeredThisRoom = true;
+    s.rules.orderConstraint = { kind: "NONE", requiresChooseCarriedFirst: false, scopeMajorId: null };
+    s.player.weapon = null;
+    s.player.armor = { cardId: "cups_3", value: 3 };
+    const { events } = applyAction(s, { type: "COMMIT_RESOLVE", slotIndex: 0 });
+    const broke = events.find((e) => e.type === "DISCARD_EQUIPMENT");
+    expect(chain(broke!.cause)).toEqual(["RULE:ARMOR_ABSORBED", "CARD", "ACTION"]);
+    expect(broke!.cause.parent).toMatchObject({ kind: "CARD", cardId: "swords_7", slotIndex: 0 });
+    expect(events.find((e) => e.type === "PLAYER_HP_CHANGED")?.cause).toMatchObject({ kind: "CARD", cardId: "swords_7" });
+  });
+});
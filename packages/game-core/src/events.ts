@@ -0,0 +1,32 @@
+import type { EventCause, EventSource, GameEvent, GameEventPayload } from "./types.js";
+
+type Attributed = GameEventPayload & { cause?: EventCause };
+
+// Appends `source` to the cause chain of events[start..]: events without a cause get it as their cause, events an inner
+// call already attributed get it as the outermost parent so far.
+export function attributeEvents(events: GameEventPayload[], start: number, source: EventSource) {
+  for (let i = start; i < events.length; i += 1) {
+    const e = events[i] as Attributed;
+    const link: EventCause = { ...source, parent: null };
+    if (!e.cause) {
+      e.cause = link;
+      continue;
+    }
+    let tail = e.cause;
+    while (tail.parent) tail = tail.parent;
+    tail.parent = link;
+  }
+}
+
+export function withCause<T>(events: GameEventPayload[], source: EventSource, fn: () => T): T {
+  const start = events.length;
+  const out = fn();
+  attributeEvents(events, start, source);
+  return out;
+}
+
+// Closes the chains at `root` (the dispatched action, or RUN_START) and numbers the events in emission order.
+export function sealEvents(events: GameEventPayload[], root: EventSource): GameEvent[] {
+  attributeEvents(events, 0, root);
+  return events.map((e, seq) => Object.assign(e, { seq }) as GameEvent);
+}
@@ -1,6 +1,64 @@
 export { Xorshift32 } from "./rng/xorshift32.js";
-export type { EngineConfig, EngineResult, GameEvent, LegalAction, RunState } from "./types.js";
-export { applyAction, createRun, getLegalActions } from "./engine.js";
-export { getLoadedContent, loadContent } from "./content.js";
-export { buildHashInput, hashRunState, stableStringify } from "./stateHash.js";
-export { replayActionLog } from "./replay.js";
+export { Mulberry32 } from "./rng/mulberry32.js";
+export { DEFAULT_RNG_ALGO, RNG_ALGOS, createRng, isRngAlgo } from "./rng/registry.js";
+export type { Rng, RngAlgo } from "./rng/registry.js";
+export { SEED_DERIVATION_VERSION, deriveSeed } from "./rng/seed.js";
+export type { SeedDerivation, SeedInput } from "./rng/seed.js";
+export { RNG_STREAMS, deriveStreamSeed } from "./rng/streams.js";
+export type { RngStream, RngStreams } from "./rng/streams.js";
+export type {
+  ActionPreview,
+  ApplyActionOptions,
+  CardId,
+  ContentOptions,
+  EngineConfig,
+  EngineResult,
+  EquipmentChange,
+  EventCause,
+  EventRule,
+  EventSource,
+  FloorStartProgress,
+  GameEvent,
+  GameEventPayload,
+  LegalAction,
+  MajorId,
+  MajorPrompt,
+  Orientation,
+  PendingPrompt,
+  PendingResolution,
+  PendingState,
+  PreviewValue,
+  PromptDescriptor,
+  PromptOption,
+  RunState
+} from "./types.js";
+export { applyAction, createRun, getLegalActions, isLegalAction, startRun } from "./engine.js";
+export { canUseWeaponAgainstEnemy, computeEffectiveOrientation, computeEnemyValue, isCourt, isNumbered } from "./rules.js";
+export { getPendingPrompt } from "./prompts.js";
+export { previewAction } from "./preview.js";
+export { ContentError, EngineError, IllegalActionError, InternalEngineError, SaveBlobError, isEngineError } from "./errors.js";
+export type { EngineErrorCode, EngineErrorContext } from "./errors.js";
+export { createContentRegistry, getLoadedContent, loadContent } from "./content.js";
+export type { ContentBundle, ContentRegistry, EffectNode } from "./content.js";
+export { buildHashInput, createRunStateHasher, hashRunState, hashRunStateSync, stableStringify } from "./stateHash.js";
+export type { RunStateHasher } from "./stateHash.js";
+export { Sha256, sha256HexSync } from "./sha256.js";
+export { diffRunState, formatStateChange } from "./stateDiff.js";
+export type { StateChange } from "./stateDiff.js";
+export { formatReplayDivergence, replayActionLog, verifyActionLog } from "./replay.js";
+export type {
+  ActionLog,
+  ActionLogHeader,
+  EventDivergence,
+  ReplayDivergence,
+  ReplayOptions,
+  ReplayVerification,
+  StartRunAction,
+  StateDivergence
+} from "./replay.js";
+export { SAVE_MIGRATIONS, SAVE_VERSION, computeSaveChecksum, createSaveBlob, deserialize, migrateSaveBlob, serialize } from "./save.js";
+export type { SaveBlob, SaveBlobHeader, SaveMigration } from "./save.js";
+export { validateState } from "./validateState.js";
+export type { StateViolation, StateViolationCode } from "./validateState.js";
+export { assertCardConservation, auditCardZones, formatZoneAudit, isCardConservationViolated } from "./zoneAudit.js";
+export type { CardLocation, CardZone, ZoneAudit } from "./zoneAudit.js";
@@ -5,27 +5,22 @@ import { beforeAll, describe, expect, it } from "vitest";
 import { loadContent } from "./content.js";
 import { applyAction, createRun, getLegalActions } from "./engine.js";
 import { Xorshift32 } from "./rng/xorshift32.js";
+import { diffRunState, formatStateChange } from "./stateDiff.js";
 import { hashRunState } from "./stateHash.js";
 import type { LegalAction, RunState } from "./types.js";
+import { validateState } from "./validateState.js";
 
 function chooseFuzzAction(state: RunState, chooser: Xorshift32): LegalAction {
   const legal = getLegalActions(state);
   if (legal.length === 0) {
-    const pendingPromptKind = state.debug?.pendingPrompt?.kind ?? "none";
-    const hasPendingMajorPrompt = Boolean((state.debug as any)?.pendingMajorPrompt);
+    const pendingPromptKind = state.pending.prompt?.kind ?? "none";
+    const hasPendingMajorPrompt = Boolean(state.pending.majorPrompt);
     throw new Error(
       `No legal actions at phase=${state.phase} pendingPrompt=${pendingPromptKind} pendingMajorPrompt=${hasPendingMajorPrompt} order=${state.rules.orderConstraint.kind} requiresChooseCarriedFirst=${state.rules.orderConstraint.requiresChooseCarriedFirst} carriedIndex=${state.room.carriedIndex} carryChoiceIndex=${state.room.carryChoiceIndex} resolvedMask=${JSON.stringify(state.room.resolvedMask)} slots=${JSON.stringify(state.room.slots)}`
     );
   }
 
-  // Filter out known invalid choices that can still be legal-listed (Ace of Pentacles "pay5_heal5").
-  const filtered = legal.filter((a) => {
-    if (a.type !== "ACE_CHOICE") return true;
-    if (a.optionId !== "pay5_heal5") return true;
-    return state.player.gold >= 5;
-  });
-  const list = filtered.length ? filtered : legal;
-  return list[chooser.nextUint32() % list.length]!;
+  return legal[chooser.nextUint32() % legal.length]!;
 }
 
 function assertInvariants(state: RunState) {
@@ -46,6 +41,8 @@ function assertInvariants(state: RunState) {
   expect(state.room.resolvedMask.length).toBe(4);
   expect(state.room.pendingCleanses.length).toBe(4);
   expect(state.room.disabledFateActionsThisRoom.every((x) => x === "CLEANSE" || x === "REROLL")).toBe(true);
+
+  expect(validateState(state)).toEqual([]);
 }
 
 beforeAll(() => {
@@ -59,22 +56,45 @@ describe("Phase F invariants fuzz", () => {
     for (let seed = 1; seed <= 30; seed += 1) {
       const chooserSeed = 100_000 + seed;
 
-      const runOnce = async () => {
+      const runOnce = () => {
         let s = createRun({ seed, runLengthTarget: 7 });
         const chooser = new Xorshift32(chooserSeed);
         for (let i = 0; i < 600; i += 1) {
           assertInvariants(s);
           if (s.phase === "RunVictory" || s.phase === "RunDefeat") break;
           const a = chooseFuzzAction(s, chooser);
-          s = applyAction(s, a).nextState;
+          s = applyAction(s, a, { strict: true }).nextState;
         }
         assertInvariants(s);
-        return hashRunState(s);
+        return s;
       };
 
-      const h1 = await runOnce();
-      const h2 = await runOnce();
-      expect(h1).toBe(h2);
+      const first = runOnce();
+      const second = runOnce();
+      expect(diffRunState(first, second).map(formatStateChange), `seed=${seed}`).toEqual([]);
+      expect(await hashRunState(second)).toBe(await hashRunState(first));
+    }
+  }, 60_000);
+
+  it("holds invariants when the active deck keeps running dry", () => {
+    const reshuffled = new Set<string>();
+    for (let seed = 1; seed <= 12; seed += 1) {
+      const chooser = new Xorshift32(200_000 + seed);
+      let s = createRun({ seed, runLengthTarget: 7 });
+      s.player.maxHp = 100;
+      s.player.hp = 100;
+      for (let i = 0; i < 400; i += 1) {
+        assertInvariants(s);
+        if (s.phase === "RunVictory" || s.phase === "RunDefeat") break;
+        // Starve the active deck: all but a couple of its cards wait in the floor discard.
+        const deck = s.floor.bossMode ? s.floor.bossDeck! : s.decks.minorDeck;
+        s.floor.floorDiscard.push(...deck.splice(2));
+        const { nextState, events } = applyAction(s, chooseFuzzAction(s, chooser), { strict: true });
+        for (const e of events) if (e.type === "DECK_RESHUFFLED") reshuffled.add(`${e.deck}:${e.from}`);
+        s = nextState;
+      }
+      assertInvariants(s);
     }
+    expect([...reshuffled].sort()).toEqual(["boss:floorDiscard", "minor:floorDiscard"]);
   }, 60_000);
 });
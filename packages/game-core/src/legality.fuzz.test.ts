@@ -0,0 +1,161 @@
+import { readFileSync } from "node:fs";
+
+import { beforeAll, describe, expect, it } from "vitest";
+
+import { loadContent } from "./content.js";
+import { applyAction, createRun, getLegalActions, isLegalAction } from "./engine.js";
+import { EngineError, IllegalActionError } from "./errors.js";
+import { Xorshift32 } from "./rng/xorshift32.js";
+import type { LegalAction, MajorId, PhaseId, RunState } from "./types.js";
+
+const ALL_PHASES: PhaseId[] = [
+  "RunInit",
+  "FloorStart",
+  "RoomReveal",
+  "RoomChoice",
+  "EngageSetup",
+  "PreResolveWindow",
+  "ResolveCommit",
+  "ResolveExecute",
+  "RoomEnd",
+  "BossStart",
+  "BossRoomLoop",
+  "FloorVictory",
+  "RunVictory",
+  "RunDefeat"
+];
+
+// Phases a state can rest in between actions; the others only exist inside autoAdvance.
+const RESTING_PHASES: PhaseId[] = ["FloorStart", "RoomChoice", "EngageSetup", "PreResolveWindow", "ResolveExecute", "RunVictory", "RunDefeat"];
+
+const SLOT_ACTIONS = [
+  "SELECT_CARRIED_CARD",
+  "USE_LEAP_OF_FAITH",
+  "SPEND_FATE_REROLL",
+  "SPEND_FATE_CLEANSE",
+  "SPEND_FATE_EXILE_REPLACE",
+  "USE_SPELL_CLEANSE",
+  "USE_SPELL_REROLL",
+  "COMMIT_RESOLVE"
+] as const;
+
+const ACE_OPTIONS = ["pay5_heal5", "gain5_take3", "heal_to_full", "cleanse_free", "exile_replace_free", "reroll_free", "cheat_weapon_free"];
+
+function permutations(items: number[]): number[][] {
+  if (items.length <= 1) return [items];
+  return items.flatMap((head, i) => permutations(items.filter((_, j) => j !== i)).map((tail) => [head, ...tail]));
+}
+
+const TOP3_ORDERS = permutations([0, 1, 2]);
+const ROOM4_ORDERS = permutations([0, 1, 2, 3]);
+
+// Every well-formed action worth trying in `state`: the legal list is checked against this universe.
+function candidateActions(state: RunState): LegalAction[] {
+  const slots = [0, 1, 2, 3];
+  const out: LegalAction[] = [{ type: "CHOOSE_FLEE" }, { type: "CHOOSE_ENGAGE" }, { type: "SPEND_FATE_CHEAT_WEAPON" }];
+  for (const type of SLOT_ACTIONS) for (const slotIndex of slots) out.push({ type, slotIndex });
+
+  const majors: MajorId[] = [...new Set([...state.majors.claimed, state.floor.activeMajorId, ...state.decks.majorDeck.slice(0, 1)])];
+  out.push({ type: "SELECT_ATTUNEMENT", majorIds: [] }, { type: "SELECT_ATTUNEMENT", majorIds: majors.slice(0, 4) });
+  for (const majorId of majors) out.push({ type: "SELECT_ATTUNEMENT", majorIds: [majorId] });
+
+  const prompt = state.pending.prompt;
+  const optionIds = prompt?.kind === "MAJOR_CHOICE" ? prompt.optionIds : ["unknown"];
+  for (const majorId of majors) {
+    out.push({ type: "USE_MAJOR_GIFT", majorId });
+    for (const optionId of optionIds) out.push({ type: "USE_MAJOR_GIFT", majorId, optionId });
+    for (const slotIndex of slots) out.push({ type: "USE_MAJOR_GIFT", majorId, slotIndex });
+  }
+
+  for (const optionId of ACE_OPTIONS) {
+    out.push({ type: "ACE_CHOICE", optionId });
+    for (const slotIndex of slots) out.push({ type: "ACE_CHOICE", optionId, slotIndex });
+  }
+  out.push(
+    { type: "ENEMY_FIGHT_CHOICE", enemyMode: "barehand" },
+    { type: "ENEMY_FIGHT_CHOICE", enemyMode: "weapon" },
+    { type: "SWORDS_AMBUSH_BLOCK_CHOICE", block: true },
+    { type: "SWORDS_AMBUSH_BLOCK_CHOICE", block: false },
+    { type: "CUPS_8_10_CHOICE", cupsChoice: "heal" },
+    { type: "CUPS_8_10_CHOICE", cupsChoice: "equipArmor" },
+    { type: "BARGAIN_CHOICE", bargainChoice: "pay" },
+    { type: "BARGAIN_CHOICE", bargainChoice: "takeDamage" }
+  );
+  for (const order of TOP3_ORDERS) out.push({ type: "REORDER_TOP3", order });
+  for (const order of ROOM4_ORDERS) out.push({ type: "REORDER_ROOM4", order });
+  return out;
+}
+
+function describeFailure(state: RunState, action: LegalAction, detail: string) {
+  return `phase=${state.phase} prompt=${state.pending.prompt?.kind ?? "none"} action=${JSON.stringify(action)}: ${detail}`;
+}
+
+// Listed actions apply cleanly under strict mode; unlisted ones are rejected with an engine error, never a crash.
+function assertLegalitySound(state: RunState) {
+  const legal = getLegalActions(state);
+  for (const action of legal) {
+    expect(isLegalAction(state, action)).toBe(true);
+    try {
+      applyAction(state, action, { strict: true });
+    } catch (err) {
+      throw new Error(describeFailure(state, action, `listed action was rejected: ${String(err)}`));
+    }
+  }
+  for (const action of candidateActions(state)) {
+    if (isLegalAction(state, action)) continue;
+    let rejected: unknown = null;
+    try {
+      applyAction(state, action, { strict: true });
+    } catch (err) {
+      rejected = err;
+    }
+    if (!(rejected instanceof EngineError)) throw new Error(describeFailure(state, action, `unlisted action was not rejected with an EngineError (${String(rejected)})`));
+  }
+}
+
+beforeAll(() => {
+  const majors = JSON.parse(readFileSync(new URL("../../game-data/content/majors.json", import.meta.url), "utf8"));
+  const strings = JSON.parse(readFileSync(new URL("../../game-data/content/strings.en.json", import.meta.url), "utf8"));
+  loadContent({ majors, strings });
+});
+
+describe("Legal action soundness", () => {
+  it("matches isLegalAction regardless of key order and absent optional fields", () => {
+    const s = createRun({ seed: 1, runLengthTarget: 7 });
+    expect(isLegalAction(s, { type: "SELECT_ATTUNEMENT", majorIds: [] })).toBe(true);
+    expect(isLegalAction(s, { majorIds: [], type: "SELECT_ATTUNEMENT" } as LegalAction)).toBe(true);
+    expect(isLegalAction(s, { type: "CHOOSE_ENGAGE" })).toBe(false);
+    expect(() => applyAction(s, { type: "CHOOSE_ENGAGE" }, { strict: true })).toThrow(IllegalActionError);
+  });
+
+  it("accepts exactly the listed actions on every step of fuzzed runs", () => {
+    const seen = new Set<PhaseId>();
+    for (let seed = 3; seed <= 8; seed += 1) {
+      const chooser = new Xorshift32(500 + seed);
+      let s = createRun({ seed, runLengthTarget: 7 });
+      s.player.maxHp = 60;
+      s.player.hp = 60;
+      for (let i = 0; i < 250; i += 1) {
+        seen.add(s.phase);
+        assertLegalitySound(s);
+        const legal = getLegalActions(s);
+        if (!legal.length) break;
+        s = applyAction(s, legal[chooser.nextUint32() % legal.length]!, { strict: true }).nextState;
+      }
+    }
+    for (const phase of RESTING_PHASES.filter((p) => p !== "RunVictory")) expect(seen).toContain(phase);
+  }, 120_000);
+
+  it("lists nothing and rejects everything in phases a state never rests in", () => {
+    let s = createRun({ seed: 7, runLengthTarget: 7 });
+    for (let i = 0; i < 5; i += 1) s = applyAction(s, getLegalActions(s)[0]!).nextState;
+    for (const phase of ALL_PHASES.filter((p) => !RESTING_PHASES.includes(p))) {
+      const crafted = { ...structuredClone(s), phase };
+      expect(getLegalActions(crafted)).toEqual([]);
+      assertLegalitySound(crafted);
+    }
+    const won = { ...structuredClone(s), phase: "RunVictory" as const };
+    expect(getLegalActions(won)).toEqual([]);
+    assertLegalitySound(won);
+  });
+});
@@ -1,6 +1,7 @@
 import type { EffectNode, HookId, Selector } from "./content.js";
-import { getLoadedContent } from "./content.js";
-import type { CardId, LegalAction, MajorId, MinorCard, RunState } from "./types.js";
+import { getContent } from "./content.js";
+import { ContentError, InternalEngineError } from "./errors.js";
+import type { CardId, GameEventPayload, LegalAction, MajorId, MajorPrompt, MinorCard, PendingPrompt, RunState } from "./types.js";
 import { computeEffectiveOrientation, computeEnemyValue, computeMinorNumericValue, isCourt, isNumbered } from "./rules.js";
 
 function permutations<T>(items: T[]): T[][] {
@@ -14,15 +15,28 @@ function permutations<T>(items: T[]): T[][] {
   return out;
 }
 
-type MajorPrompt =
-  | { kind: "CHOICE"; majorId: MajorId; promptKey: string; optionIds: string[]; optionEffects: EffectNode[] }
-  | { kind: "BARGAIN"; majorId: MajorId; promptKey: string; options: ("pay" | "takeDamage")[]; bargainOptions: NonNullable<EffectNode["bargainOptions"]> }
-  | { kind: "REORDER_TOP3"; majorId: MajorId }
-  | { kind: "REORDER_ROOM4"; majorId: MajorId }
-  | { kind: "SELECT_TARGET"; majorId: MajorId; effect: EffectNode; candidates: number[] };
+// How many of the active deck's top cards a REORDER_TOP3 prompt covers: 3, or fewer when even the refilled deck is short.
+export function reorderTopCount(state: RunState): number {
+  const deck = state.floor.bossMode ? state.floor.bossDeck : state.decks.minorDeck;
+  return Math.min(3, deck?.length ?? 0);
+}
 
 function getMajor(majorId: MajorId) {
-  return getLoadedContent().majorById[majorId];
+  return getContent().majorById[majorId];
+}
+
+// The CHOICE/BARGAIN node of a Major's shadow or gift that opened a prompt with `promptKey` (prompts keep only the key).
+export function findPromptEffect(majorId: MajorId, promptKey: string): EffectNode | null {
+  const major = getMajor(majorId);
+  const stack: EffectNode[] = [major.shadow.effect, major.gift.effect];
+  while (stack.length) {
+    const node = stack.pop()!;
+    if (node.promptKey === promptKey) return node;
+    stack.push(...(node.effects ?? []), ...(node.options ?? []).map((o) => o.effect));
+    if (node.then) stack.push(node.then);
+    if (node.else) stack.push(node.else);
+  }
+  return null;
 }
 
 export function getFloorMajorShadow(state: RunState, hook: HookId): EffectNode | null {
@@ -87,59 +101,53 @@ function selectorCandidates(state: RunState, selector: Selector): number[] {
   return occupied;
 }
 
-export function beginMajorEffectPrompt(state: RunState, majorId: MajorId, effect: EffectNode): void {
-  // Stores prompt detail into debug; engine will expose legal actions from it and apply in applyAction handlers.
-  const dbg = (state.debug ??= {});
-  if (dbg.pendingPrompt) throw new Error("Cannot begin major prompt while another prompt is pending");
+export function openMajorPrompt(state: RunState, prompt: PendingPrompt, majorPrompt: MajorPrompt, events: GameEventPayload[]) {
+  state.pending.prompt = prompt;
+  state.pending.majorPrompt = majorPrompt;
+  events.push({ type: "PROMPT_OPENED", prompt: structuredClone(prompt) });
+}
+
+export function beginMajorEffectPrompt(state: RunState, majorId: MajorId, effect: EffectNode, events: GameEventPayload[]): void {
+  // Stores prompt detail into state.pending; engine will expose legal actions from it and apply in applyAction handlers.
+  if (state.pending.prompt) throw new InternalEngineError("Cannot begin major prompt while another prompt is pending", { majorId });
 
   if (effect.type === "CHOICE") {
-    if (!effect.promptKey || !effect.options) throw new Error("CHOICE requires promptKey and options");
-    dbg.pendingPrompt = {
-      kind: "MAJOR_CHOICE",
-      majorId,
-      promptKey: effect.promptKey,
-      optionIds: effect.options.map((o) => o.labelKey)
-    };
-    // Store full prompt in a non-hashed field for follow-up.
-    (dbg as any).pendingMajorPrompt = {
-      kind: "CHOICE",
-      majorId,
-      promptKey: effect.promptKey,
-      optionIds: effect.options.map((o) => o.labelKey),
-      optionEffects: effect.options.map((o) => o.effect)
-    } satisfies MajorPrompt;
+    if (!effect.promptKey || !effect.options) throw new ContentError("CHOICE requires promptKey and options", { majorId });
+    const optionIds = effect.options.map((o) => o.labelKey);
+    openMajorPrompt(
+      state,
+      { kind: "MAJOR_CHOICE", majorId, promptKey: effect.promptKey, optionIds },
+      { kind: "CHOICE", majorId, promptKey: effect.promptKey, optionIds: [...optionIds], optionEffects: effect.options.map((o) => o.effect) },
+      events
+    );
     return;
   }
 
   if (effect.type === "BARGAIN") {
-    if (!effect.promptKey || !effect.options || !effect.bargainOptions) throw new Error("BARGAIN requires promptKey/options/bargainOptions");
-    if (effect.options.length !== effect.bargainOptions.length) throw new Error("BARGAIN options and bargainOptions length mismatch");
+    if (!effect.promptKey || !effect.options || !effect.bargainOptions) throw new ContentError("BARGAIN requires promptKey/options/bargainOptions", { majorId });
+    if (effect.options.length !== effect.bargainOptions.length) throw new ContentError("BARGAIN options and bargainOptions length mismatch", { majorId });
     const simplified = effect.bargainOptions.map((o) => ("payGold" in o ? "pay" : "takeDamage")) as ("pay" | "takeDamage")[];
-    dbg.pendingPrompt = { kind: "MAJOR_BARGAIN", majorId, promptKey: effect.promptKey, options: simplified };
-    (dbg as any).pendingMajorPrompt = {
-      kind: "BARGAIN",
-      majorId,
-      promptKey: effect.promptKey,
-      options: simplified,
-      bargainOptions: effect.bargainOptions
-    } satisfies MajorPrompt;
+    openMajorPrompt(
+      state,
+      { kind: "MAJOR_BARGAIN", majorId, promptKey: effect.promptKey, options: simplified },
+      { kind: "BARGAIN", majorId, promptKey: effect.promptKey, options: [...simplified], bargainOptions: effect.bargainOptions },
+      events
+    );
     return;
   }
 
   if (effect.type === "REORDER_TOP_N") {
-    dbg.pendingPrompt = { kind: "MAJOR_REORDER_TOP3", majorId };
-    (dbg as any).pendingMajorPrompt = { kind: "REORDER_TOP3", majorId } satisfies MajorPrompt;
+    openMajorPrompt(state, { kind: "MAJOR_REORDER_TOP3", majorId }, { kind: "REORDER_TOP3", majorId }, events);
     return;
   }
 
   if (effect.type === "REORDER_ROOM_ARBITRARY") {
-    dbg.pendingPrompt = { kind: "MAJOR_REORDER_ROOM4", majorId };
-    (dbg as any).pendingMajorPrompt = { kind: "REORDER_ROOM4", majorId } satisfies MajorPrompt;
+    openMajorPrompt(state, { kind: "MAJOR_REORDER_ROOM4", majorId }, { kind: "REORDER_ROOM4", majorId }, events);
     return;
   }
 
   if (effect.type === "REROLL_REVEALED" || effect.type === "EXILE_REPLACE_REVEALED" || effect.type === "CLEANSE_REVEALED") {
-    if (!effect.selector) throw new Error(`${effect.type} requires selector`);
+    if (!effect.selector) throw new ContentError(`${effect.type} requires selector`, { majorId });
     const candidates = selectorCandidates(state, effect.selector);
     if (candidates.length === 0) return;
     if (effect.selector.kind === "RANDOM") {
@@ -147,23 +155,29 @@ export function beginMajorEffectPrompt(state: RunState, majorId: MajorId, effect
       return;
     }
     if (effect.selector.kind === "HIGHEST_VALUE" && candidates.length === 1) return;
-    dbg.pendingPrompt = { kind: "MAJOR_CHOICE", majorId, promptKey: "major.selectTarget", optionIds: candidates.map((i) => String(i)) };
-    (dbg as any).pendingMajorPrompt = { kind: "SELECT_TARGET", majorId, effect, candidates } satisfies MajorPrompt;
+    beginMajorTargetPrompt(state, majorId, effect, candidates, events);
     return;
   }
 
-  throw new Error(`Unsupported major prompt type: ${effect.type}`);
+  throw new ContentError(`Unsupported major prompt type: ${effect.type}`, { majorId });
+}
+
+export function beginMajorTargetPrompt(state: RunState, majorId: MajorId, effect: EffectNode, candidates: number[], events: GameEventPayload[]): void {
+  openMajorPrompt(
+    state,
+    { kind: "MAJOR_CHOICE", majorId, promptKey: "major.selectTarget", optionIds: candidates.map(String) },
+    { kind: "SELECT_TARGET", majorId, effect, candidates },
+    events
+  );
 }
 
 export function getMajorPrompt(state: RunState): MajorPrompt | null {
-  const p = (state.debug as any)?.pendingMajorPrompt as MajorPrompt | undefined;
-  return p ?? null;
+  return state.pending.majorPrompt;
 }
 
 export function clearMajorPrompt(state: RunState) {
-  if (!state.debug) return;
-  delete (state.debug as any).pendingMajorPrompt;
-  delete state.debug.pendingPrompt;
+  state.pending.prompt = null;
+  state.pending.majorPrompt = null;
 }
 
 export function getMajorPromptLegalActions(state: RunState): LegalAction[] {
@@ -194,7 +208,10 @@ export function getMajorPromptLegalActions(state: RunState): LegalAction[] {
     }) satisfies LegalAction[];
   }
 
-  if (prompt.kind === "REORDER_TOP3") return permutations([0, 1, 2]).map((order) => ({ type: "REORDER_TOP3", order }));
+  if (prompt.kind === "REORDER_TOP3") {
+    const indices = [0, 1, 2].slice(0, reorderTopCount(state));
+    return permutations(indices).map((order) => ({ type: "REORDER_TOP3", order }));
+  }
   if (prompt.kind === "REORDER_ROOM4") return permutations([0, 1, 2, 3]).map((order) => ({ type: "REORDER_ROOM4", order }));
 
   if (prompt.kind === "SELECT_TARGET") {
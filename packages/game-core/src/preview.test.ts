@@ -0,0 +1,136 @@
+import { readFileSync } from "node:fs";
+
+import { beforeAll, describe, expect, it } from "vitest";
+
+import { loadContent } from "./content.js";
+import { applyAction, createRun, getLegalActions } from "./engine.js";
+import { IllegalActionError } from "./errors.js";
+import { previewAction } from "./preview.js";
+import { Xorshift32 } from "./rng/xorshift32.js";
+import { canUseWeaponAgainstEnemy } from "./rules.js";
+import { stableStringify } from "./stateHash.js";
+import type { ActionPreview, RunState } from "./types.js";
+
+beforeAll(() => {
+  const majors = JSON.parse(readFileSync(new URL("../../game-data/content/majors.json", import.meta.url), "utf8"));
+  const strings = JSON.parse(readFileSync(new URL("../../game-data/content/strings.en.json", import.meta.url), "utf8"));
+  loadContent({ majors, strings });
+});
+
+function isFullyKnown(p: ActionPreview) {
+  return !p.dependsOnUnseen && !p.choices.length && p.hpDelta !== "unknown" && p.goldDelta !== "unknown" && p.fateDelta !== "unknown";
+}
+
+function checkAgainstEngine(state: RunState, p: ActionPreview) {
+  const { nextState } = applyAction(state, p.action);
+  const label = `${state.phase} ${JSON.stringify(p.action)}`;
+  expect(nextState.player.hp - state.player.hp, label).toBe(p.hpDelta);
+  expect(nextState.player.gold - state.player.gold, label).toBe(p.goldDelta);
+  expect(nextState.player.fate - state.player.fate, label).toBe(p.fateDelta);
+  expect(nextState.player.hp <= 0, label).toBe(p.defeat);
+  for (const kind of ["weapon", "armor", "spell"] as const) {
+    let expected = state.player[kind]?.cardId ?? null;
+    for (const c of p.equipment) if (c.kind === kind) expected = c.change === "equip" ? c.cardId : null;
+    expect(nextState.player[kind]?.cardId ?? null, `${label} ${kind}`).toBe(expected);
+  }
+  if (p.weaponRestrictedTo !== null && nextState.player.weapon) {
+    expect(canUseWeaponAgainstEnemy(nextState, p.weaponRestrictedTo), label).toBe(true);
+    expect(canUseWeaponAgainstEnemy(nextState, p.weaponRestrictedTo + 1), label).toBe(false);
+  }
+}
+
+describe("Action preview", () => {
+  it("matches the engine for every fully known preview in fuzzed runs", () => {
+    let checked = 0;
+    for (let seed = 1; seed <= 10; seed += 1) {
+      const chooser = new Xorshift32(700 + seed);
+      let s = createRun({ seed, runLengthTarget: 7 });
+      for (let i = 0; i < 250; i += 1) {
+        const legal = getLegalActions(s);
+        if (!legal.length) break;
+        for (const action of legal) {
+          // Prompt options are checked when the run reaches the prompt.
+          const p = previewAction(s, action);
+          if (isFullyKnown(p)) {
+            checkAgainstEngine(s, p);
+            checked += 1;
+          }
+        }
+        s = applyAction(s, legal[chooser.nextUint32() % legal.length]!).nextState;
+      }
+    }
+    expect(checked).toBeGreaterThan(300);
+  }, 60_000);
+
+  it("does not depend on the order of the unseen deck", () => {
+    let s = createRun({ seed: 4, runLengthTarget: 7 });
+    for (let i = 0; i < 40 && s.phase !== "PreResolveWindow"; i += 1) {
+      const legal = getLegalActions(s);
+      s = applyAction(s, legal.find((a) => a.type === "CHOOSE_ENGAGE") ?? legal[0]!).nextState;
+    }
+    expect(s.phase).toBe("PreResolveWindow");
+    const shuffled = structuredClone(s);
+    shuffled.decks.minorDeck.reverse();
+    for (const action of getLegalActions(s)) {
+      expect(stableStringify(previewAction(shuffled, action))).toBe(stableStringify(previewAction(s, action)));
+    }
+  });
+
+  it("lists one outcome per prompt option and rejects unlisted actions", () => {
+    let s = createRun({ seed: 1, runLengthTarget: 7 });
+    for (let i = 0; i < 40 && s.phase !== "PreResolveWindow"; i += 1) {
+      const legal = getLegalActions(s);
+      s = applyAction(s, legal.find((a) => a.type === "CHOOSE_ENGAGE") ?? legal[0]!).nextState;
+    }
+    s.room.slots[0] = "cups_9";
+    s.decks.cards = { minors: { ...s.decks.cards.minors, cups_9: { ...s.decks.cards.minors["cups_9"]!, orientation: "upright" } } };
+    s.room.pendingCleanses[0] = false;
+    s.player.hp = 10;
+    s.player.armor = null;
+    const p = previewAction(s, { type: "COMMIT_RESOLVE", slotIndex: 0 });
+    expect(p.choices.map((c) => c.action)).toEqual([
+      { type: "CUPS_8_10_CHOICE", cupsChoice: "heal" },
+      { type: "CUPS_8_10_CHOICE", cupsChoice: "equipArmor" }
+    ]);
+    expect(p.hpDelta).toBe("unknown");
+    expect(p.choices[0]).toMatchObject({ hpDelta: 9, equipment: [] });
+    expect(p.choices[1]).toMatchObject({ hpDelta: 0, equipment: [{ kind: "armor", change: "equip", cardId: "cups_9" }] });
+
+    expect(() => previewAction(s, { type: "CHOOSE_ENGAGE" })).toThrow(IllegalActionError);
+  });
+
+  it("lists the Sun's bargain after the room's first resolution", () => {
+    let s = createRun({ seed: 1, runLengthTarget: 7 });
+    for (let i = 0; i < 40 && s.phase !== "PreResolveWindow"; i += 1) {
+      const legal = getLegalActions(s);
+      s = applyAction(s, legal.find((a) => a.type === "CHOOSE_ENGAGE") ?? legal[0]!).nextState;
+    }
+    expect(s.room.resolvedMask.some(Boolean)).toBe(false);
+    s.floor.activeMajorId = "sun";
+    s.room.slots[0] = "wands_2";
+    s.decks.cards = { minors: { ...s.decks.cards.minors, wands_2: { ...s.decks.cards.minors["wands_2"]!, orientation: "upright" } } };
+    s.room.pendingCleanses[0] = false;
+    s.player.hp = 1;
+    s.player.armor = null;
+    const commit = { type: "COMMIT_RESOLVE", slotIndex: 0 } as const;
+
+    // Too poor to pay: the only option is the 1 damage that ends the run.
+    s.player.gold = 0;
+    const broke = previewAction(s, commit);
+    expect(broke.choices.map((c) => c.action)).toEqual([{ type: "BARGAIN_CHOICE", bargainChoice: "takeDamage" }]);
+    expect(broke).toMatchObject({ hpDelta: -1, goldDelta: 0, defeat: true, equipment: [{ kind: "spell", change: "equip", cardId: "wands_2" }] });
+    const prompted = applyAction(s, commit).nextState;
+    checkAgainstEngine(prompted, previewAction(prompted, broke.choices[0]!.action));
+    expect(applyAction(prompted, broke.choices[0]!.action).nextState.player.hp).toBe(0);
+
+    s.player.gold = 5;
+    const p = previewAction(s, commit);
+    expect(p.choices.map((c) => c.action)).toEqual([
+      { type: "BARGAIN_CHOICE", bargainChoice: "pay" },
+      { type: "BARGAIN_CHOICE", bargainChoice: "takeDamage" }
+    ]);
+    expect(p).toMatchObject({ hpDelta: "unknown", goldDelta: "unknown", defeat: "unknown" });
+    expect(p.choices[0]).toMatchObject({ hpDelta: 0, goldDelta: -2, defeat: false });
+    expect(p.choices[1]).toMatchObject({ hpDelta: -1, goldDelta: 0, defeat: true });
+  });
+});
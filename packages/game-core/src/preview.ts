@@ -0,0 +1,321 @@
+import { withContent } from "./content.js";
+import { getLegalActions, isLegalAction } from "./engine.js";
+import { IllegalActionError } from "./errors.js";
+import { beginMajorEffectPrompt, getFloorMajorShadow, getMajorPrompt, getMajorPromptLegalActions } from "./majors.js";
+import { applyArmorIfAny, canUseWeaponAgainstEnemy, computeEffectiveOrientation, computeEnemyValue, computeMinorNumericValue, isCourt } from "./rules.js";
+import { stableStringify } from "./stateHash.js";
+import type { ActionPreview, ContentOptions, EquipmentChange, GameEventPayload, LegalAction, MajorPrompt, RunState } from "./types.js";
+
+// Working copy for one prediction. Only player/room/floor-discard fields are written; decks and card faces are read-only,
+// so nothing here can depend on (or reveal) the order of the unseen deck.
+type Outcome = {
+  s: RunState;
+  events: GameEventPayload[];
+  reversedFateGain: number;
+  armorBreaks: boolean;
+  weaponRestrictedTo: number | null;
+  dependsOnUnseen: boolean;
+};
+
+function startOutcome(state: RunState): Outcome {
+  const s: RunState = { ...state, player: structuredClone(state.player), room: { ...state.room }, floor: { ...state.floor, floorDiscard: [] } };
+  return { s, events: [], reversedFateGain: 0, armorBreaks: false, weaponRestrictedTo: null, dependsOnUnseen: false };
+}
+
+function forkOutcome(o: Outcome): Outcome {
+  return { ...o, s: { ...o.s, player: structuredClone(o.s.player), room: { ...o.s.room } }, events: [...o.events] };
+}
+
+function clamp(n: number, min: number, max: number) {
+  return Math.max(min, Math.min(max, n));
+}
+
+// Same clamps as the engine's addFate/addGold/applyDamage/applyHeal.
+function addFate(o: Outcome, delta: number) {
+  o.s.player.fate = clamp(o.s.player.fate + delta, 0, o.s.fateCap);
+}
+
+function addGold(o: Outcome, delta: number) {
+  o.s.player.gold = clamp(o.s.player.gold + delta, 0, 9999);
+}
+
+function damage(o: Outcome, amount: number, ignoreArmor = false) {
+  const hadArmor = o.s.player.armor !== null;
+  const reduced = ignoreArmor ? amount : applyArmorIfAny(o.s, amount, o.events);
+  if (hadArmor && o.s.player.armor === null) o.armorBreaks = true;
+  if (reduced > 0) o.s.player.hp = clamp(o.s.player.hp - reduced, 0, 999);
+}
+
+function heal(o: Outcome, amount: number) {
+  if (amount <= 0 || o.s.room.healingUsedThisRoom) return;
+  const next = clamp(o.s.player.hp + amount, 0, o.s.player.maxHp);
+  if (next <= o.s.player.hp) return;
+  o.s.player.hp = next;
+  o.s.room.healingUsedThisRoom = true;
+}
+
+function discard(o: Outcome, kind: "weapon" | "armor" | "spell") {
+  const item = o.s.player[kind];
+  if (!item) return;
+  o.s.player[kind] = null;
+  o.events.push({ type: "DISCARD_EQUIPMENT", kind, cardId: item.cardId });
+}
+
+function applyBargain(o: Outcome, prompt: Extract<MajorPrompt, { kind: "BARGAIN" }>, choice: "pay" | "takeDamage") {
+  const opt = prompt.bargainOptions[prompt.options.indexOf(choice)]!;
+  if (choice === "pay") addGold(o, -(opt.payGold ?? 0));
+  else if (opt.takeDamage) damage(o, opt.takeDamage);
+  if (opt.gainGold) addGold(o, opt.gainGold);
+  if (opt.heal) heal(o, opt.heal);
+}
+
+// Mirrors the engine's resolution of the card in `slotIndex`; `choice` answers its prompt, if it has one.
+function resolveCard(o: Outcome, slotIndex: number, choice: LegalAction | null) {
+  const { s } = o;
+  const cardId = s.room.slots[slotIndex]!;
+  const card = s.decks.cards.minors[cardId]!;
+  const effective = computeEffectiveOrientation(s, slotIndex, card);
+
+  if (card.rank.kind === "ace") {
+    const optionId = choice?.type === "ACE_CHOICE" ? choice.optionId : null;
+    if (optionId === "pay5_heal5") {
+      addGold(o, -5);
+      heal(o, 5);
+    } else if (optionId === "gain5_take3") {
+      addGold(o, 5);
+      damage(o, 3);
+    } else if (optionId === "heal_to_full") {
+      heal(o, s.player.maxHp);
+    } else if (optionId === "exile_replace_free" || optionId === "reroll_free") {
+      o.dependsOnUnseen = true;
+    }
+  } else if (isCourt(card)) {
+    const enemyValue = computeEnemyValue(card, effective);
+    const weapon = s.player.weapon;
+    if (choice?.type === "ENEMY_FIGHT_CHOICE" && choice.enemyMode === "weapon" && weapon && canUseWeaponAgainstEnemy(s, enemyValue)) {
+      damage(o, Math.max(0, enemyValue - weapon.value));
+      o.weaponRestrictedTo = s.rules.weaponRestrictionMode === "STRICT" ? enemyValue - 1 : enemyValue;
+    } else {
+      damage(o, enemyValue);
+    }
+  } else if (card.rank.kind === "number") {
+    const v = computeMinorNumericValue(card.rank);
+    const upright = effective === "upright";
+    if (card.suit === "pentacles") {
+      if (upright) addGold(o, v);
+      else {
+        const lose = Math.min(s.player.gold, v);
+        addGold(o, -lose);
+        if (v - lose > 0) damage(o, v - lose);
+      }
+    } else if (card.suit === "cups") {
+      if (upright && v >= 8 && choice?.type === "CUPS_8_10_CHOICE" && choice.cupsChoice === "equipArmor") {
+        discard(o, "armor");
+        s.player.armor = { cardId, value: v };
+        o.events.push({ type: "EQUIP_ARMOR", cardId, value: v });
+      } else if (upright) heal(o, v);
+      // Reversed cups ignores armor.
+      else damage(o, v, true);
+    } else if (card.suit === "wands") {
+      if (upright) {
+        discard(o, "spell");
+        s.player.spell = { cardId, value: v };
+        o.events.push({ type: "EQUIP_SPELL", cardId, value: v });
+      } else if (s.player.spell) discard(o, "spell");
+      else damage(o, 2);
+    } else if (upright) {
+      discard(o, "weapon");
+      s.player.weapon = { cardId, value: v, lastHelpedDefeatValue: null, tuckedEnemyIds: [] };
+      o.events.push({ type: "EQUIP_WEAPON", cardId, value: v });
+    } else {
+      const block = choice?.type === "SWORDS_AMBUSH_BLOCK_CHOICE" && choice.block && s.player.weapon;
+      damage(o, block ? Math.max(0, v - s.player.weapon!.value) : v);
+    }
+  }
+
+  if (effective === "reversed") {
+    const before = s.player.fate;
+    addFate(o, 1);
+    o.reversedFateGain = s.player.fate - before;
+  }
+}
+
+function equipmentChanges(events: GameEventPayload[]): EquipmentChange[] {
+  const out: EquipmentChange[] = [];
+  for (const e of events) {
+    if (e.type === "DISCARD_EQUIPMENT") out.push({ kind: e.kind, change: "discard", cardId: e.cardId });
+    else if (e.type === "EQUIP_WEAPON") out.push({ kind: "weapon", change: "equip", cardId: e.cardId });
+    else if (e.type === "EQUIP_ARMOR") out.push({ kind: "armor", change: "equip", cardId: e.cardId });
+    else if (e.type === "EQUIP_SPELL") out.push({ kind: "spell", change: "equip", cardId: e.cardId });
+  }
+  return out;
+}
+
+function finish(state: RunState, action: LegalAction, o: Outcome): ActionPreview {
+  const p = o.s.player;
+  return {
+    action,
+    hpDelta: p.hp - state.player.hp,
+    goldDelta: p.gold - state.player.gold,
+    fateDelta: p.fate - state.player.fate,
+    reversedFateGain: o.reversedFateGain,
+    equipment: equipmentChanges(o.events),
+    armorBreaks: o.armorBreaks,
+    weaponRestrictedTo: o.weaponRestrictedTo,
+    defeat: p.hp <= 0,
+    dependsOnUnseen: o.dependsOnUnseen,
+    choices: []
+  };
+}
+
+function unknownPreview(action: LegalAction): ActionPreview {
+  return {
+    action,
+    hpDelta: "unknown",
+    goldDelta: "unknown",
+    fateDelta: "unknown",
+    reversedFateGain: 0,
+    equipment: [],
+    armorBreaks: false,
+    weaponRestrictedTo: null,
+    defeat: "unknown",
+    dependsOnUnseen: true,
+    choices: []
+  };
+}
+
+// A resolve that opens a prompt: fields all options agree on are kept, the rest become "unknown".
+function mergeChoices(action: LegalAction, choices: ActionPreview[]): ActionPreview {
+  const agreed = <K extends "hpDelta" | "goldDelta" | "fateDelta" | "defeat">(key: K) =>
+    choices.every((c) => c[key] === choices[0]![key]) ? choices[0]![key] : "unknown";
+  const first = choices[0]!;
+  return {
+    action,
+    hpDelta: agreed("hpDelta"),
+    goldDelta: agreed("goldDelta"),
+    fateDelta: agreed("fateDelta"),
+    reversedFateGain: first.reversedFateGain,
+    equipment: choices.every((c) => stableStringify(c.equipment) === stableStringify(first.equipment)) ? first.equipment : [],
+    armorBreaks: choices.every((c) => c.armorBreaks),
+    weaponRestrictedTo: choices.every((c) => c.weaponRestrictedTo === first.weaponRestrictedTo) ? first.weaponRestrictedTo : null,
+    defeat: agreed("defeat"),
+    dependsOnUnseen: choices.some((c) => c.dependsOnUnseen),
+    choices
+  };
+}
+
+// Finishes the preview of an action that resolves a card. The first resolution of a room fires the floor's
+// AFTER_FIRST_RESOLUTION shadow if the player survives it: the Sun's bargain becomes one choice per option the player
+// can then afford, any other shadow makes the outcome "unknown".
+function finishResolution(state: RunState, action: LegalAction, o: Outcome): ActionPreview {
+  const shadow = state.room.resolvedMask.some(Boolean) ? null : getFloorMajorShadow(state, "AFTER_FIRST_RESOLUTION");
+  if (!shadow || o.s.player.hp <= 0) return finish(state, action, o);
+  if (shadow.type !== "BARGAIN") {
+    return { ...finish(state, action, o), hpDelta: "unknown", goldDelta: "unknown", fateDelta: "unknown", defeat: "unknown", dependsOnUnseen: true };
+  }
+
+  const prompting: RunState = { ...o.s, pending: { ...o.s.pending, prompt: null, majorPrompt: null } };
+  beginMajorEffectPrompt(prompting, state.floor.activeMajorId, shadow, []);
+  const prompt = getMajorPrompt(prompting) as Extract<MajorPrompt, { kind: "BARGAIN" }>;
+  return mergeChoices(
+    action,
+    getMajorPromptLegalActions(prompting).map((choice) => {
+      const c = forkOutcome(o);
+      if (choice.type === "BARGAIN_CHOICE") applyBargain(c, prompt, choice.bargainChoice);
+      return finish(state, choice, c);
+    })
+  );
+}
+
+function previewCommit(state: RunState, action: Extract<LegalAction, { type: "COMMIT_RESOLVE" }>): ActionPreview {
+  const o = startOutcome(state);
+  const resolvedCount = state.room.resolvedMask.filter(Boolean).length;
+  if (!state.room.hangedManTriggeredThisRoom && resolvedCount === 0 && getFloorMajorShadow(state, "BEFORE_FIRST_RESOLVE_ATTEMPT")?.type === "FORCED_EXILE_FIRST_RESOLVE_ATTEMPT") {
+    // The first attempt is exiled and replaced from the deck instead of resolving.
+    o.dependsOnUnseen = true;
+    return finish(state, action, o);
+  }
+
+  const cardId = state.room.slots[action.slotIndex]!;
+  const resolving: RunState = { ...state, phase: "ResolveExecute", pending: { ...state.pending, resolution: { slotIndex: action.slotIndex, cardId } } };
+  const options = getLegalActions(resolving);
+  if (!options.length) {
+    resolveCard(o, action.slotIndex, null);
+    return finishResolution(state, action, o);
+  }
+  return mergeChoices(
+    action,
+    options.map((choice) => {
+      const c = startOutcome(state);
+      resolveCard(c, action.slotIndex, choice);
+      return finishResolution(state, choice, c);
+    })
+  );
+}
+
+/**
+ * Predicted consequences of a legal action, computed from what the player can see: room cards, equipment and the
+ * outstanding prompt. A shadow bargain opened by the room's first resolution is listed as choices; draws from the deck,
+ * other Major effects and phase transitions are never simulated, and their results are reported as "unknown" /
+ * `dependsOnUnseen`. Throws IllegalActionError for actions getLegalActions does not list.
+ */
+export function previewAction(state: RunState, action: LegalAction, options: ContentOptions = {}): ActionPreview {
+  return withContent(options.content, () => previewLegalAction(state, action));
+}
+
+function previewLegalAction(state: RunState, action: LegalAction): ActionPreview {
+  if (!isLegalAction(state, action)) throw new IllegalActionError("ILLEGAL_ACTION", `${action.type} is not a legal action in this state`, { actionType: action.type, phase: state.phase });
+
+  const o = startOutcome(state);
+  switch (action.type) {
+    case "COMMIT_RESOLVE":
+      return previewCommit(state, action);
+    case "ACE_CHOICE":
+    case "ENEMY_FIGHT_CHOICE":
+    case "SWORDS_AMBUSH_BLOCK_CHOICE":
+    case "CUPS_8_10_CHOICE":
+      resolveCard(o, state.pending.resolution!.slotIndex, action);
+      return finishResolution(state, action, o);
+    case "USE_LEAP_OF_FAITH": {
+      const card = state.decks.cards.minors[state.room.slots[action.slotIndex]!]!;
+      if (card.orientation === "upright") addFate(o, 2);
+      else damage(o, 2);
+      break;
+    }
+    case "SPEND_FATE_REROLL":
+      addFate(o, -1);
+      o.dependsOnUnseen = true;
+      break;
+    case "SPEND_FATE_CLEANSE":
+      addFate(o, -1);
+      break;
+    case "SPEND_FATE_EXILE_REPLACE":
+      addFate(o, -2);
+      o.dependsOnUnseen = true;
+      break;
+    case "SPEND_FATE_CHEAT_WEAPON":
+      addFate(o, -2);
+      break;
+    case "USE_SPELL_CLEANSE":
+      discard(o, "spell");
+      break;
+    case "USE_SPELL_REROLL":
+      discard(o, "spell");
+      o.dependsOnUnseen = true;
+      break;
+    case "BARGAIN_CHOICE": {
+      const prompt = getMajorPrompt(state);
+      if (prompt?.kind !== "BARGAIN") return unknownPreview(action);
+      applyBargain(o, prompt, action.bargainChoice);
+      break;
+    }
+    case "SELECT_CARRIED_CARD":
+    case "REORDER_TOP3":
+    case "REORDER_ROOM4":
+      break;
+    default:
+      // Engage/flee, attunement and Major gifts run hooks and draws that depend on hidden state.
+      return unknownPreview(action);
+  }
+  return finish(state, action, o);
+}
@@ -0,0 +1,81 @@
+import { readFileSync } from "node:fs";
+
+import { beforeAll, describe, expect, it } from "vitest";
+
+import { loadContent } from "./content.js";
+import { applyAction, createRun, getLegalActions } from "./engine.js";
+import { openMajorPrompt } from "./majors.js";
+import { getPendingPrompt } from "./prompts.js";
+import { Xorshift32 } from "./rng/xorshift32.js";
+import { stableStringify } from "./stateHash.js";
+import type { PromptDescriptor, RunState } from "./types.js";
+
+let strings: Record<string, string>;
+
+beforeAll(() => {
+  const majors = JSON.parse(readFileSync(new URL("../../game-data/content/majors.json", import.meta.url), "utf8"));
+  strings = JSON.parse(readFileSync(new URL("../../game-data/content/strings.en.json", import.meta.url), "utf8"));
+  loadContent({ majors, strings });
+});
+
+function assertDescriptorMatchesLegal(state: RunState, prompt: PromptDescriptor) {
+  const legal = getLegalActions(state).map(stableStringify);
+  expect(strings[prompt.titleKey], prompt.titleKey).toBeTypeOf("string");
+  if (prompt.kind === "MAJOR_REORDER_TOP3" || prompt.kind === "MAJOR_REORDER_ROOM4") {
+    expect(prompt.cardIds).toHaveLength(prompt.kind === "MAJOR_REORDER_TOP3" ? 3 : 4);
+    expect(legal.length).toBe(prompt.kind === "MAJOR_REORDER_TOP3" ? 6 : 24);
+    return;
+  }
+  expect(prompt.options.map((o) => stableStringify(o.action))).toEqual(legal);
+  for (const o of prompt.options) {
+    expect(strings[o.labelKey], o.labelKey).toBeTypeOf("string");
+    if (o.targetSlot !== null) expect(prompt.targetSlots).toContain(o.targetSlot);
+  }
+}
+
+describe("Pending prompt descriptors", () => {
+  it("describe every prompt in fuzzed runs with exactly the legal actions", () => {
+    const kinds = new Set<string>();
+    for (let seed = 1; seed <= 12; seed += 1) {
+      const chooser = new Xorshift32(900 + seed);
+      let s = createRun({ seed, runLengthTarget: 7 });
+      s.player.maxHp = 60;
+      s.player.hp = 60;
+      for (let i = 0; i < 300; i += 1) {
+        const legal = getLegalActions(s);
+        if (!legal.length) break;
+        const prompt = getPendingPrompt(s);
+        if (prompt) {
+          kinds.add(prompt.kind);
+          assertDescriptorMatchesLegal(s, prompt);
+        } else {
+          expect(["FloorStart", "RoomChoice", "EngageSetup", "PreResolveWindow"]).toContain(s.phase);
+        }
+        s = applyAction(s, legal[chooser.nextUint32() % legal.length]!).nextState;
+      }
+    }
+    for (const kind of ["ACE", "ENEMY_FIGHT", "CUPS_8_10", "MAJOR_SELECT_TARGET"]) expect(kinds).toContain(kind);
+  }, 60_000);
+
+  it("labels Major bargains from content and lists reorder cards from the deck top", () => {
+    const s = createRun({ seed: 3, runLengthTarget: 7 });
+    s.player.gold = 10;
+    openMajorPrompt(
+      s,
+      { kind: "MAJOR_BARGAIN", majorId: "empress", promptKey: "majors.empress.giftPrompt", options: ["pay", "takeDamage"] },
+      { kind: "BARGAIN", majorId: "empress", promptKey: "majors.empress.giftPrompt", options: ["pay", "takeDamage"], bargainOptions: [{ payGold: 5, heal: 5 }, { takeDamage: 3, gainGold: 5 }] },
+      []
+    );
+    expect(getPendingPrompt(s)).toMatchObject({
+      kind: "MAJOR_BARGAIN",
+      titleKey: "majors.empress.giftPrompt",
+      options: [
+        { labelKey: "majors.empress.giftPay5Heal5", action: { type: "BARGAIN_CHOICE", bargainChoice: "pay" } },
+        { labelKey: "majors.empress.giftTake3Gain5", action: { type: "BARGAIN_CHOICE", bargainChoice: "takeDamage" } }
+      ]
+    });
+
+    openMajorPrompt(s, { kind: "MAJOR_REORDER_TOP3", majorId: "moon" }, { kind: "REORDER_TOP3", majorId: "moon" }, []);
+    expect(getPendingPrompt(s)).toEqual({ kind: "MAJOR_REORDER_TOP3", titleKey: "prompt.reorderTop3.title", majorId: "moon", cardIds: s.decks.minorDeck.slice(0, 3) });
+  });
+});
@@ -0,0 +1,96 @@
+import { withContent } from "./content.js";
+import { getLegalActions } from "./engine.js";
+import { findPromptEffect, getMajorPrompt } from "./majors.js";
+import type { ContentOptions, LegalAction, PromptDescriptor, PromptOption, RunState } from "./types.js";
+
+const MINOR_PROMPT_KINDS = {
+  ACE_CHOICE: "ACE",
+  ENEMY_FIGHT_CHOICE: "ENEMY_FIGHT",
+  SWORDS_AMBUSH_BLOCK_CHOICE: "SWORDS_AMBUSH_BLOCK",
+  CUPS_8_10_CHOICE: "CUPS_8_10"
+} as const;
+
+const MINOR_TITLE_KEYS = {
+  ACE: "prompt.ace.title",
+  ENEMY_FIGHT: "prompt.enemyFight.title",
+  SWORDS_AMBUSH_BLOCK: "prompt.swordsAmbush.title",
+  CUPS_8_10: "prompt.cups810.title"
+} as const;
+
+function minorOptionLabelKey(action: LegalAction): string {
+  switch (action.type) {
+    case "ACE_CHOICE":
+      return `prompt.ace.${action.optionId}`;
+    case "ENEMY_FIGHT_CHOICE":
+      return `prompt.enemyFight.${action.enemyMode}`;
+    case "SWORDS_AMBUSH_BLOCK_CHOICE":
+      return action.block ? "prompt.swordsAmbush.block" : "prompt.swordsAmbush.noBlock";
+    case "CUPS_8_10_CHOICE":
+      return `prompt.cups810.${action.cupsChoice}`;
+    default:
+      return `action.${action.type}`;
+  }
+}
+
+function toOption(labelKey: string, action: LegalAction): PromptOption {
+  const targetSlot = "slotIndex" in action && action.slotIndex !== undefined ? action.slotIndex : null;
+  return { labelKey, action, targetSlot };
+}
+
+function targetSlotsOf(options: PromptOption[]): number[] {
+  return [...new Set(options.flatMap((o) => (o.targetSlot === null ? [] : [o.targetSlot])))].sort((a, b) => a - b);
+}
+
+function getMajorPromptDescriptor(state: RunState, legal: LegalAction[]): PromptDescriptor | null {
+  const prompt = getMajorPrompt(state);
+  if (!prompt) return null;
+
+  if (prompt.kind === "REORDER_TOP3") {
+    const deck = state.floor.bossMode ? state.floor.bossDeck : state.decks.minorDeck;
+    return { kind: "MAJOR_REORDER_TOP3", titleKey: "prompt.reorderTop3.title", majorId: prompt.majorId, cardIds: (deck ?? []).slice(0, 3) };
+  }
+  if (prompt.kind === "REORDER_ROOM4") {
+    return { kind: "MAJOR_REORDER_ROOM4", titleKey: "prompt.reorderRoom4.title", majorId: prompt.majorId, cardIds: [...state.room.slots] };
+  }
+
+  if (prompt.kind === "SELECT_TARGET") {
+    const options = legal.map((a) => toOption("prompt.selectTarget.option", a));
+    return { kind: "MAJOR_SELECT_TARGET", titleKey: "major.selectTarget", majorId: prompt.majorId, options, targetSlots: [...prompt.candidates] };
+  }
+
+  if (prompt.kind === "CHOICE") {
+    // CHOICE option ids are the content label keys.
+    const options = legal.map((a) => toOption(a.type === "USE_MAJOR_GIFT" && a.optionId !== undefined ? a.optionId : `action.${a.type}`, a));
+    return { kind: "MAJOR_CHOICE", titleKey: prompt.promptKey, majorId: prompt.majorId, options, targetSlots: [] };
+  }
+
+  // BARGAIN: duplicate pay/takeDamage options collapse to one action, labelled by the first matching content option.
+  const labelKeys = findPromptEffect(prompt.majorId, prompt.promptKey)?.options?.map((o) => o.labelKey) ?? [];
+  const options = legal.map((a) => {
+    const i = a.type === "BARGAIN_CHOICE" ? prompt.options.indexOf(a.bargainChoice) : -1;
+    return toOption(labelKeys[i] ?? `prompt.bargain.${a.type === "BARGAIN_CHOICE" ? a.bargainChoice : a.type}`, a);
+  });
+  return { kind: "MAJOR_BARGAIN", titleKey: prompt.promptKey, majorId: prompt.majorId, options, targetSlots: [] };
+}
+
+/**
+ * The decision the player currently owes the engine, or null when the state is waiting on ordinary phase actions
+ * (attunement, engage/flee, pre-resolve spending, commit). Options are taken from getLegalActions, so dispatching any
+ * option's `action` is always legal.
+ */
+export function getPendingPrompt(state: RunState, options: ContentOptions = {}): PromptDescriptor | null {
+  return withContent(options.content, () => describePendingPrompt(state));
+}
+
+function describePendingPrompt(state: RunState): PromptDescriptor | null {
+  const legal = getLegalActions(state);
+  if (state.pending.prompt?.kind.startsWith("MAJOR_")) return getMajorPromptDescriptor(state, legal);
+
+  const resolution = state.pending.resolution;
+  if (state.phase !== "ResolveExecute" || !resolution || !legal.length) return null;
+  const first = legal[0]!;
+  if (!(first.type in MINOR_PROMPT_KINDS)) return null;
+  const kind = MINOR_PROMPT_KINDS[first.type as keyof typeof MINOR_PROMPT_KINDS];
+  const options = legal.map((a) => toOption(minorOptionLabelKey(a), a));
+  return { kind, titleKey: MINOR_TITLE_KEYS[kind], cardId: resolution.cardId, slotIndex: resolution.slotIndex, options, targetSlots: targetSlotsOf(options) };
+}
@@ -0,0 +1,100 @@
+import { readFileSync } from "node:fs";
+
+import { beforeAll, describe, expect, it } from "vitest";
+
+import { loadContent } from "./content.js";
+import { formatReplayDivergence, replayActionLog, verifyActionLog } from "./replay.js";
+import type { ActionLog } from "./replay.js";
+
+function corpusRuns(): ActionLog[] {
+  return JSON.parse(readFileSync(new URL("../../../replays/corpus_v1.json", import.meta.url), "utf8")).runs;
+}
+
+function longRun(): ActionLog {
+  return structuredClone(corpusRuns().find((r) => (r.checkpoints?.length ?? 0) >= 3)!);
+}
+
+beforeAll(() => {
+  const majors = JSON.parse(readFileSync(new URL("../../game-data/content/majors.json", import.meta.url), "utf8"));
+  const strings = JSON.parse(readFileSync(new URL("../../game-data/content/strings.en.json", import.meta.url), "utf8"));
+  loadContent({ majors, strings });
+});
+
+describe("Replay verification", () => {
+  it("verifies every checkpoint of a matching log", async () => {
+    const log = longRun();
+    const result = await verifyActionLog(log);
+    expect(result.ok).toBe(true);
+    if (result.ok) expect(result.checkpointsVerified).toBe(log.checkpoints!.length);
+  });
+
+  it("stops at the first mismatching checkpoint with a field-level report", async () => {
+    const log = longRun();
+    const checkpoints = log.checkpoints!;
+    const bad = checkpoints[1]!;
+    bad.stateHash = "0".repeat(64);
+    checkpoints[2]!.stateHash = "f".repeat(64);
+
+    const result = await verifyActionLog(log);
+    if (result.ok) throw new Error("expected a divergence");
+    const d = result.divergence;
+    if (d.kind !== "STATE") throw new Error("expected a state divergence");
+    expect(d.stepIndex).toBe(bad.stepIndex);
+    expect(d.action).toEqual(log.actions[bad.stepIndex]);
+    expect(d.expectedHash).toBe("0".repeat(64));
+    expect(d.actualHash).toBe(result.hashesByStep.get(bad.stepIndex));
+    expect(d.lastVerifiedStepIndex).toBe(checkpoints[0]!.stepIndex);
+    expect(d.changesSinceVerified.length).toBeGreaterThan(0);
+    expect(d.changesSinceVerified.every((c) => c.path.length > 0)).toBe(true);
+    expect(result.hashesByStep.has(bad.stepIndex + 1)).toBe(false);
+    expect(formatReplayDivergence(d)).toContain(`Replay diverged at step ${bad.stepIndex}`);
+  });
+
+  it("pinpoints the step where a tampered action changes the outcome", async () => {
+    const log = structuredClone(corpusRuns()[0]!);
+    const reference = await verifyActionLog(log);
+    if (!reference.ok) throw new Error("reference log should verify");
+    log.checkpoints = [...reference.hashesByStep].map(([stepIndex, stateHash]) => ({ stepIndex, stateHash }));
+    const commit = log.actions.findIndex((a) => a.type === "COMMIT_RESOLVE");
+    log.actions[commit] = { type: "COMMIT_RESOLVE", slotIndex: 3 };
+
+    const result = await verifyActionLog(log);
+    if (result.ok || result.divergence.kind !== "STATE") throw new Error("expected a state divergence");
+    expect(result.divergence.stepIndex).toBe(commit);
+    expect(result.divergence.lastVerifiedStepIndex).toBe(commit - 1);
+    expect(result.divergence.changesSinceVerified.map((c) => c.path)).toContain("room.resolvedMask[3]");
+  });
+
+  it("verifies a recorded event stream and reports the first event that differs", async () => {
+    const log = longRun();
+    log.events = (await replayActionLog(log)).events;
+    const reference = await verifyActionLog(structuredClone(log), { verifyEvents: true });
+    expect(reference.ok).toBe(true);
+
+    const step = log.events.findIndex((events, i) => i > 0 && events.length > 1);
+    const dropped = log.events[step]!.pop()!;
+    const result = await verifyActionLog(log, { verifyEvents: true });
+    if (result.ok || result.divergence.kind !== "EVENTS") throw new Error("expected an event divergence");
+    expect(result.divergence).toMatchObject({ stepIndex: step, eventIndex: dropped.seq, expected: null });
+    expect(result.divergence.actual).toEqual(dropped);
+    expect(formatReplayDivergence(result.divergence)).toContain(`Replay events diverged at step ${step}`);
+
+    log.events[step]!.push({ ...dropped, cause: { kind: "RULE", rule: "ROOM_REFILL", parent: null } });
+    const tampered = await verifyActionLog(log, { verifyEvents: true });
+    expect(tampered.ok).toBe(false);
+    if (!tampered.ok) expect(tampered.divergence).toMatchObject({ kind: "EVENTS", stepIndex: step, eventIndex: dropped.seq });
+  });
+
+  it("requires one recorded event list per action when verifying events", async () => {
+    const log = longRun();
+    await expect(verifyActionLog(log, { verifyEvents: true })).rejects.toThrow("no recorded events");
+    log.events = [[]];
+    await expect(verifyActionLog(log, { verifyEvents: true })).rejects.toThrow("Recorded events cover 1 steps");
+  });
+
+  it("rejects checkpoints past the end of the log", async () => {
+    const log = structuredClone(corpusRuns()[0]!);
+    log.checkpoints = [{ stepIndex: log.actions.length, stateHash: "0".repeat(64) }];
+    await expect(verifyActionLog(log)).rejects.toThrow("past the end of the action log");
+  });
+});
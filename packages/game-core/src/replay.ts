@@ -1,41 +1,201 @@
-import type { EngineConfig, LegalAction, RunState } from "./types.js";
-import { applyAction, createRun } from "./engine.js";
-import { hashRunState } from "./stateHash.js";
+import type { ApplyActionOptions, EngineConfig, EngineResult, GameEvent, LegalAction, RunState } from "./types.js";
+import { applyAction, startRun } from "./engine.js";
+import { isEngineError } from "./errors.js";
+import { DEFAULT_RNG_ALGO } from "./rng/registry.js";
+import type { RngAlgo } from "./rng/registry.js";
+import type { SeedDerivation, SeedInput } from "./rng/seed.js";
+import { diffRunState, formatStateChange } from "./stateDiff.js";
+import type { StateChange } from "./stateDiff.js";
+import { createRunStateHasher, stableStringify } from "./stateHash.js";
+import { assertCardConservation } from "./zoneAudit.js";
 
 export type ActionLogHeader = {
   engineVersion: string;
   contentVersion: string;
   specVersion: "v1.1";
   createdAtUTC: string;
+  // Absent from logs written before RNG algorithms were selectable; those ran on DEFAULT_RNG_ALGO (xorshift32).
+  rngAlgo?: RngAlgo;
 };
 
-export type StartRunAction = { type: "START_RUN"; seed: number; runLengthTarget: 7 | 14 | 21 };
+// `seedDerivation` is absent from logs written before seeds were derived; those replay with the legacy derivation (0).
+export type StartRunAction = { type: "START_RUN"; seed: SeedInput; runLengthTarget: 7 | 14 | 21; seedDerivation?: SeedDerivation };
 
 export type ActionLog = {
   header: ActionLogHeader;
-  seed: number;
+  seed: SeedInput;
   actions: Array<StartRunAction | LegalAction>;
   checkpoints?: Array<{ stepIndex: number; stateHash: string }>;
+  // Events each action produced, one entry per action (index 0 is START_RUN). Checked by replays with verifyEvents.
+  events?: GameEvent[][];
 };
 
-export async function replayActionLog(log: ActionLog): Promise<{ endState: RunState; hashesByStep: Map<number, string> }> {
+export type ReplayOptions = ApplyActionOptions & {
+  // Re-derive every step's events and fail on the first one that differs from the recorded stream.
+  verifyEvents?: boolean;
+};
+
+export type StateDivergence = {
+  kind: "STATE";
+  stepIndex: number;
+  action: StartRunAction | LegalAction;
+  expectedHash: string;
+  actualHash: string;
+  // Last checkpoint that matched, or null when the very first checkpoint diverged.
+  lastVerifiedStepIndex: number | null;
+  // What the replay changed in the canonical state between the last verified step (or the START_RUN state) and the
+  // diverging step. Logs record hashes, not states, so this is not an expected-versus-actual diff: the split is one of
+  // these changes, listed alongside every legitimate one made over the same steps.
+  changesSinceVerified: StateChange[];
+};
+
+export type EventDivergence = {
+  kind: "EVENTS";
+  stepIndex: number;
+  action: StartRunAction | LegalAction;
+  // Position (seq) of the first event that differs; null on one side when that step emitted fewer events.
+  eventIndex: number;
+  expected: GameEvent | null;
+  actual: GameEvent | null;
+};
+
+export type ReplayDivergence = StateDivergence | EventDivergence;
+
+export type ReplayVerification =
+  | { ok: true; endState: RunState; hashesByStep: Map<number, string>; checkpointsVerified: number }
+  | { ok: false; divergence: ReplayDivergence; hashesByStep: Map<number, string> };
+
+function startReplay(log: ActionLog, options: ApplyActionOptions): EngineResult {
   if (!log.actions.length) throw new Error("Action log missing actions");
   const first = log.actions[0];
   if (!first || (first as any).type !== "START_RUN") throw new Error("Action log must start with START_RUN");
   const start = first as StartRunAction;
 
-  const config: EngineConfig = { seed: start.seed, runLengthTarget: start.runLengthTarget };
-  let state = createRun(config);
+  const config: EngineConfig = {
+    seed: start.seed,
+    runLengthTarget: start.runLengthTarget,
+    seedDerivation: start.seedDerivation ?? 0,
+    rngAlgo: log.header.rngAlgo ?? DEFAULT_RNG_ALGO,
+    ...(options.content ? { content: options.content } : {})
+  };
+  const started = startRun(config);
+  if (options.strict) assertCardConservation(started.nextState, "START_RUN");
+  return started;
+}
+
+// Engine errors raised while replaying carry the index of the rejected action.
+function applyLoggedAction(state: RunState, log: ActionLog, stepIndex: number, options: ApplyActionOptions): EngineResult {
+  try {
+    return applyAction(state, log.actions[stepIndex] as LegalAction, options);
+  } catch (err) {
+    if (isEngineError(err)) err.context.stepIndex = stepIndex;
+    throw err;
+  }
+}
+
+function findEventDivergence(log: ActionLog, stepIndex: number, actual: GameEvent[]): EventDivergence | null {
+  const expected = log.events![stepIndex]!;
+  for (let i = 0; i < Math.max(expected.length, actual.length); i += 1) {
+    const e = expected[i] ?? null;
+    const a = actual[i] ?? null;
+    if (e && a && stableStringify(e) === stableStringify(a)) continue;
+    return { kind: "EVENTS", stepIndex, action: log.actions[stepIndex]!, eventIndex: i, expected: e, actual: a };
+  }
+  return null;
+}
 
+// The re-derived events of every step come back in `events`, ready to be recorded into the log.
+export async function replayActionLog(
+  log: ActionLog,
+  options: ApplyActionOptions = {}
+): Promise<{ endState: RunState; hashesByStep: Map<number, string>; events: GameEvent[][] }> {
+  const started = startReplay(log, options);
+  let state = started.nextState;
+  const events = [started.events];
+
+  const hasher = createRunStateHasher();
   const hashesByStep = new Map<number, string>();
-  hashesByStep.set(0, await hashRunState(state));
+  hashesByStep.set(0, hasher.hash(state));
 
   for (let i = 1; i < log.actions.length; i += 1) {
-    const a = log.actions[i] as LegalAction;
-    state = applyAction(state, a).nextState;
-    hashesByStep.set(i, await hashRunState(state));
+    const result = applyLoggedAction(state, log, i, options);
+    state = result.nextState;
+    events.push(result.events);
+    hashesByStep.set(i, hasher.hash(state));
+  }
+
+  return { endState: state, hashesByStep, events };
+}
+
+/**
+ * Replays `log` while checking each of its checkpoints as the step is reached, stopping at the first mismatch.
+ * Checkpoints pointing past the last action are rejected rather than silently skipped. With `verifyEvents`, each
+ * step's events are also compared with the recorded stream before its checkpoint is.
+ */
+export async function verifyActionLog(log: ActionLog, options: ReplayOptions = {}): Promise<ReplayVerification> {
+  const expected = new Map<number, string>();
+  for (const cp of log.checkpoints ?? []) {
+    if (cp.stepIndex >= log.actions.length) throw new Error(`Checkpoint at step ${cp.stepIndex} is past the end of the action log`);
+    expected.set(cp.stepIndex, cp.stateHash);
+  }
+  if (options.verifyEvents) {
+    if (!log.events) throw new Error("Action log has no recorded events to verify");
+    if (log.events.length !== log.actions.length) throw new Error(`Recorded events cover ${log.events.length} steps but the action log has ${log.actions.length}`);
+  }
+
+  let step = startReplay(log, options);
+  let state = step.nextState;
+  let verified = { stepIndex: null as number | null, state };
+  const hasher = createRunStateHasher();
+  const hashesByStep = new Map<number, string>();
+
+  for (let i = 0; i < log.actions.length; i += 1) {
+    if (i > 0) {
+      step = applyLoggedAction(state, log, i, options);
+      state = step.nextState;
+    }
+    if (options.verifyEvents) {
+      const divergence = findEventDivergence(log, i, step.events);
+      if (divergence) return { ok: false, divergence, hashesByStep };
+    }
+
+    const actualHash = hasher.hash(state);
+    hashesByStep.set(i, actualHash);
+
+    const expectedHash = expected.get(i);
+    if (expectedHash === undefined) continue;
+    if (expectedHash !== actualHash) {
+      const divergence: StateDivergence = {
+        kind: "STATE",
+        stepIndex: i,
+        action: log.actions[i]!,
+        expectedHash,
+        actualHash,
+        lastVerifiedStepIndex: verified.stepIndex,
+        changesSinceVerified: diffRunState(verified.state, state)
+      };
+      return { ok: false, divergence, hashesByStep };
+    }
+    verified = { stepIndex: i, state };
   }
 
-  return { endState: state, hashesByStep };
+  return { ok: true, endState: state, hashesByStep, checkpointsVerified: expected.size };
 }
 
+export function formatReplayDivergence(d: ReplayDivergence): string {
+  if (d.kind === "EVENTS") {
+    const show = (e: GameEvent | null) => (e ? stableStringify(e) : "nothing");
+    return [
+      `Replay events diverged at step ${d.stepIndex} (${d.action.type}), event ${d.eventIndex}:`,
+      `  recorded: ${show(d.expected)}`,
+      `  replayed: ${show(d.actual)}`
+    ].join("\n");
+  }
+  const since = d.lastVerifiedStepIndex === null ? "START_RUN" : `step ${d.lastVerifiedStepIndex}`;
+  const lines = [
+    `Replay diverged at step ${d.stepIndex} (${d.action.type}): expected ${d.expectedHash}, got ${d.actualHash}`,
+    `Replayed changes since ${since} (one of them is the split):`,
+    ...d.changesSinceVerified.map((c) => `  ${formatStateChange(c)}`)
+  ];
+  return lines.join("\n");
+}
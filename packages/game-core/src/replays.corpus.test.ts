@@ -4,7 +4,7 @@ import Ajv from "ajv/dist/2020.js";
 import { beforeAll, describe, expect, it } from "vitest";
 
 import { loadContent } from "./content.js";
-import { replayActionLog } from "./replay.js";
+import { formatReplayDivergence, verifyActionLog } from "./replay.js";
 import type { ActionLog } from "./replay.js";
 
 type CorpusFile = {
@@ -24,11 +24,12 @@ beforeAll(() => {
 });
 
 describe("Phase F replay corpus", () => {
-  it("contains 100+ runs and all runs match checkpoints", async () => {
+  it("contains 100+ runs and all runs match checkpoints and recorded events", async () => {
     const corpus = JSON.parse(readFileSync(new URL("../../../replays/corpus_v1.json", import.meta.url), "utf8")) as CorpusFile;
     expect(corpus.format).toBe("fg-replay-corpus");
     expect(Array.isArray(corpus.runs)).toBe(true);
     expect(corpus.runs.length).toBeGreaterThanOrEqual(100);
+    expect(corpus.runs.filter((r) => r.events).length).toBeGreaterThan(0);
 
     const schema = JSON.parse(readFileSync(new URL("../../game-data/schemas/action_log.schema.json", import.meta.url), "utf8"));
     const ajv = new Ajv({ strict: false, allErrors: true });
@@ -39,11 +40,8 @@ describe("Phase F replay corpus", () => {
       if (!ok) throw new Error(`Action log schema validation failed: ${ajv.errorsText(validate.errors)}`);
 
       const run = runUnknown as ActionLog;
-      const replay = await replayActionLog(run);
-      for (const cp of run.checkpoints ?? []) {
-        const got = replay.hashesByStep.get(cp.stepIndex);
-        expect(got).toBe(cp.stateHash);
-      }
+      const result = await verifyActionLog(run, { strict: true, verifyEvents: Boolean(run.events) });
+      if (!result.ok) throw new Error(`Corpus run seed=${run.seed}: ${formatReplayDivergence(result.divergence)}`);
     }
   }, 60_000);
 });
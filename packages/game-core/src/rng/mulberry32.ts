@@ -0,0 +1,20 @@
+// Full 2^32 period and passes far more of the usual statistical batteries than xorshift32, still from a uint32 state.
+export class Mulberry32 {
+  #state: number;
+
+  constructor(seed: number) {
+    this.#state = seed >>> 0;
+  }
+
+  get state(): number {
+    return this.#state;
+  }
+
+  nextUint32(): number {
+    this.#state = (this.#state + 0x6d2b79f5) >>> 0;
+    let t = this.#state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return (t ^ (t >>> 14)) >>> 0;
+  }
+}
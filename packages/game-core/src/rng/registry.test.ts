@@ -0,0 +1,95 @@
+import { readFileSync } from "node:fs";
+
+import { beforeAll, describe, expect, it } from "vitest";
+
+import { loadContent } from "../content.js";
+import { applyAction, createRun, getLegalActions } from "../engine.js";
+import { IllegalActionError } from "../errors.js";
+import { replayActionLog } from "../replay.js";
+import type { ActionLog } from "../replay.js";
+import { computeSaveChecksum, createSaveBlob, deserialize, serialize } from "../save.js";
+import { hashRunState } from "../stateHash.js";
+import { DEFAULT_RNG_ALGO, RNG_ALGOS, createRng } from "./registry.js";
+import type { RngAlgo } from "./registry.js";
+
+beforeAll(() => {
+  const majors = JSON.parse(readFileSync(new URL("../../../game-data/content/majors.json", import.meta.url), "utf8"));
+  const strings = JSON.parse(readFileSync(new URL("../../../game-data/content/strings.en.json", import.meta.url), "utf8"));
+  loadContent({ majors, strings });
+});
+
+const VECTORS: Record<RngAlgo, { seed: number; outputs: number[] }[]> = {
+  xorshift32: [
+    { seed: 1, outputs: [270369, 67634689, 2647435461, 307599695, 2398689233] },
+    { seed: 0x9941cd2d, outputs: [3160643263, 406203717, 1849856714, 3210892327, 1228870740] }
+  ],
+  mulberry32: [
+    { seed: 1, outputs: [2693262067, 11749833, 2265367787, 4213581821, 4159151403] },
+    { seed: 0x9941cd2d, outputs: [2147436195, 2537693301, 3013814606, 1512974116, 572663024] }
+  ]
+};
+
+function logFor(rngAlgo: RngAlgo | undefined): ActionLog {
+  return {
+    header: { engineVersion: "0.1.0", contentVersion: "test", specVersion: "v1.1", createdAtUTC: "2025-12-27T00:00:00.000Z", ...(rngAlgo ? { rngAlgo } : {}) },
+    seed: 7,
+    actions: [{ type: "START_RUN", seed: 7, runLengthTarget: 7, seedDerivation: 2 }]
+  };
+}
+
+describe("RNG registry", () => {
+  it("produces the locked sequences for every algorithm", () => {
+    expect(Object.keys(VECTORS).sort()).toEqual([...RNG_ALGOS].sort());
+    for (const algo of RNG_ALGOS) {
+      for (const { seed, outputs } of VECTORS[algo]) {
+        const rng = createRng(algo, seed);
+        expect(outputs.map(() => rng.nextUint32()), `${algo} seed=${seed}`).toEqual(outputs);
+      }
+    }
+  });
+
+  it("keeps xorshift32 as the default", async () => {
+    expect(DEFAULT_RNG_ALGO).toBe("xorshift32");
+    const s = createRun({ seed: 7, runLengthTarget: 7 });
+    expect(s.rng.algo).toBe("xorshift32");
+    expect(await hashRunState(s)).toBe(await hashRunState(createRun({ seed: 7, runLengthTarget: 7, rngAlgo: "xorshift32" })));
+  });
+
+  it("deals a different run per algorithm from the same seed", () => {
+    const a = createRun({ seed: 7, runLengthTarget: 7, rngAlgo: "xorshift32" });
+    const b = createRun({ seed: 7, runLengthTarget: 7, rngAlgo: "mulberry32" });
+    expect(b.rng.algo).toBe("mulberry32");
+    expect(b.decks.minorDeck).not.toEqual(a.decks.minorDeck);
+  });
+
+  it("replays with the algorithm the log header recorded, and xorshift32 when it recorded none", async () => {
+    for (const algo of [undefined, ...RNG_ALGOS]) {
+      const replayed = await replayActionLog(logFor(algo));
+      expect(replayed.endState.rng.algo).toBe(algo ?? "xorshift32");
+      expect(replayed.hashesByStep.get(0)).toBe(await hashRunState(createRun({ seed: 7, runLengthTarget: 7, rngAlgo: algo ?? "xorshift32" })));
+    }
+  });
+
+  it("keeps the algorithm through a save and rejects blobs whose log disagrees", async () => {
+    const log = logFor("mulberry32");
+    let state = createRun({ seed: 7, runLengthTarget: 7, rngAlgo: "mulberry32" });
+    for (let i = 0; i < 10; i += 1) {
+      const action = getLegalActions(state)[0]!;
+      state = applyAction(state, action).nextState;
+      log.actions.push(action);
+    }
+    const blob = await createSaveBlob(state, log);
+    expect(blob.header.rngAlgo).toBe("mulberry32");
+    expect((await deserialize(serialize(blob))).state.rng.algo).toBe("mulberry32");
+
+    const mismatched = JSON.parse(serialize(blob));
+    delete mismatched.actionLog.header.rngAlgo;
+    mismatched.checksum = await computeSaveChecksum(mismatched);
+    await expect(deserialize(JSON.stringify(mismatched))).rejects.toThrow("does not match action log");
+  });
+
+  it("rejects unknown algorithms", () => {
+    expect(() => createRng("pcg32" as RngAlgo, 1)).toThrow(IllegalActionError);
+    expect(() => createRun({ seed: 7, runLengthTarget: 7, rngAlgo: "pcg32" as RngAlgo })).toThrow(IllegalActionError);
+  });
+});
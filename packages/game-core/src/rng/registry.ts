@@ -0,0 +1,27 @@
+import { IllegalActionError } from "../errors.js";
+import { Mulberry32 } from "./mulberry32.js";
+import { Xorshift32 } from "./xorshift32.js";
+
+// What the engine draws from. The whole generator state is one uint32, so it fits RngState and the per-purpose streams.
+export type Rng = { readonly state: number; nextUint32(): number };
+
+const RNG_FACTORIES = {
+  xorshift32: (state: number): Rng => new Xorshift32(state),
+  mulberry32: (state: number): Rng => new Mulberry32(state)
+};
+
+export type RngAlgo = keyof typeof RNG_FACTORIES;
+
+export const RNG_ALGOS = Object.keys(RNG_FACTORIES) as RngAlgo[];
+
+// The parity reference: logs without a recorded algorithm were written with it.
+export const DEFAULT_RNG_ALGO: RngAlgo = "xorshift32";
+
+export function isRngAlgo(value: unknown): value is RngAlgo {
+  return typeof value === "string" && Object.hasOwn(RNG_FACTORIES, value);
+}
+
+export function createRng(algo: RngAlgo, state: number): Rng {
+  if (!isRngAlgo(algo)) throw new IllegalActionError("ILLEGAL_ACTION", `Unknown RNG algorithm: ${String(algo)}`, { actionType: "START_RUN" });
+  return RNG_FACTORIES[algo](state);
+}
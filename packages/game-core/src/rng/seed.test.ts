@@ -0,0 +1,66 @@
+import { readFileSync } from "node:fs";
+
+import { beforeAll, describe, expect, it } from "vitest";
+
+import { loadContent } from "../content.js";
+import { createRun } from "../engine.js";
+import { IllegalActionError } from "../errors.js";
+import { replayActionLog } from "../replay.js";
+import type { ActionLog } from "../replay.js";
+import { hashRunState } from "../stateHash.js";
+import { SEED_DERIVATION_VERSION, deriveSeed } from "./seed.js";
+
+beforeAll(() => {
+  const majors = JSON.parse(readFileSync(new URL("../../../game-data/content/majors.json", import.meta.url), "utf8"));
+  const strings = JSON.parse(readFileSync(new URL("../../../game-data/content/strings.en.json", import.meta.url), "utf8"));
+  loadContent({ majors, strings });
+});
+
+describe("Seed derivation", () => {
+  it("produces the locked states for version 1", () => {
+    expect([0, 1, 2, -1, 2 ** 32, "MOON-TOWER-42"].map((seed) => deriveSeed(seed, 1))).toEqual([
+      0xaa3e5b61, 0x9941cd2d, 0xc1a705d0, 0x1c82fd7a, 0x6f0b28e6, 0x14334683
+    ]);
+  });
+
+  it("keeps the legacy derivation as the raw uint32", () => {
+    expect(deriveSeed(0, 0)).toBe(0);
+    expect(deriveSeed(-1, 0)).toBe(0xffffffff);
+    expect(deriveSeed(2 ** 32 + 5, 0)).toBe(5);
+    expect(() => deriveSeed("MOON-TOWER-42", 0)).toThrow(IllegalActionError);
+  });
+
+  it("never derives 0 and separates seeds that differ only in high bits", () => {
+    for (let seed = -50; seed <= 50; seed += 1) expect(deriveSeed(seed, 1)).not.toBe(0);
+    expect(deriveSeed(5, 1)).not.toBe(deriveSeed(2 ** 32 + 5, 1));
+    expect(deriveSeed(5, 1)).not.toBe(deriveSeed(-(2 ** 32) + 5, 1));
+  });
+
+  it("reads strings trimmed and case-insensitively, and integer strings as integers", () => {
+    expect(deriveSeed("  moon-tower-42 ", 1)).toBe(deriveSeed("MOON-TOWER-42", 1));
+    expect(deriveSeed("42", 1)).toBe(deriveSeed(42, 1));
+    expect(deriveSeed("MOON-TOWER-42", 1)).not.toBe(deriveSeed("MOON-TOWER-43", 1));
+    for (const bad of ["", "   ", 1.5, Number.NaN, 2 ** 60]) expect(() => deriveSeed(bad, 1)).toThrow(IllegalActionError);
+  });
+
+  it("shuffles and orients the deck for seed 0", () => {
+    const s = createRun({ seed: 0, runLengthTarget: 7 });
+    const cards = Object.values(s.decks.cards.minors);
+    expect(cards.some((c) => c.orientation === "reversed")).toBe(true);
+    expect(s.decks.minorDeck).not.toEqual([...s.decks.minorDeck].sort());
+    expect(s.rng.state).not.toBe(0);
+  });
+
+  it("replays START_RUN without a recorded derivation the legacy way and with one the current way", async () => {
+    const log = (start: ActionLog["actions"][number]): ActionLog => ({
+      header: { engineVersion: "0.1.0", contentVersion: "test", specVersion: "v1.1", createdAtUTC: "2025-12-27T00:00:00.000Z" },
+      seed: 7,
+      actions: [start]
+    });
+    const legacy = await replayActionLog(log({ type: "START_RUN", seed: 7, runLengthTarget: 7 }));
+    const current = await replayActionLog(log({ type: "START_RUN", seed: 7, runLengthTarget: 7, seedDerivation: SEED_DERIVATION_VERSION }));
+    expect(legacy.hashesByStep.get(0)).toBe(await hashRunState(createRun({ seed: 7, runLengthTarget: 7, seedDerivation: 0 })));
+    expect(current.hashesByStep.get(0)).toBe(await hashRunState(createRun({ seed: 7, runLengthTarget: 7 })));
+    expect(current.hashesByStep.get(0)).not.toBe(legacy.hashesByStep.get(0));
+  });
+});
@@ -0,0 +1,63 @@
+import { IllegalActionError } from "../errors.js";
+
+// A run seed as players and logs give it: an integer, or a human string such as "MOON-TOWER-42".
+export type SeedInput = number | string;
+
+// 0: legacy, the integer seed is used as the xorshift32 state as is (seed 0 never shuffles).
+// 1: integers and strings are mixed into a non-zero uint32.
+// 2: as 1, and the run draws from independent per-purpose streams derived from that seed (see streams.ts).
+export type SeedDerivation = 0 | 1 | 2;
+
+export const SEED_DERIVATION_VERSION: SeedDerivation = 2;
+
+// Any non-zero constant works; xorshift32 is stuck at 0 forever.
+const ZERO_SEED_REPLACEMENT = 0x6d2b79f5;
+
+// murmur3 finalizer: every input bit affects every output bit.
+export function mix32(h: number): number {
+  h ^= h >>> 16;
+  h = Math.imul(h, 0x85ebca6b);
+  h ^= h >>> 13;
+  h = Math.imul(h, 0xc2b2ae35);
+  h ^= h >>> 16;
+  return h >>> 0;
+}
+
+export function fnv1a32(bytes: Uint8Array): number {
+  let h = 0x811c9dc5;
+  for (const b of bytes) h = Math.imul(h ^ b, 0x01000193);
+  return h >>> 0;
+}
+
+function invalidSeed(message: string) {
+  return new IllegalActionError("ILLEGAL_ACTION", message, { actionType: "START_RUN" });
+}
+
+function deriveIntegerSeed(seed: number): number {
+  const lo = seed >>> 0;
+  const hi = Math.floor(seed / 0x1_0000_0000) >>> 0;
+  return mix32(mix32(lo ^ 0x9e3779b9) ^ hi);
+}
+
+/**
+ * The xorshift32 starting state for `seed`. Strings are trimmed and case-insensitive, and strings that spell an integer
+ * give the same run as that integer. Versions 1 and 2 never return 0.
+ */
+export function deriveSeed(seed: SeedInput, derivation: SeedDerivation): number {
+  if (derivation === 0) {
+    if (typeof seed !== "number" || !Number.isInteger(seed)) throw invalidSeed("Legacy seed derivation only accepts integer seeds");
+    return seed >>> 0;
+  }
+
+  let h: number;
+  if (typeof seed === "number") {
+    if (!Number.isSafeInteger(seed)) throw invalidSeed(`Seed must be a safe integer, got ${seed}`);
+    h = deriveIntegerSeed(seed);
+  } else {
+    const text = seed.trim().toUpperCase();
+    if (!text) throw invalidSeed("Seed string is empty");
+    const asInteger = /^-?\d+$/.test(text) ? Number(text) : NaN;
+    h = Number.isSafeInteger(asInteger) ? deriveIntegerSeed(asInteger) : mix32(fnv1a32(new TextEncoder().encode(text)));
+  }
+  return h === 0 ? ZERO_SEED_REPLACEMENT : h;
+}
@@ -0,0 +1,84 @@
+import { readFileSync } from "node:fs";
+
+import { beforeAll, describe, expect, it } from "vitest";
+
+import { loadContent } from "../content.js";
+import { applyAction, createRun, getLegalActions } from "../engine.js";
+import type { CardId, RunState } from "../types.js";
+import { validateState } from "../validateState.js";
+import { RNG_STREAMS, deriveStreamSeed } from "./streams.js";
+
+beforeAll(() => {
+  const majors = JSON.parse(readFileSync(new URL("../../../game-data/content/majors.json", import.meta.url), "utf8"));
+  const strings = JSON.parse(readFileSync(new URL("../../../game-data/content/strings.en.json", import.meta.url), "utf8"));
+  loadContent({ majors, strings });
+});
+
+function step(s: RunState): RunState {
+  const legal = getLegalActions(s);
+  return applyAction(s, legal.find((a) => a.type === "CHOOSE_ENGAGE") ?? legal.find((a) => a.type === "COMMIT_RESOLVE") ?? legal[0]!).nextState;
+}
+
+// The state one action before the run moves on to floor 2.
+function beforeFloorTwo(seed: number, seedDerivation: 1 | 2): RunState {
+  let s = createRun({ seed, runLengthTarget: 7, seedDerivation });
+  s.player.hp = 999;
+  s.player.maxHp = 999;
+  for (let i = 0; i < 5000; i += 1) {
+    const next = step(s);
+    if (next.floor.floorNumber === 2) return s;
+    s = next;
+  }
+  throw new Error("Floor 2 not reached");
+}
+
+// Makes `s` draw one more RANDOM target than it did and hold one more piece of armor.
+function perturb(s: RunState): RunState {
+  const out = structuredClone(s);
+  if (out.rng.streams) out.rng.streams.targets = deriveStreamSeed(out.rng.streams.targets, "targets", 1);
+  else out.rng.state = deriveStreamSeed(out.rng.state, "targets", 1);
+  const cardId = out.decks.minorDeck.find((id) => id.startsWith("cups_") && out.decks.cards.minors[id]!.rank.kind === "number")!;
+  out.decks.minorDeck = out.decks.minorDeck.filter((id) => id !== cardId);
+  out.player.armor = { cardId, value: 2 };
+  return out;
+}
+
+function floorTwoOrder(s: RunState, without: Set<CardId>): CardId[] {
+  const next = step(s);
+  expect(next.floor.floorNumber).toBe(2);
+  return next.decks.minorDeck.filter((id) => !without.has(id));
+}
+
+describe("RNG streams", () => {
+  it("derive distinct non-zero states per stream and key", () => {
+    const seen = new Set<number>();
+    for (const stream of RNG_STREAMS) {
+      for (const key of [0, 1, 2]) seen.add(deriveStreamSeed(0x9941cd2d, stream, key));
+    }
+    expect(seen.size).toBe(RNG_STREAMS.length * 3);
+    expect(seen.has(0)).toBe(false);
+  });
+
+  it("keep the next floor's deck order independent of random targets and equipment", () => {
+    for (const seed of [11, 12]) {
+      const s = beforeFloorTwo(seed, 2);
+      const other = perturb(s);
+      const equipped = new Set([other.player.armor!.cardId, ...[s.player.weapon, s.player.armor, s.player.spell].flatMap((e) => (e ? [e.cardId] : []))]);
+      expect(floorTwoOrder(other, equipped)).toEqual(floorTwoOrder(s, equipped));
+    }
+  }, 60_000);
+
+  it("are absent from single-stream runs, where the same changes reshuffle the next floor", () => {
+    const s = beforeFloorTwo(11, 1);
+    const other = perturb(s);
+    const equipped = new Set([other.player.armor!.cardId]);
+    expect(floorTwoOrder(other, equipped)).not.toEqual(floorTwoOrder(s, equipped));
+  }, 60_000);
+
+  it("are recorded in the run state", () => {
+    const s = createRun({ seed: 11, runLengthTarget: 7 });
+    expect(Object.keys(s.rng.streams!).sort()).toEqual([...RNG_STREAMS].sort());
+    expect(validateState(s)).toEqual([]);
+    expect(createRun({ seed: 11, runLengthTarget: 7, seedDerivation: 1 }).rng.streams).toBeUndefined();
+  });
+});
@@ -0,0 +1,23 @@
+import { fnv1a32, mix32 } from "./seed.js";
+
+// Runs with seed derivation 2+ keep one generator state per purpose, so e.g. an extra RANDOM target pick cannot
+// change which cards later floors deal.
+export const RNG_STREAMS = ["setup", "orientation", "deck", "boss", "targets"] as const;
+
+export type RngStream = (typeof RNG_STREAMS)[number];
+
+export type RngStreams = Record<RngStream, number>;
+
+/**
+ * Starting state of `stream` for a run whose derived seed is `root`. `key` restarts a stream at a point that does not
+ * depend on player choices (the floor number for deck and boss shuffles). Never 0.
+ */
+export function deriveStreamSeed(root: number, stream: RngStream, key = 0): number {
+  const salt = fnv1a32(new TextEncoder().encode(stream));
+  const h = mix32(mix32(root ^ salt) ^ key);
+  return h === 0 ? salt || 1 : h;
+}
+
+export function deriveStreams(root: number): RngStreams {
+  return Object.fromEntries(RNG_STREAMS.map((stream) => [stream, deriveStreamSeed(root, stream)])) as RngStreams;
+}
@@ -1,4 +1,7 @@
-import type { GameEvent, MinorCard, MinorRank, Orientation, RunState } from "./types.js";
+import { InternalEngineError } from "./errors.js";
+import { attributeEvents } from "./events.js";
+import { writable } from "./stateDraft.js";
+import type { GameEventPayload, MinorCard, MinorRank, Orientation, RunState } from "./types.js";
 
 export function isNumbered(rank: MinorRank): rank is Extract<MinorRank, { kind: "number" }> {
   return rank.kind === "number";
@@ -13,7 +16,7 @@ export function computeMinorNumericValue(rank: Extract<MinorRank, { kind: "numbe
 }
 
 export function computeEnemyValue(card: MinorCard, effectiveOrientation: Orientation): number {
-  if (card.rank.kind !== "court") throw new Error("Not a court card");
+  if (card.rank.kind !== "court") throw new InternalEngineError("Not a court card", { cardId: card.id });
   const base = card.rank.face === "page" ? 11 : card.rank.face === "knight" ? 12 : card.rank.face === "queen" ? 13 : 14;
   return effectiveOrientation === "reversed" ? base + 2 : base;
 }
@@ -25,14 +28,24 @@ export function computeEffectiveOrientation(state: RunState, slotIndex: number,
   return eff;
 }
 
-export function applyArmorIfAny(state: RunState, amount: number, events: GameEvent[]): number {
+export function canUseWeaponAgainstEnemy(state: RunState, enemyValue: number): boolean {
+  const weapon = state.player.weapon;
+  if (!weapon) return false;
+  if (state.player.buffs.cheatWeaponNextEnemyFight || state.player.buffs.cheatWeaponThisRoom) return true;
+  if (weapon.lastHelpedDefeatValue === null) return true;
+  if (state.rules.weaponRestrictionMode === "STRICT") return enemyValue < weapon.lastHelpedDefeatValue;
+  return enemyValue <= weapon.lastHelpedDefeatValue;
+}
+
+export function applyArmorIfAny(state: RunState, amount: number, events: GameEventPayload[]): number {
   if (amount <= 0) return 0;
   const armor = state.player.armor;
   if (!armor) return amount;
   const reduced = Math.max(0, amount - armor.value);
   if (reduced !== amount) {
-    state.player.armor = null;
+    writable(state, "player").armor = null;
     events.push({ type: "DISCARD_EQUIPMENT", kind: "armor", cardId: armor.cardId });
+    attributeEvents(events, events.length - 1, { kind: "RULE", rule: "ARMOR_ABSORBED" });
     state.floor.floorDiscard.push(armor.cardId);
   }
   return reduced;
@@ -0,0 +1,152 @@
+import { readFileSync } from "node:fs";
+
+import Ajv from "ajv/dist/2020.js";
+import { beforeAll, describe, expect, it } from "vitest";
+
+import { loadContent } from "./content.js";
+import { applyAction, createRun, getLegalActions } from "./engine.js";
+import { SaveBlobError } from "./errors.js";
+import type { ActionLog } from "./replay.js";
+import { SAVE_VERSION, computeSaveChecksum, createSaveBlob, deserialize, migrateSaveBlob, serialize } from "./save.js";
+import type { SaveMigration } from "./save.js";
+import type { LegalAction, RunState } from "./types.js";
+
+function readSchema(name: string) {
+  return JSON.parse(readFileSync(new URL(`../../game-data/schemas/${name}`, import.meta.url), "utf8"));
+}
+
+beforeAll(() => {
+  const majors = JSON.parse(readFileSync(new URL("../../game-data/content/majors.json", import.meta.url), "utf8"));
+  const strings = JSON.parse(readFileSync(new URL("../../game-data/content/strings.en.json", import.meta.url), "utf8"));
+  loadContent({ majors, strings });
+});
+
+function playRun(seed: number, steps: number): { state: RunState; log: ActionLog } {
+  let state = createRun({ seed, runLengthTarget: 7 });
+  const log: ActionLog = {
+    header: { engineVersion: "0.1.0", contentVersion: "test", specVersion: "v1.1", createdAtUTC: "2025-12-27T00:00:00.000Z" },
+    seed,
+    actions: [{ type: "START_RUN", seed, runLengthTarget: 7 }]
+  };
+  for (let i = 0; i < steps; i += 1) {
+    if (state.phase === "RunVictory" || state.phase === "RunDefeat") break;
+    const legal = getLegalActions(state);
+    const engage = legal.find((a) => a.type === "CHOOSE_ENGAGE");
+    const commit = legal.find((a) => a.type === "COMMIT_RESOLVE");
+    const action: LegalAction = engage ?? commit ?? legal[0]!;
+    log.actions.push(action);
+    state = applyAction(state, action).nextState;
+  }
+  return { state, log };
+}
+
+describe("Save blobs", () => {
+  it("produces schema-conformant blobs", async () => {
+    const { state, log } = playRun(7, 25);
+    const blob = await createSaveBlob(state, log, { createdAtUTC: "2025-12-27T00:00:00.000Z" });
+
+    const ajv = new Ajv({ strict: false, allErrors: true });
+    ajv.addSchema(readSchema("run_state.schema.json"));
+    ajv.addSchema(readSchema("action_log.schema.json"));
+    const validate = ajv.compile(readSchema("save_blob.schema.json"));
+    const ok = validate(JSON.parse(serialize(blob)));
+    if (!ok) throw new Error(`Save blob schema validation failed: ${ajv.errorsText(validate.errors)}`);
+
+    expect(blob.header.saveVersion).toBe(SAVE_VERSION);
+    expect(blob.rngState).toEqual(state.rng);
+    expect(blob.checksum).toMatch(/^[0-9a-f]{64}$/);
+  });
+
+  it("round-trips through serialize/deserialize", async () => {
+    const { state, log } = playRun(11, 40);
+    const blob = await createSaveBlob(state, log);
+    const loaded = await deserialize(serialize(blob));
+    expect(loaded).toEqual(blob);
+
+    const next = getLegalActions(loaded.state)[0];
+    if (next) expect(() => applyAction(loaded.state, next)).not.toThrow();
+  });
+
+  it("rejects corrupted blobs and blobs from newer engines", async () => {
+    const { state, log } = playRun(3, 10);
+    const blob = await createSaveBlob(state, log);
+
+    const tampered = JSON.parse(serialize(blob));
+    tampered.state.player.gold += 100;
+    await expect(deserialize(JSON.stringify(tampered))).rejects.toThrow("checksum mismatch");
+
+    const future = JSON.parse(serialize(blob));
+    future.header.saveVersion = SAVE_VERSION + 1;
+    future.checksum = await computeSaveChecksum(future);
+    await expect(deserialize(JSON.stringify(future))).rejects.toThrow("newer than supported");
+
+    await expect(deserialize("{not json")).rejects.toThrow("not valid JSON");
+  });
+
+  it("rejects blobs whose checksum was removed", async () => {
+    const { state, log } = playRun(3, 10);
+    const tampered = JSON.parse(serialize(await createSaveBlob(state, log)));
+    tampered.state.player.gold += 100;
+
+    for (const checksum of [undefined, null, 42]) {
+      await expect(deserialize(JSON.stringify({ ...tampered, checksum }))).rejects.toThrow("missing checksum");
+    }
+  });
+
+  it("reports malformed blobs as SaveBlobError", async () => {
+    const { state, log } = playRun(3, 10);
+    const valid = JSON.parse(serialize(await createSaveBlob(state, log)));
+    const breakages: ((blob: any) => void)[] = [
+      (b) => delete b.runConfig,
+      (b) => (b.rngState = null),
+      (b) => delete b.actionLog.header,
+      (b) => (b.state = [])
+    ];
+    for (const breakage of breakages) {
+      const blob = structuredClone(valid);
+      breakage(blob);
+      blob.checksum = await computeSaveChecksum(blob);
+      await expect(deserialize(JSON.stringify(blob))).rejects.toThrow(SaveBlobError);
+    }
+  });
+
+  it("migrates v1 saves that kept pending state under debug", async () => {
+    let found: { state: RunState; log: ActionLog } | null = null;
+    for (let steps = 1; steps < 60 && !found; steps += 1) {
+      const run = playRun(7, steps);
+      if (run.state.pending.resolution) found = run;
+    }
+    const { state, log } = found!;
+    const current = await createSaveBlob(state, log);
+
+    const v1 = JSON.parse(serialize(current));
+    const { resolution, prompt, majorPrompt, floorStart } = v1.state.pending;
+    delete v1.state.pending;
+    v1.state.debug = {
+      pendingResolution: resolution,
+      ...(prompt ? { pendingPrompt: prompt, pendingMajorPrompt: majorPrompt } : {}),
+      floorStartForFloorNumber: floorStart.floorNumber,
+      floorStartAttunementChosen: floorStart.attunementChosen,
+      floorStartAppliedFloorStartHook: floorStart.floorStartHookApplied,
+      floorStartAppliedOrderConstraintHook: floorStart.orderConstraintHookApplied
+    };
+    v1.header.saveVersion = 1;
+    v1.checksum = await computeSaveChecksum(v1);
+
+    const loaded = await deserialize(JSON.stringify(v1));
+    expect(loaded.header.saveVersion).toBe(SAVE_VERSION);
+    expect(loaded.state).toEqual(state);
+    expect(loaded.checksum).toBe(current.checksum);
+  });
+
+  it("runs registered migrations in version order", () => {
+    const migrations: SaveMigration[] = [
+      { fromVersion: 2, migrate: (b) => ({ ...b, trail: [...(b.trail as number[]), 2] }) },
+      { fromVersion: 1, migrate: (b) => ({ ...b, trail: [1] }) }
+    ];
+    const migrated = migrateSaveBlob({ header: { saveVersion: 1 } }, migrations, 3);
+    expect(migrated).toEqual({ header: { saveVersion: 3 }, trail: [1, 2] });
+
+    expect(() => migrateSaveBlob({ header: { saveVersion: 1 } }, [], 2)).toThrow("No save migration registered from version 1");
+  });
+});
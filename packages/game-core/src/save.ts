@@ -0,0 +1,150 @@
+import { SaveBlobError } from "./errors.js";
+import type { ActionLog, ActionLogHeader } from "./replay.js";
+import { sha256Hex, stableStringify } from "./stateHash.js";
+import { DEFAULT_RNG_ALGO } from "./rng/registry.js";
+import type { SeedInput } from "./rng/seed.js";
+import type { RngState, RunState } from "./types.js";
+
+// Bump whenever the persisted shape of SaveBlob (or RunState inside it) changes, and register a migration below.
+export const SAVE_VERSION = 2;
+
+export type SaveBlobHeader = ActionLogHeader & { saveVersion: number };
+
+export type SaveBlob = {
+  header: SaveBlobHeader;
+  seed: SeedInput;
+  runConfig: { runLengthTarget: 7 | 14 | 21; fateCap: 10 };
+  rngState: RngState;
+  state: RunState;
+  actionLog: ActionLog;
+  checksum: string;
+};
+
+type RawSaveBlob = Record<string, unknown>;
+
+// Upgrades a blob stored at `fromVersion` to `fromVersion + 1`. Blobs are untyped JSON at this point because their
+// shape is, by definition, not the current SaveBlob.
+export type SaveMigration = { fromVersion: number; migrate: (blob: RawSaveBlob) => RawSaveBlob };
+
+// v1 -> v2: pending prompts, resolution and floor-start progress moved out of the unhashed `state.debug` into `state.pending`.
+function migratePendingOutOfDebug(blob: RawSaveBlob): RawSaveBlob {
+  const state = blob.state;
+  if (!isPlainObject(state)) return blob;
+  const debug = isPlainObject(state.debug) ? state.debug : {};
+  const { pendingResolution, pendingPrompt, pendingMajorPrompt, floorStartForFloorNumber, ...rest } = debug;
+  state.pending = {
+    resolution: pendingResolution ?? null,
+    prompt: pendingPrompt ?? null,
+    majorPrompt: pendingMajorPrompt ?? null,
+    floorStart:
+      typeof floorStartForFloorNumber === "number"
+        ? {
+            floorNumber: floorStartForFloorNumber,
+            attunementChosen: Boolean(rest.floorStartAttunementChosen),
+            floorStartHookApplied: Boolean(rest.floorStartAppliedFloorStartHook),
+            orderConstraintHookApplied: Boolean(rest.floorStartAppliedOrderConstraintHook)
+          }
+        : null
+  };
+  delete rest.floorStartAttunementChosen;
+  delete rest.floorStartAppliedFloorStartHook;
+  delete rest.floorStartAppliedOrderConstraintHook;
+  if (Object.keys(rest).length) state.debug = rest;
+  else delete state.debug;
+  return blob;
+}
+
+export const SAVE_MIGRATIONS: readonly SaveMigration[] = [{ fromVersion: 1, migrate: migratePendingOutOfDebug }];
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function readSaveVersion(blob: RawSaveBlob): number {
+  const header = blob.header;
+  if (!isPlainObject(header)) throw new SaveBlobError("Save blob missing header");
+  const version = header.saveVersion;
+  if (typeof version !== "number" || !Number.isInteger(version) || version < 1) throw new SaveBlobError("Save blob has invalid saveVersion");
+  return version;
+}
+
+// sha256 of the blob with `checksum: null`, so a blob's own checksum never feeds into it.
+export function computeSaveChecksum(blob: Omit<SaveBlob, "checksum"> | RawSaveBlob): Promise<string> {
+  return sha256Hex(stableStringify({ ...blob, checksum: null }));
+}
+
+export function migrateSaveBlob(
+  blob: RawSaveBlob,
+  migrations: readonly SaveMigration[] = SAVE_MIGRATIONS,
+  targetVersion: number = SAVE_VERSION
+): RawSaveBlob {
+  let current = structuredClone(blob);
+  let version = readSaveVersion(current);
+  if (version > targetVersion) throw new SaveBlobError(`Save version ${version} is newer than supported version ${targetVersion}`);
+
+  while (version < targetVersion) {
+    const step = migrations.find((m) => m.fromVersion === version);
+    if (!step) throw new SaveBlobError(`No save migration registered from version ${version}`);
+    current = step.migrate(current);
+    version += 1;
+    (current.header as Record<string, unknown>).saveVersion = version;
+  }
+  return current;
+}
+
+export async function createSaveBlob(state: RunState, actionLog: ActionLog, options: { createdAtUTC?: string } = {}): Promise<SaveBlob> {
+  const first = actionLog.actions[0];
+  if (!first || first.type !== "START_RUN") throw new SaveBlobError("Action log must start with START_RUN");
+
+  const blob: Omit<SaveBlob, "checksum"> = {
+    header: {
+      engineVersion: actionLog.header.engineVersion,
+      contentVersion: actionLog.header.contentVersion,
+      specVersion: "v1.1",
+      saveVersion: SAVE_VERSION,
+      createdAtUTC: options.createdAtUTC ?? new Date().toISOString(),
+      ...(actionLog.header.rngAlgo ? { rngAlgo: actionLog.header.rngAlgo } : {})
+    },
+    seed: actionLog.seed,
+    runConfig: { runLengthTarget: state.runLengthTarget, fateCap: state.fateCap },
+    rngState: structuredClone(state.rng),
+    state: structuredClone(state),
+    actionLog: structuredClone(actionLog)
+  };
+  return { ...blob, checksum: await computeSaveChecksum(blob) };
+}
+
+export function serialize(blob: SaveBlob): string {
+  return JSON.stringify(blob);
+}
+
+export async function deserialize(raw: string): Promise<SaveBlob> {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    throw new SaveBlobError("Save blob is not valid JSON");
+  }
+  if (!isPlainObject(parsed)) throw new SaveBlobError("Save blob must be an object");
+
+  // Every save version is written with a checksum, and it covers the blob as it was written: verify it before any
+  // migration touches it.
+  if (typeof parsed.checksum !== "string") throw new SaveBlobError("Save blob missing checksum");
+  const expected = await computeSaveChecksum(parsed);
+  if (expected !== parsed.checksum) throw new SaveBlobError("Save blob checksum mismatch");
+
+  const storedVersion = readSaveVersion(parsed);
+  const blob = migrateSaveBlob(parsed) as SaveBlob;
+  if (storedVersion !== SAVE_VERSION) blob.checksum = await computeSaveChecksum(blob);
+
+  if (!isPlainObject(blob.state) || !isPlainObject(blob.actionLog)) throw new SaveBlobError("Save blob missing state or actionLog");
+  if (!isPlainObject(blob.runConfig) || !isPlainObject(blob.rngState) || !isPlainObject(blob.actionLog.header)) {
+    throw new SaveBlobError("Save blob missing runConfig, rngState or actionLog header");
+  }
+  if (blob.runConfig.runLengthTarget !== blob.state.runLengthTarget) throw new SaveBlobError("Save blob runConfig does not match state");
+  if (stableStringify(blob.rngState) !== stableStringify(blob.state.rng)) {
+    throw new SaveBlobError("Save blob rngState does not match state");
+  }
+  if ((blob.actionLog.header.rngAlgo ?? DEFAULT_RNG_ALGO) !== blob.rngState.algo) throw new SaveBlobError("Save blob rngState does not match action log");
+  return blob;
+}
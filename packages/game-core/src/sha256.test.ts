@@ -0,0 +1,46 @@
+import { createHash } from "node:crypto";
+
+import { describe, expect, it } from "vitest";
+
+import { Xorshift32 } from "./rng/xorshift32.js";
+import { Sha256, sha256HexSync } from "./sha256.js";
+
+function nodeSha256(text: string) {
+  return createHash("sha256").update(text).digest("hex");
+}
+
+describe("SHA-256", () => {
+  it("matches the FIPS 180-4 examples", () => {
+    expect(sha256HexSync("")).toBe("e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855");
+    expect(sha256HexSync("abc")).toBe("ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad");
+    expect(sha256HexSync("abcdbcdecdefdefgefghfghighijhijkijkljklmklmnlmnomnopnopq")).toBe("248d6a61d20638b8e5c026930c3e6039a33ce45964ff2167f6ecedd419db06c1");
+    expect(sha256HexSync("a".repeat(1_000_000))).toBe("cdc76e5c9914fb9281a1c7e284d73e67f1809a48a497200e046d39ccc7112cd0");
+  });
+
+  it("matches node:crypto around block boundaries and for non-ASCII text", () => {
+    for (let n = 0; n <= 200; n += 1) {
+      const text = "x".repeat(n) + (n % 3 === 0 ? "é☾" : "");
+      expect(sha256HexSync(text), `length ${n}`).toBe(nodeSha256(text));
+    }
+  });
+
+  it("gives the same digest however the input is split, and clones leave the original untouched", () => {
+    const text = JSON.stringify({ seed: "MOON-TOWER-42", deck: Array.from({ length: 40 }, (_, i) => `card_${i}`) });
+    const rng = new Xorshift32(99);
+    for (let round = 0; round < 20; round += 1) {
+      const h = new Sha256();
+      for (let at = 0; at < text.length; ) {
+        const next = Math.min(text.length, at + 1 + (rng.nextUint32() % 90));
+        h.update(text.slice(at, next));
+        at = next;
+      }
+      expect(h.digestHex()).toBe(nodeSha256(text));
+    }
+
+    const prefix = new Sha256().update(text.slice(0, 100));
+    const a = prefix.clone().update("A").digestHex();
+    expect(prefix.digestHex()).toBe(nodeSha256(text.slice(0, 100)));
+    expect(a).toBe(nodeSha256(`${text.slice(0, 100)}A`));
+    expect(prefix.update(text.slice(100)).digestHex()).toBe(nodeSha256(text));
+  });
+});
@@ -0,0 +1,111 @@
+// SHA-256 (FIPS 180-4) in plain TypeScript, so hashing needs neither WebCrypto's promises nor node:crypto.
+
+const K = new Uint32Array([
+  0x428a2f98, 0x71374491, 0xb5c0fbcf, 0xe9b5dba5, 0x3956c25b, 0x59f111f1, 0x923f82a4, 0xab1c5ed5, 0xd807aa98, 0x12835b01, 0x243185be, 0x550c7dc3,
+  0x72be5d74, 0x80deb1fe, 0x9bdc06a7, 0xc19bf174, 0xe49b69c1, 0xefbe4786, 0x0fc19dc6, 0x240ca1cc, 0x2de92c6f, 0x4a7484aa, 0x5cb0a9dc, 0x76f988da,
+  0x983e5152, 0xa831c66d, 0xb00327c8, 0xbf597fc7, 0xc6e00bf3, 0xd5a79147, 0x06ca6351, 0x14292967, 0x27b70a85, 0x2e1b2138, 0x4d2c6dfc, 0x53380d13,
+  0x650a7354, 0x766a0abb, 0x81c2c92e, 0x92722c85, 0xa2bfe8a1, 0xa81a664b, 0xc24b8b70, 0xc76c51a3, 0xd192e819, 0xd6990624, 0xf40e3585, 0x106aa070,
+  0x19a4c116, 0x1e376c08, 0x2748774c, 0x34b0bcb5, 0x391c0cb3, 0x4ed8aa4a, 0x5b9cca4f, 0x682e6ff3, 0x748f82ee, 0x78a5636f, 0x84c87814, 0x8cc70208,
+  0x90befffa, 0xa4506ceb, 0xbef9a3f7, 0xc67178f2
+]);
+
+const INITIAL = [0x6a09e667, 0xbb67ae85, 0x3c6ef372, 0xa54ff53a, 0x510e527f, 0x9b05688c, 0x1f83d9ab, 0x5be0cd19];
+
+const encoder = new TextEncoder();
+const W = new Uint32Array(64);
+
+function rotr(x: number, n: number) {
+  return (x >>> n) | (x << (32 - n));
+}
+
+function compress(h: Uint32Array, block: Uint8Array, offset: number) {
+  for (let i = 0; i < 16; i += 1) {
+    const j = offset + i * 4;
+    W[i] = (block[j]! << 24) | (block[j + 1]! << 16) | (block[j + 2]! << 8) | block[j + 3]!;
+  }
+  for (let i = 16; i < 64; i += 1) {
+    const w15 = W[i - 15]!;
+    const w2 = W[i - 2]!;
+    const s0 = rotr(w15, 7) ^ rotr(w15, 18) ^ (w15 >>> 3);
+    const s1 = rotr(w2, 17) ^ rotr(w2, 19) ^ (w2 >>> 10);
+    W[i] = (W[i - 16]! + s0 + W[i - 7]! + s1) | 0;
+  }
+
+  let a = h[0]!, b = h[1]!, c = h[2]!, d = h[3]!, e = h[4]!, f = h[5]!, g = h[6]!, hh = h[7]!;
+  for (let i = 0; i < 64; i += 1) {
+    const t1 = (hh + (rotr(e, 6) ^ rotr(e, 11) ^ rotr(e, 25)) + ((e & f) ^ (~e & g)) + K[i]! + W[i]!) | 0;
+    const t2 = ((rotr(a, 2) ^ rotr(a, 13) ^ rotr(a, 22)) + ((a & b) ^ (a & c) ^ (b & c))) | 0;
+    hh = g;
+    g = f;
+    f = e;
+    e = (d + t1) | 0;
+    d = c;
+    c = b;
+    b = a;
+    a = (t1 + t2) | 0;
+  }
+  h[0] = h[0]! + a;
+  h[1] = h[1]! + b;
+  h[2] = h[2]! + c;
+  h[3] = h[3]! + d;
+  h[4] = h[4]! + e;
+  h[5] = h[5]! + f;
+  h[6] = h[6]! + g;
+  h[7] = h[7]! + hh;
+}
+
+/** Streaming SHA-256. `clone` snapshots the running state, so a shared prefix is hashed once and then extended. */
+export class Sha256 {
+  #h = Uint32Array.from(INITIAL);
+  #buffer = new Uint8Array(64);
+  #buffered = 0;
+  #length = 0;
+
+  update(data: string | Uint8Array): this {
+    const bytes = typeof data === "string" ? encoder.encode(data) : data;
+    this.#length += bytes.length;
+    let i = 0;
+    if (this.#buffered) {
+      const take = Math.min(64 - this.#buffered, bytes.length);
+      this.#buffer.set(bytes.subarray(0, take), this.#buffered);
+      this.#buffered += take;
+      i = take;
+      if (this.#buffered < 64) return this;
+      compress(this.#h, this.#buffer, 0);
+      this.#buffered = 0;
+    }
+    for (; i + 64 <= bytes.length; i += 64) compress(this.#h, bytes, i);
+    this.#buffer.set(bytes.subarray(i), 0);
+    this.#buffered = bytes.length - i;
+    return this;
+  }
+
+  clone(): Sha256 {
+    const out = new Sha256();
+    out.#h.set(this.#h);
+    out.#buffer.set(this.#buffer);
+    out.#buffered = this.#buffered;
+    out.#length = this.#length;
+    return out;
+  }
+
+  // Leaves this hash untouched, so it can keep being updated.
+  digestHex(): string {
+    const h = Uint32Array.from(this.#h);
+    const tail = new Uint8Array(this.#buffered < 56 ? 64 : 128);
+    tail.set(this.#buffer.subarray(0, this.#buffered));
+    tail[this.#buffered] = 0x80;
+    const bits = this.#length * 8;
+    const view = new DataView(tail.buffer);
+    view.setUint32(tail.length - 8, Math.floor(bits / 0x1_0000_0000));
+    view.setUint32(tail.length - 4, bits >>> 0);
+    for (let offset = 0; offset < tail.length; offset += 64) compress(h, tail, offset);
+    let out = "";
+    for (const word of h) out += word.toString(16).padStart(8, "0");
+    return out;
+  }
+}
+
+export function sha256HexSync(text: string): string {
+  return new Sha256().update(text).digestHex();
+}
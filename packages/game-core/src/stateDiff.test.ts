@@ -0,0 +1,52 @@
+import { readFileSync } from "node:fs";
+
+import { beforeAll, describe, expect, it } from "vitest";
+
+import { loadContent } from "./content.js";
+import { createRun } from "./engine.js";
+import { diffRunState, formatStateChange } from "./stateDiff.js";
+
+beforeAll(() => {
+  const majors = JSON.parse(readFileSync(new URL("../../game-data/content/majors.json", import.meta.url), "utf8"));
+  const strings = JSON.parse(readFileSync(new URL("../../game-data/content/strings.en.json", import.meta.url), "utf8"));
+  loadContent({ majors, strings });
+});
+
+describe("diffRunState", () => {
+  it("is empty for identical states and ignores debug", () => {
+    const a = createRun({ seed: 4, runLengthTarget: 7 });
+    const b = structuredClone(a);
+    b.debug = { note: "dev only" };
+    expect(diffRunState(a, b)).toEqual([]);
+  });
+
+  it("reports leaf values by path", () => {
+    const a = createRun({ seed: 4, runLengthTarget: 7 });
+    a.room.slots[2] = "cups_7";
+    const b = structuredClone(a);
+    b.room.slots[2] = "swords_king";
+    b.player.hp = 9;
+    b.player.weapon = { cardId: "swords_2", value: 2, lastHelpedDefeatValue: null, tuckedEnemyIds: [] };
+
+    expect(diffRunState(a, b).map(formatStateChange)).toEqual([
+      `player.hp: ${a.player.hp} → 9`,
+      'player.weapon: null → {"cardId":"swords_2","lastHelpedDefeatValue":null,"tuckedEnemyIds":[],"value":2}',
+      'room.slots[2]: "cups_7" → "swords_king"'
+    ]);
+  });
+
+  it("summarises deck draws and reorderings instead of listing every position", () => {
+    const a = createRun({ seed: 4, runLengthTarget: 7 });
+    const [top, second] = a.decks.minorDeck;
+
+    const drawn = structuredClone(a);
+    drawn.decks.minorDeck.shift();
+    drawn.floor.floorDiscard.push(top!);
+    expect(diffRunState(a, drawn).map(formatStateChange)).toEqual([`decks.minorDeck: -${top}`, `floor.floorDiscard: +${top}`]);
+
+    const swapped = structuredClone(a);
+    swapped.decks.minorDeck[0] = second!;
+    swapped.decks.minorDeck[1] = top!;
+    expect(diffRunState(a, swapped)).toEqual([{ kind: "deck", path: "decks.minorDeck", removed: [], added: [], reordered: true }]);
+  });
+});
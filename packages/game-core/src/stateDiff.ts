@@ -0,0 +1,78 @@
+import { buildHashInput, canonicalize } from "./stateHash.js";
+import type { RunState } from "./types.js";
+
+// `before`/`after` are canonical values; `undefined` marks a key or array item that only exists on one side.
+// Deck-like arrays are summarised as one "deck" change instead of one change per shifted position.
+export type StateChange =
+  | { kind: "value"; path: string; before: unknown; after: unknown }
+  | { kind: "deck"; path: string; removed: string[]; added: string[]; reordered: boolean };
+
+// Ordered card/major piles where a draw or shuffle would otherwise show up as a change at every index.
+const DECK_PATHS: readonly string[] = ["decks.minorDeck", "decks.majorDeck", "floor.bossDeck", "floor.floorDiscard", "player.weapon.tuckedEnemyIds"];
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function without(items: string[], other: string[]): string[] {
+  const pool = [...other];
+  return items.filter((id) => {
+    const i = pool.indexOf(id);
+    if (i === -1) return true;
+    pool.splice(i, 1);
+    return false;
+  });
+}
+
+function diffDeck(path: string, a: string[], b: string[]): StateChange | null {
+  const removed = without(a, b);
+  const added = without(b, a);
+  const keptBefore = without(a, removed);
+  const keptAfter = without(b, added);
+  const reordered = keptBefore.some((id, i) => keptAfter[i] !== id);
+  if (!removed.length && !added.length && !reordered) return null;
+  return { kind: "deck", path, removed, added, reordered };
+}
+
+function walk(a: unknown, b: unknown, path: string, out: StateChange[]) {
+  if (Array.isArray(a) && Array.isArray(b)) {
+    if (DECK_PATHS.includes(path)) {
+      const change = diffDeck(path, a as string[], b as string[]);
+      if (change) out.push(change);
+      return;
+    }
+    for (let i = 0; i < Math.max(a.length, b.length); i += 1) walk(a[i], b[i], `${path}[${i}]`, out);
+    return;
+  }
+  if (isPlainObject(a) && isPlainObject(b)) {
+    const keys = [...new Set([...Object.keys(a), ...Object.keys(b)])].sort();
+    for (const k of keys) walk(a[k], b[k], path ? `${path}.${k}` : k, out);
+    return;
+  }
+  if (JSON.stringify(a) !== JSON.stringify(b)) out.push({ kind: "value", path, before: a, after: b });
+}
+
+/**
+ * Path-level differences between the hashed parts of two states (same canonical form as `stableStringify`), so a hash
+ * mismatch can be explained field by field. Empty exactly when the two states hash identically.
+ */
+export function diffRunState(a: RunState, b: RunState): StateChange[] {
+  const out: StateChange[] = [];
+  walk(canonicalize(buildHashInput(a)), canonicalize(buildHashInput(b)), "", out);
+  return out;
+}
+
+function formatValue(value: unknown): string {
+  if (value === undefined) return "(absent)";
+  if (Array.isArray(value) && value.length > 8) return `[${value.length} items]`;
+  return JSON.stringify(value);
+}
+
+export function formatStateChange(change: StateChange): string {
+  if (change.kind === "value") return `${change.path}: ${formatValue(change.before)} → ${formatValue(change.after)}`;
+  const parts: string[] = [];
+  if (change.removed.length) parts.push(`-${change.removed.join(", -")}`);
+  if (change.added.length) parts.push(`+${change.added.join(", +")}`);
+  if (change.reordered) parts.push("reordered");
+  return `${change.path}: ${parts.join("; ")}`;
+}
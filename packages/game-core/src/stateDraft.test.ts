@@ -0,0 +1,64 @@
+import { readFileSync } from "node:fs";
+
+import { beforeAll, describe, expect, it } from "vitest";
+
+import { loadContent } from "./content.js";
+import { applyAction, createRun, getLegalActions } from "./engine.js";
+import { Xorshift32 } from "./rng/xorshift32.js";
+import { draftState, writable } from "./stateDraft.js";
+import type { SharedBranch } from "./stateDraft.js";
+import { hashRunStateSync } from "./stateHash.js";
+import type { RunState } from "./types.js";
+
+beforeAll(() => {
+  const majors = JSON.parse(readFileSync(new URL("../../game-data/content/majors.json", import.meta.url), "utf8"));
+  const strings = JSON.parse(readFileSync(new URL("../../game-data/content/strings.en.json", import.meta.url), "utf8"));
+  loadContent({ majors, strings });
+});
+
+function deepFreeze<T>(value: T): T {
+  if (value === null || typeof value !== "object" || Object.isFrozen(value)) return value;
+  for (const child of Object.values(value)) deepFreeze(child);
+  return Object.freeze(value);
+}
+
+const BRANCHES: SharedBranch[] = ["player", "majors", "rules", "rng"];
+
+describe("State drafts", () => {
+  it("never write into the previous state and share the branches an action leaves alone", () => {
+    const shared = new Set<SharedBranch>();
+    const copied = new Set<SharedBranch>();
+    for (let seed = 1; seed <= 4; seed += 1) {
+      const chooser = new Xorshift32(500 + seed);
+      let s = createRun({ seed, runLengthTarget: 7 });
+      s.player.maxHp = 100;
+      s.player.hp = 100;
+      for (let i = 0; i < 300; i += 1) {
+        const legal = getLegalActions(s);
+        if (!legal.length) break;
+        const hash = hashRunStateSync(s);
+        // Frozen, so any write through a shared branch throws instead of silently editing `s`.
+        const next = applyAction(deepFreeze(s), legal[chooser.nextUint32() % legal.length]!).nextState;
+        expect(hashRunStateSync(s)).toBe(hash);
+        for (const branch of BRANCHES) (next[branch] === s[branch] ? shared : copied).add(branch);
+        s = next;
+      }
+    }
+    expect([...shared].sort()).toEqual([...BRANCHES].sort());
+    expect([...copied].sort()).toEqual([...BRANCHES].sort());
+  });
+
+  it("copy a shared branch once, on its first write", () => {
+    const s = createRun({ seed: 3, runLengthTarget: 7 });
+    expect(writable(s, "player")).toBe(s.player);
+
+    const next = draftState(s);
+    expect(next.player).toBe(s.player);
+    const player = writable(next, "player");
+    expect(player).not.toBe(s.player);
+    expect(player).toEqual(s.player);
+    expect(writable(next, "player")).toBe(player);
+    expect(next.room).not.toBe(s.room);
+    expect(next.decks.cards).toBe(s.decks.cards);
+  });
+});
@@ -0,0 +1,46 @@
+import type { RunState } from "./types.js";
+
+// Branches of the next state that start out shared with the previous one and are copied on their first write.
+export type SharedBranch = "player" | "majors" | "rules" | "rng";
+
+// The shared branches each draft has already copied for itself.
+const drafts = new WeakMap<RunState, Set<SharedBranch>>();
+
+// Deep copy of plain data (run state holds nothing else); much cheaper than structuredClone.
+export function copyData<T>(value: T): T {
+  if (Array.isArray(value)) return value.map(copyData) as T;
+  if (value === null || typeof value !== "object") return value;
+  const out: Record<string, unknown> = {};
+  for (const key of Object.keys(value)) out[key] = copyData((value as Record<string, unknown>)[key]);
+  return out as T;
+}
+
+/**
+ * The next state of an action, sharing as much as it can with `state`. Player, majors, rules and rng are shared until
+ * `writable` copies them, and the 56-card registry and major deck are replaced as a whole when they change
+ * (setCardOrientation, the next floor's Major). Floor, room and pending change on nearly every action and are copied.
+ * Engine states must therefore never be edited in place.
+ */
+export function draftState(state: RunState): RunState {
+  const { decks, player, majors, rules, rng, ...rest } = state;
+  const next: RunState = {
+    ...copyData(rest),
+    player,
+    majors,
+    rules,
+    rng,
+    decks: { cards: decks.cards, minorDeck: [...decks.minorDeck], majorDeck: decks.majorDeck }
+  };
+  drafts.set(next, new Set());
+  return next;
+}
+
+// `state[key]`, copied first if `state` is a draft still sharing it. States that are not drafts (a run being created)
+// own all their branches.
+export function writable<K extends SharedBranch>(state: RunState, key: K): RunState[K] {
+  const owned = drafts.get(state);
+  if (!owned || owned.has(key)) return state[key];
+  owned.add(key);
+  state[key] = copyData(state[key]);
+  return state[key];
+}
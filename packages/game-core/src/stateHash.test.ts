@@ -0,0 +1,69 @@
+import { createHash } from "node:crypto";
+import { readFileSync } from "node:fs";
+
+import { beforeAll, describe, expect, it } from "vitest";
+
+import { loadContent } from "./content.js";
+import { applyAction, createRun, getLegalActions } from "./engine.js";
+import { Xorshift32 } from "./rng/xorshift32.js";
+import { buildHashInput, createRunStateHasher, hashRunState, hashRunStateSync, stableStringify } from "./stateHash.js";
+import type { RunState } from "./types.js";
+
+beforeAll(() => {
+  const majors = JSON.parse(readFileSync(new URL("../../game-data/content/majors.json", import.meta.url), "utf8"));
+  const strings = JSON.parse(readFileSync(new URL("../../game-data/content/strings.en.json", import.meta.url), "utf8"));
+  loadContent({ majors, strings });
+});
+
+describe("State hashing", () => {
+  it("hashes pending prompts and floor-start progress but not debug", async () => {
+    const s = createRun({ seed: 8, runLengthTarget: 7 });
+    const base = await hashRunState(s);
+
+    const prompted = structuredClone(s);
+    prompted.pending.prompt = { kind: "MAJOR_REORDER_TOP3", majorId: "moon" };
+    prompted.pending.majorPrompt = { kind: "REORDER_TOP3", majorId: "moon" };
+    expect(await hashRunState(prompted)).not.toBe(base);
+
+    const progressed = structuredClone(s);
+    progressed.pending.floorStart!.attunementChosen = !progressed.pending.floorStart!.attunementChosen;
+    expect(await hashRunState(progressed)).not.toBe(base);
+
+    const debugged = structuredClone(s);
+    debugged.debug = { note: "dev only" };
+    expect(await hashRunState(debugged)).toBe(base);
+  });
+
+  it("hashes synchronously to the SHA-256 of the canonical JSON", async () => {
+    const s = createRun({ seed: 8, runLengthTarget: 7 });
+    const expected = createHash("sha256").update(stableStringify(buildHashInput(s))).digest("hex");
+    expect(hashRunStateSync(s)).toBe(expected);
+    expect(await hashRunState(s)).toBe(expected);
+  });
+
+  it("hashes incrementally to the full hash across card flips and new floors", () => {
+    const hasher = createRunStateHasher();
+    const seen = new Set<string>();
+    for (let seed = 1; seed <= 4; seed += 1) {
+      const chooser = new Xorshift32(300 + seed);
+      let s = createRun({ seed, runLengthTarget: 7 });
+      s.player.maxHp = 100;
+      s.player.hp = 100;
+      for (let i = 0; i < 300; i += 1) {
+        expect(hasher.hash(s)).toBe(hashRunStateSync(s));
+        const legal = getLegalActions(s);
+        if (!legal.length) break;
+        const action = legal.find((a) => a.type === "USE_LEAP_OF_FAITH") ?? legal[chooser.nextUint32() % legal.length]!;
+        const next = applyAction(s, action).nextState;
+        if (next.decks.cards !== s.decks.cards) seen.add("cards");
+        if (next.decks.majorDeck !== s.decks.majorDeck) seen.add("majorDeck");
+        s = next;
+      }
+    }
+    expect([...seen].sort()).toEqual(["cards", "majorDeck"]);
+
+    // A top-level key sorting before "decks" moves the registry out of the prefix; the hasher falls back to a full hash.
+    const odd = { ...createRun({ seed: 1, runLengthTarget: 7 }), bonus: 1 } as RunState;
+    expect(hasher.hash(odd)).toBe(hashRunStateSync(odd));
+  });
+});
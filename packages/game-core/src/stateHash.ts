@@ -1,4 +1,5 @@
-import type { RunState } from "./types.js";
+import { Sha256, sha256HexSync } from "./sha256.js";
+import type { DeckState, RunState } from "./types.js";
 
 export type HashableRunState = Omit<RunState, "debug">;
 
@@ -6,7 +7,7 @@ function isPlainObject(value: unknown): value is Record<string, unknown> {
   return typeof value === "object" && value !== null && !Array.isArray(value);
 }
 
-function canonicalize(value: unknown): unknown {
+export function canonicalize(value: unknown): unknown {
   if (value === undefined) return null;
   if (value === null) return null;
   const t = typeof value;
@@ -34,24 +35,40 @@ export function buildHashInput(state: RunState): HashableRunState {
   return rest;
 }
 
-function bytesToHex(bytes: Uint8Array): string {
-  let out = "";
-  for (const b of bytes) out += b.toString(16).padStart(2, "0");
-  return out;
-}
-
 export async function sha256Hex(text: string): Promise<string> {
-  if (globalThis.crypto?.subtle?.digest) {
-    const data = new TextEncoder().encode(text);
-    const digest = await globalThis.crypto.subtle.digest("SHA-256", data);
-    return bytesToHex(new Uint8Array(digest));
-  }
+  return sha256HexSync(text);
+}
 
-  const nodeCrypto = await import("node:crypto");
-  return nodeCrypto.createHash("sha256").update(text).digest("hex");
+export function hashRunStateSync(state: RunState): string {
+  return sha256HexSync(stableStringify(buildHashInput(state)));
 }
 
 export async function hashRunState(state: RunState): Promise<string> {
-  const json = stableStringify(buildHashInput(state));
-  return sha256Hex(json);
+  return hashRunStateSync(state);
+}
+
+export type RunStateHasher = { hash(state: RunState): string };
+
+/**
+ * hashRunStateSync for a sequence of related states (a replay, a search tree). The canonical JSON starts with the card
+ * registry and the major deck; the SHA-256 state after that prefix is kept and reused while the next state shares both
+ * objects with the last one, as engine states do (see applyAction). States must not be edited in place in between.
+ */
+export function createRunStateHasher(): RunStateHasher {
+  let last: { cards: DeckState["cards"]; majorDeck: DeckState["majorDeck"]; prefix: Sha256 } | null = null;
+  return {
+    hash(state) {
+      const { decks, ...rest } = buildHashInput(state);
+      // The split below relies on "decks" sorting first and holding exactly these keys; anything else hashes in full.
+      if (Object.keys(rest).some((k) => k < "decks") || Object.keys(decks).sort().join() !== "cards,majorDeck,minorDeck") return hashRunStateSync(state);
+      const restJson = stableStringify(rest);
+
+      if (last?.cards !== decks.cards || last.majorDeck !== decks.majorDeck) {
+        const prefix = new Sha256().update(`{"decks":{"cards":${stableStringify(decks.cards)},"majorDeck":${stableStringify(decks.majorDeck)},`);
+        last = { cards: decks.cards, majorDeck: decks.majorDeck, prefix };
+      }
+      const suffix = `"minorDeck":${stableStringify(decks.minorDeck)}}${restJson === "{}" ? "}" : `,${restJson.slice(1)}`}`;
+      return last.prefix.clone().update(suffix).digestHex();
+    }
+  };
 }
@@ -1,3 +1,8 @@
+import type { ContentRegistry, EffectNode, HookId } from "./content.js";
+import type { SeedDerivation, SeedInput } from "./rng/seed.js";
+import type { RngAlgo } from "./rng/registry.js";
+import type { RngStreams } from "./rng/streams.js";
+
 export type MinorSuit = "pentacles" | "cups" | "wands" | "swords";
 export type Orientation = "upright" | "reversed";
 export type CourtFace = "page" | "knight" | "queen" | "king";
@@ -134,7 +139,8 @@ export type MajorsState = {
   spentThisFloor: MajorId[];
 };
 
-export type RngState = { algo: "xorshift32"; state: number };
+// With `streams` (seed derivation 2+), `state` is the derived run seed and stays fixed; every draw comes from a stream.
+export type RngState = { algo: RngAlgo; state: number; streams?: RngStreams };
 
 export type RunState = {
   phase: PhaseId;
@@ -148,15 +154,54 @@ export type RunState = {
   majors: MajorsState;
   lastRoomWasFlee: boolean;
   rules: { weaponRestrictionMode: WeaponRestrictionMode; orderConstraint: OrderConstraintState };
-  debug?: {
-    pendingResolution?: { slotIndex: number; cardId: CardId };
-    pendingPrompt?: PendingPrompt;
-  };
+  pending: PendingState;
+  // Dev-only tooling state; excluded from parity hashes.
+  debug?: Record<string, unknown>;
+};
+
+export type PendingResolution = { slotIndex: number; cardId: CardId };
+
+// Full detail of an outstanding Major prompt; `PendingPrompt` is the player-facing summary of the same prompt.
+export type MajorPrompt =
+  | { kind: "CHOICE"; majorId: MajorId; promptKey: string; optionIds: string[]; optionEffects: EffectNode[] }
+  | { kind: "BARGAIN"; majorId: MajorId; promptKey: string; options: ("pay" | "takeDamage")[]; bargainOptions: NonNullable<EffectNode["bargainOptions"]> }
+  | { kind: "REORDER_TOP3"; majorId: MajorId }
+  | { kind: "REORDER_ROOM4"; majorId: MajorId }
+  | { kind: "SELECT_TARGET"; majorId: MajorId; effect: EffectNode; candidates: number[] };
+
+// Floor-start steps already taken on `floorNumber`, so FloorStart can resume after a prompt is answered.
+export type FloorStartProgress = {
+  floorNumber: number;
+  attunementChosen: boolean;
+  floorStartHookApplied: boolean;
+  orderConstraintHookApplied: boolean;
+};
+
+export type PendingState = {
+  resolution: PendingResolution | null;
+  prompt: PendingPrompt | null;
+  majorPrompt: MajorPrompt | null;
+  floorStart: FloorStartProgress | null;
+};
+
+// Content for one engine call; the one loadContent installed when absent.
+export type ContentOptions = { content?: ContentRegistry };
+
+export type ApplyActionOptions = ContentOptions & {
+  // Dev/test mode: reject any action getLegalActions does not list, treat a listed action the engine rejects as an
+  // internal error, and audit card conservation afterwards.
+  strict?: boolean;
 };
 
 export type EngineConfig = {
-  seed: number;
+  seed: SeedInput;
   runLengthTarget: 7 | 14 | 21;
+  // Defaults to SEED_DERIVATION_VERSION; replays pass what their START_RUN recorded.
+  seedDerivation?: SeedDerivation;
+  // Defaults to DEFAULT_RNG_ALGO; replays pass what their log header recorded.
+  rngAlgo?: RngAlgo;
+  // Defaults to the content loadContent installed. Not part of the run state: later calls pass it again.
+  content?: ContentRegistry;
 };
 
 export type PendingPrompt =
@@ -169,6 +214,49 @@ export type PendingPrompt =
   | { kind: "MAJOR_REORDER_TOP3"; majorId: MajorId }
   | { kind: "MAJOR_REORDER_ROOM4"; majorId: MajorId };
 
+// One selectable answer to a prompt: `action` is exactly the LegalAction to dispatch; `targetSlot` is the room slot it
+// acts on, if any.
+export type PromptOption = { labelKey: string; action: LegalAction; targetSlot: number | null };
+
+// Render-ready description of the outstanding decision (see getPendingPrompt). Keys index the strings bundle.
+// Reorder prompts have no option list: the front end builds `order` over `cardIds` (null marks an empty room slot).
+export type PromptDescriptor =
+  | {
+      kind: "ACE" | "ENEMY_FIGHT" | "SWORDS_AMBUSH_BLOCK" | "CUPS_8_10";
+      titleKey: string;
+      cardId: CardId;
+      slotIndex: number;
+      options: PromptOption[];
+      targetSlots: number[];
+    }
+  | { kind: "MAJOR_CHOICE" | "MAJOR_BARGAIN" | "MAJOR_SELECT_TARGET"; titleKey: string; majorId: MajorId; options: PromptOption[]; targetSlots: number[] }
+  | { kind: "MAJOR_REORDER_TOP3"; titleKey: string; majorId: MajorId; cardIds: CardId[] }
+  | { kind: "MAJOR_REORDER_ROOM4"; titleKey: string; majorId: MajorId; cardIds: (CardId | null)[] };
+
+// "unknown" when the value is not fixed by what the player can see (an unseen draw, a Major effect or a later choice).
+export type PreviewValue = number | "unknown";
+
+export type EquipmentChange = { kind: "weapon" | "armor" | "spell"; change: "equip" | "discard"; cardId: CardId };
+
+// Predicted consequences of one action (see previewAction); covers the action itself, not the rooms it leads into.
+export type ActionPreview = {
+  action: LegalAction;
+  hpDelta: PreviewValue;
+  goldDelta: PreviewValue;
+  fateDelta: PreviewValue;
+  // Part of fateDelta earned by resolving an effectively reversed card.
+  reversedFateGain: number;
+  equipment: EquipmentChange[];
+  armorBreaks: boolean;
+  // After a weapon fight: the highest enemy value the weapon may be used on next under the current restriction mode.
+  weaponRestrictedTo: number | null;
+  defeat: boolean | "unknown";
+  // Part of the outcome is drawn from the unseen deck or otherwise hidden.
+  dependsOnUnseen: boolean;
+  // The action opens a prompt: one preview per option, each including this action's own consequences.
+  choices: ActionPreview[];
+};
+
 export type LegalAction =
   | { type: "CHOOSE_FLEE" }
   | { type: "CHOOSE_ENGAGE" }
@@ -191,18 +279,56 @@ export type LegalAction =
   | { type: "REORDER_TOP3"; order: number[] }
   | { type: "REORDER_ROOM4"; order: number[] };
 
-export type GameEvent =
+// Everything the engine reports to front ends (spec §11.2). Events are emitted in the order things happen; a UI must be
+// able to render a run from these alone.
+export type GameEventPayload =
+  // Run flow.
+  | { type: "PHASE_CHANGED"; from: PhaseId; to: PhaseId }
+  | { type: "FLOOR_STARTED"; floorNumber: number; majorId: MajorId }
+  | { type: "MAJORS_ATTUNED"; majorIds: MajorId[] }
+  | { type: "BOSS_STARTED"; floorNumber: number; majorId: MajorId; roomsRequired: number }
+  | { type: "MAJOR_CLAIMED"; majorId: MajorId; floorNumber: number }
+  | { type: "RUN_ENDED"; outcome: "victory" | "defeat"; floorNumber: number; majorsClaimed: number }
+  // Majors and prompts. PROMPT_OPENED covers both Major prompts and Ace/enemy/ambush/Cups decisions.
+  | { type: "SHADOW_TRIGGERED"; majorId: MajorId; hook: HookId }
+  | { type: "GIFT_USED"; majorId: MajorId }
+  | { type: "PROMPT_OPENED"; prompt: PendingPrompt }
+  // Room and cards.
   | { type: "ROOM_REVEALED"; slots: (CardId | null)[] }
+  | { type: "CARD_FLIPPED"; cardId: CardId; slotIndex: number; orientation: Orientation }
+  | { type: "CARD_CLEANSED"; cardId: CardId; slotIndex: number }
   | { type: "PEEK_TOP_N"; n: number; cardIds: CardId[] }
-  | { type: "PLAYER_HP_CHANGED"; delta: number; hp: number }
-  | { type: "PLAYER_GOLD_CHANGED"; delta: number; gold: number }
-  | { type: "PLAYER_FATE_CHANGED"; delta: number; fate: number }
   | { type: "CARD_BOTTOMED"; cardId: CardId }
+  // The active deck ran dry and was rebuilt from `from` (see drawFromMinorDeck).
+  | { type: "DECK_RESHUFFLED"; deck: "minor" | "boss"; from: "floorDiscard" | "minorDeck"; cardCount: number }
   | { type: "CARD_EXILED"; cardId: CardId }
   | { type: "CARD_RESOLVED"; cardId: CardId; slotIndex: number }
+  // Player and equipment.
+  | { type: "PLAYER_HP_CHANGED"; delta: number; hp: number }
+  | { type: "PLAYER_GOLD_CHANGED"; delta: number; gold: number }
+  | { type: "PLAYER_FATE_CHANGED"; delta: number; fate: number }
   | { type: "EQUIP_WEAPON"; cardId: CardId; value: number }
   | { type: "EQUIP_ARMOR"; cardId: CardId; value: number }
   | { type: "EQUIP_SPELL"; cardId: CardId; value: number }
   | { type: "DISCARD_EQUIPMENT"; kind: "weapon" | "armor" | "spell"; cardId: CardId };
 
+// Engine rules that produce events on their own rather than as part of a card, Major or action effect.
+export type EventRule = "ARMOR_ABSORBED" | "ROOM_REFILL" | "FLOOR_START" | "BOSS_START" | "FLOOR_CLEARED" | "DECK_EXHAUSTED";
+
+export type EventSource =
+  | { kind: "ACTION"; action: LegalAction }
+  | { kind: "RUN_START" }
+  | { kind: "SHADOW"; majorId: MajorId; hook: HookId }
+  | { kind: "GIFT"; majorId: MajorId }
+  // The player's answer to a Major prompt (the shadow or gift that opened it is an earlier event's cause).
+  | { kind: "MAJOR_PROMPT"; majorId: MajorId }
+  | { kind: "CARD"; cardId: CardId; slotIndex: number }
+  | { kind: "RULE"; rule: EventRule };
+
+// Innermost source first; `parent` walks out to the dispatched action (or RUN_START), whose parent is null.
+export type EventCause = EventSource & { parent: EventCause | null };
+
+// `seq` numbers the events of one applyAction/startRun result from 0.
+export type GameEvent = GameEventPayload & { seq: number; cause: EventCause };
+
 export type EngineResult = { nextState: RunState; events: GameEvent[] };
@@ -0,0 +1,184 @@
+import { readFileSync } from "node:fs";
+
+import Ajv from "ajv/dist/2020.js";
+import { beforeAll, describe, expect, it } from "vitest";
+
+import { loadContent } from "./content.js";
+import { applyAction, createRun, getLegalActions } from "./engine.js";
+import type { RunState } from "./types.js";
+import { validateState } from "./validateState.js";
+
+const RUN_STATE_SCHEMA = JSON.parse(readFileSync(new URL("../../game-data/schemas/run_state.schema.json", import.meta.url), "utf8"));
+
+type Schema = Record<string, any>;
+type Mutation = { path: (string | number)[]; value: unknown };
+
+const DELETE = Symbol("delete");
+
+// The schema node at JSON pointer `pointer`, following $refs; returns the pointer it ends at too.
+function schemaAt(pointer: string): [Schema, string] {
+  const node: Schema = pointer
+    .split("/")
+    .slice(1)
+    .reduce((n: Schema, key: string) => n[key], RUN_STATE_SCHEMA);
+  return typeof node.$ref === "string" ? schemaAt(node.$ref.slice(1)) : [node, pointer];
+}
+
+// Edits at and around every constraint run_state.schema.json places on `value`: boundary values the schema accepts, and
+// values one step past each constraint that it rejects. Walks only the branch of an anyOf/oneOf that `value` matches.
+function schemaMutations(ajv: Ajv, ref: string, value: unknown, path: (string | number)[] = []): Mutation[] {
+  const [node, pointer] = schemaAt(ref);
+  const out: Mutation[] = [];
+  const at = (v: unknown, sub: string | number = "") => out.push({ path: sub === "" ? path : [...path, sub], value: v });
+
+  const combinator = node.anyOf ? "anyOf" : node.oneOf ? "oneOf" : null;
+  if (combinator) {
+    const branches: string[] = node[combinator].map((_b: Schema, i: number) => `${pointer}/${combinator}/${i}`);
+    const match = branches.find((b) => ajv.validate({ $ref: `${RUN_STATE_SCHEMA.$id}#${b}` }, value));
+    if (match && value !== null && branches.some((b) => schemaAt(b)[0].type === "null")) at(null);
+    return match ? [...out, ...schemaMutations(ajv, match, value, path)] : out;
+  }
+
+  if (node.enum || node.const !== undefined) {
+    for (const allowed of node.enum ?? [node.const]) at(allowed);
+    at("__bogus__");
+  } else if (node.type === "integer") {
+    at(1.5);
+    at(String(value));
+    if (node.minimum !== undefined) at(node.minimum), at(node.minimum - 1);
+    if (node.maximum !== undefined) at(node.maximum), at(node.maximum + 1);
+  } else if (node.type === "boolean") {
+    at(String(value));
+  } else if (node.type === "string") {
+    at(42);
+    if (node.minLength) at("");
+  } else if (node.type === "array" && Array.isArray(value)) {
+    at({});
+    if (node.minItems !== undefined) at(value.slice(0, node.minItems - 1));
+    if (node.maxItems !== undefined && value.length) at([...value, ...Array(node.maxItems).fill(value[0])].slice(0, node.maxItems + 1));
+    if (node.uniqueItems && value.length) at([...value, value[0]]);
+    if (node.items && value.length) out.push(...schemaMutations(ajv, `${pointer}/items`, value[0], [...path, 0]));
+  } else if (node.type === "object" && isRecord(value)) {
+    at([]);
+    for (const key of node.required ?? []) at(DELETE, key);
+    if (node.additionalProperties === false) at(1, "__unexpected__");
+    for (const key of Object.keys(node.properties ?? {})) {
+      if (key in value) out.push(...schemaMutations(ajv, `${pointer}/properties/${key}`, value[key], [...path, key]));
+    }
+    const [firstKey] = Object.keys(value).filter((k) => !(k in (node.properties ?? {})));
+    if (typeof node.additionalProperties === "object" && firstKey !== undefined) {
+      out.push(...schemaMutations(ajv, `${pointer}/additionalProperties`, value[firstKey], [...path, firstKey]));
+    }
+  }
+  return out;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function applyMutation(state: RunState, { path, value }: Mutation): unknown {
+  const out = structuredClone(state) as any;
+  if (!path.length) return value;
+  const parent = path.slice(0, -1).reduce((node, key) => node[key], out);
+  const key = path.at(-1)!;
+  if (value === DELETE) delete parent[key];
+  else parent[key] = value;
+  return out;
+}
+
+function codes(state: unknown) {
+  return validateState(state).map((v) => v.code);
+}
+
+function playStates(seed: number, steps: number): RunState[] {
+  let s = createRun({ seed, runLengthTarget: 7 });
+  const out = [s];
+  for (let i = 0; i < steps; i += 1) {
+    if (s.phase === "RunVictory" || s.phase === "RunDefeat") break;
+    const legal = getLegalActions(s);
+    const pick = legal.find((a) => a.type === "USE_MAJOR_GIFT") ?? legal.find((a) => a.type === "CHOOSE_ENGAGE") ?? legal.find((a) => a.type === "COMMIT_RESOLVE") ?? legal[0]!;
+    s = applyAction(s, pick).nextState;
+    out.push(s);
+  }
+  return out;
+}
+
+beforeAll(() => {
+  const majors = JSON.parse(readFileSync(new URL("../../game-data/content/majors.json", import.meta.url), "utf8"));
+  const strings = JSON.parse(readFileSync(new URL("../../game-data/content/strings.en.json", import.meta.url), "utf8"));
+  loadContent({ majors, strings });
+});
+
+describe("validateState", () => {
+  it("accepts every state reached by play and agrees with run_state.schema.json", () => {
+    const schema = JSON.parse(readFileSync(new URL("../../game-data/schemas/run_state.schema.json", import.meta.url), "utf8"));
+    const validate = new Ajv({ strict: false, allErrors: true }).compile(schema);
+
+    for (const seed of [1, 2, 3]) {
+      for (const s of playStates(seed, 200)) {
+        expect(validateState(s)).toEqual([]);
+        expect(validate(s)).toBe(true);
+      }
+    }
+
+    const broken = structuredClone(createRun({ seed: 1, runLengthTarget: 7 })) as any;
+    broken.phase = "Nowhere";
+    broken.room.slots = [null, null, null];
+    broken.player.extra = 1;
+    expect(validate(broken)).toBe(false);
+    expect(validateState(broken).map((v) => v.path)).toEqual(["phase", "player.extra", "room.slots"]);
+  });
+
+  it("flags exactly the structural edits run_state.schema.json rejects", () => {
+    const ajv = new Ajv({ strict: false });
+    ajv.addSchema(RUN_STATE_SCHEMA);
+    const validate = ajv.getSchema(RUN_STATE_SCHEMA.$id)!;
+    const states = [1, 2, 3].flatMap((seed) => playStates(seed, 200).filter((_s, i) => i % 25 === 0));
+    states.push(...playStates(4, 200).filter((s) => s.pending.prompt || s.pending.resolution || s.player.weapon?.tuckedEnemyIds.length));
+
+    let checked = 0;
+    for (const state of states) {
+      for (const mutation of schemaMutations(ajv, "", state)) {
+        const mutated = applyMutation(state, mutation);
+        const flagged = validateState(mutated).some((v) => v.code === "SCHEMA");
+        expect(flagged, `${mutation.path.join(".")} = ${String(mutation.value)}`).toBe(!validate(mutated));
+        checked += 1;
+      }
+    }
+    expect(checked).toBeGreaterThan(1000);
+  });
+
+  it("reports rules invariant violations without throwing", () => {
+    const s = createRun({ seed: 5, runLengthTarget: 7 });
+
+    const overHealed = structuredClone(s);
+    overHealed.player.hp = overHealed.player.maxHp + 1;
+    expect(codes(overHealed)).toEqual(["HP_OUT_OF_RANGE"]);
+
+    const attuned = structuredClone(s);
+    attuned.majors.attuned = ["sun"];
+    expect(codes(attuned)).toEqual(["ATTUNED_NOT_CLAIMED"]);
+
+    const dead = structuredClone(s);
+    dead.player.hp = 0;
+    expect(codes(dead)).toEqual(["DEFEAT_MISMATCH"]);
+
+    const carried = structuredClone(s);
+    const [a, b, c] = carried.decks.minorDeck.splice(0, 3);
+    carried.room.slots = [null, a!, b!, c!];
+    carried.room.carriedIndex = 0;
+    expect(codes(carried)).toEqual(["CARRIED_INDEX_INVALID"]);
+
+    const prompt = structuredClone(s);
+    prompt.phase = "ResolveExecute";
+    prompt.pending.prompt = { kind: "MAJOR_REORDER_TOP3", majorId: "moon" };
+    expect(codes(prompt)).toEqual(["PHASE_PROMPT_MISMATCH", "PHASE_PROMPT_MISMATCH", "PENDING_RESOLUTION_MISMATCH"]);
+
+    const staleFloor = structuredClone(playStates(5, 1).at(-1)!);
+    staleFloor.pending.floorStart!.floorNumber += 1;
+    expect(codes(staleFloor)).toEqual(["FLOOR_START_MISMATCH"]);
+
+    expect(codes(null)).toEqual(["SCHEMA"]);
+  });
+});
@@ -0,0 +1,442 @@
+import { ALL_MAJORS } from "./engine.js";
+import { RNG_ALGOS } from "./rng/registry.js";
+import { RNG_STREAMS } from "./rng/streams.js";
+import type { PhaseId, RunState } from "./types.js";
+import { auditCardZones, formatZoneAudit, isCardConservationViolated } from "./zoneAudit.js";
+
+export type StateViolationCode =
+  // Structural mismatch against packages/game-data/schemas/run_state.schema.json.
+  | "SCHEMA"
+  | "HP_OUT_OF_RANGE"
+  | "FATE_OUT_OF_RANGE"
+  | "DEFEAT_MISMATCH"
+  | "ATTUNED_NOT_CLAIMED"
+  | "MAJOR_DECK_OVERLAP"
+  | "PHASE_PROMPT_MISMATCH"
+  | "PENDING_RESOLUTION_MISMATCH"
+  | "FLOOR_START_MISMATCH"
+  | "CARRIED_INDEX_INVALID"
+  | "ROOM_MASK_MISMATCH"
+  | "BOSS_STATE_MISMATCH"
+  | "UNKNOWN_CARD"
+  | "CARD_NOT_CONSERVED";
+
+export type StateViolation = { code: StateViolationCode; path: string; message: string };
+
+const PHASE_IDS: readonly PhaseId[] = [
+  "RunInit",
+  "FloorStart",
+  "RoomReveal",
+  "RoomChoice",
+  "EngageSetup",
+  "PreResolveWindow",
+  "ResolveCommit",
+  "ResolveExecute",
+  "RoomEnd",
+  "BossStart",
+  "BossRoomLoop",
+  "FloorVictory",
+  "RunVictory",
+  "RunDefeat"
+];
+
+// Phases in which a Major prompt can legitimately be outstanding (hooks fire at floor start, room reveal and during the
+// pre-resolve window; gifts are only usable in the pre-resolve window).
+const MAJOR_PROMPT_PHASES: readonly PhaseId[] = ["FloorStart", "RoomChoice", "EngageSetup", "PreResolveWindow"];
+
+type Out = StateViolation[];
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function schema(out: Out, path: string, message: string) {
+  out.push({ code: "SCHEMA", path, message });
+}
+
+function checkObject(out: Out, value: unknown, path: string, required: readonly string[], optional: readonly string[] = []): value is Record<string, unknown> {
+  if (!isPlainObject(value)) {
+    schema(out, path, "must be an object");
+    return false;
+  }
+  for (const key of required) {
+    if (!(key in value)) schema(out, path, `missing required property '${key}'`);
+  }
+  for (const key of Object.keys(value)) {
+    if (!required.includes(key) && !optional.includes(key)) schema(out, path ? `${path}.${key}` : key, "unexpected property");
+  }
+  return true;
+}
+
+function checkInt(out: Out, value: unknown, path: string, min: number, max: number): value is number {
+  if (typeof value !== "number" || !Number.isInteger(value)) {
+    schema(out, path, "must be an integer");
+    return false;
+  }
+  if (value < min || value > max) {
+    schema(out, path, `must be within [${min}, ${max}]`);
+    return false;
+  }
+  return true;
+}
+
+function checkNullableInt(out: Out, value: unknown, path: string, min: number, max: number) {
+  if (value !== null) checkInt(out, value, path, min, max);
+}
+
+function checkBool(out: Out, value: unknown, path: string) {
+  if (typeof value !== "boolean") schema(out, path, "must be a boolean");
+}
+
+function checkEnum(out: Out, value: unknown, path: string, allowed: readonly unknown[]) {
+  if (!allowed.includes(value)) schema(out, path, `must be one of ${allowed.map((a) => JSON.stringify(a)).join(", ")}`);
+}
+
+function checkCardId(out: Out, value: unknown, path: string) {
+  if (typeof value !== "string" || value.length === 0) schema(out, path, "must be a non-empty card id");
+}
+
+function checkArray(
+  out: Out,
+  value: unknown,
+  path: string,
+  item: (v: unknown, p: string) => void,
+  opts: { minItems?: number; maxItems?: number; uniqueItems?: boolean } = {}
+): value is unknown[] {
+  if (!Array.isArray(value)) {
+    schema(out, path, "must be an array");
+    return false;
+  }
+  if (opts.minItems !== undefined && value.length < opts.minItems) schema(out, path, `must have at least ${opts.minItems} items`);
+  if (opts.maxItems !== undefined && value.length > opts.maxItems) schema(out, path, `must have at most ${opts.maxItems} items`);
+  if (opts.uniqueItems && new Set(value).size !== value.length) schema(out, path, "must not contain duplicates");
+  value.forEach((v, i) => item(v, `${path}[${i}]`));
+  return true;
+}
+
+function checkMinorCard(out: Out, value: unknown, path: string) {
+  if (!checkObject(out, value, path, ["id", "suit", "rank", "orientation"])) return;
+  checkCardId(out, value.id, `${path}.id`);
+  checkEnum(out, value.suit, `${path}.suit`, ["pentacles", "cups", "wands", "swords"]);
+  checkEnum(out, value.orientation, `${path}.orientation`, ["upright", "reversed"]);
+  const rank = value.rank;
+  const rankPath = `${path}.rank`;
+  if (!isPlainObject(rank)) {
+    schema(out, rankPath, "must be an object");
+    return;
+  }
+  if (rank.kind === "number") {
+    if (checkObject(out, rank, rankPath, ["kind", "value"])) checkInt(out, rank.value, `${rankPath}.value`, 2, 10);
+  } else if (rank.kind === "ace") {
+    checkObject(out, rank, rankPath, ["kind"]);
+  } else if (rank.kind === "court") {
+    if (checkObject(out, rank, rankPath, ["kind", "face"])) checkEnum(out, rank.face, `${rankPath}.face`, ["page", "knight", "queen", "king"]);
+  } else {
+    schema(out, `${rankPath}.kind`, "must be one of \"number\", \"ace\", \"court\"");
+  }
+}
+
+function checkPlayer(out: Out, value: unknown) {
+  const path = "player";
+  if (!checkObject(out, value, path, ["hp", "maxHp", "gold", "fate", "weapon", "armor", "spell", "buffs"])) return;
+  checkInt(out, value.hp, `${path}.hp`, 0, 999);
+  checkInt(out, value.maxHp, `${path}.maxHp`, 1, 999);
+  checkInt(out, value.gold, `${path}.gold`, 0, 9999);
+  checkInt(out, value.fate, `${path}.fate`, 0, 10);
+
+  if (value.weapon !== null) {
+    const w = value.weapon;
+    if (checkObject(out, w, `${path}.weapon`, ["cardId", "value", "lastHelpedDefeatValue", "tuckedEnemyIds"])) {
+      checkCardId(out, w.cardId, `${path}.weapon.cardId`);
+      checkInt(out, w.value, `${path}.weapon.value`, 2, 10);
+      checkNullableInt(out, w.lastHelpedDefeatValue, `${path}.weapon.lastHelpedDefeatValue`, 11, 16);
+      checkArray(out, w.tuckedEnemyIds, `${path}.weapon.tuckedEnemyIds`, (v, p) => checkCardId(out, v, p));
+    }
+  }
+  if (value.armor !== null) {
+    const a = value.armor;
+    if (checkObject(out, a, `${path}.armor`, ["cardId", "value"])) {
+      checkCardId(out, a.cardId, `${path}.armor.cardId`);
+      checkInt(out, a.value, `${path}.armor.value`, 8, 10);
+    }
+  }
+  if (value.spell !== null) {
+    const s = value.spell;
+    if (checkObject(out, s, `${path}.spell`, ["cardId", "value"])) {
+      checkCardId(out, s.cardId, `${path}.spell.cardId`);
+      checkInt(out, s.value, `${path}.spell.value`, 2, 10);
+    }
+  }
+  if (checkObject(out, value.buffs, `${path}.buffs`, ["cheatWeaponNextEnemyFight", "cheatWeaponThisRoom"])) {
+    checkBool(out, value.buffs.cheatWeaponNextEnemyFight, `${path}.buffs.cheatWeaponNextEnemyFight`);
+    checkBool(out, value.buffs.cheatWeaponThisRoom, `${path}.buffs.cheatWeaponThisRoom`);
+  }
+}
+
+function checkDecks(out: Out, value: unknown) {
+  const path = "decks";
+  if (!checkObject(out, value, path, ["cards", "minorDeck", "majorDeck"])) return;
+  if (checkObject(out, value.cards, `${path}.cards`, ["minors"])) {
+    const minors = value.cards.minors;
+    if (!isPlainObject(minors)) schema(out, `${path}.cards.minors`, "must be an object");
+    else for (const [id, card] of Object.entries(minors)) checkMinorCard(out, card, `${path}.cards.minors.${id}`);
+  }
+  checkArray(out, value.minorDeck, `${path}.minorDeck`, (v, p) => checkCardId(out, v, p));
+  checkArray(out, value.majorDeck, `${path}.majorDeck`, (v, p) => checkEnum(out, v, p, ALL_MAJORS), { maxItems: 21 });
+}
+
+function checkFloor(out: Out, value: unknown) {
+  const path = "floor";
+  const required = [
+    "floorNumber",
+    "activeMajorId",
+    "engagedRoomsCompleted",
+    "floorDiscard",
+    "bossMode",
+    "bossRoomsRequired",
+    "bossRoomsCompleted",
+    "bossDeck",
+    "params"
+  ];
+  if (!checkObject(out, value, path, required)) return;
+  checkInt(out, value.floorNumber, `${path}.floorNumber`, 1, 21);
+  checkEnum(out, value.activeMajorId, `${path}.activeMajorId`, ALL_MAJORS);
+  checkInt(out, value.engagedRoomsCompleted, `${path}.engagedRoomsCompleted`, 0, 999);
+  checkArray(out, value.floorDiscard, `${path}.floorDiscard`, (v, p) => checkCardId(out, v, p));
+  checkBool(out, value.bossMode, `${path}.bossMode`);
+  checkInt(out, value.bossRoomsRequired, `${path}.bossRoomsRequired`, 0, 4);
+  checkInt(out, value.bossRoomsCompleted, `${path}.bossRoomsCompleted`, 0, 4);
+  if (value.bossDeck !== null) checkArray(out, value.bossDeck, `${path}.bossDeck`, (v, p) => checkCardId(out, v, p));
+  if (checkObject(out, value.params, `${path}.params`, ["chariotDirection"])) {
+    checkEnum(out, value.params.chariotDirection, `${path}.params.chariotDirection`, ["LEFT_TO_RIGHT", "RIGHT_TO_LEFT", null]);
+  }
+}
+
+function checkRoom(out: Out, value: unknown) {
+  const path = "room";
+  const required = [
+    "slots",
+    "resolvedMask",
+    "carriedIndex",
+    "carryChoiceIndex",
+    "leapUsed",
+    "healingUsedThisRoom",
+    "pendingCleanses",
+    "disabledFateActionsThisRoom",
+    "hangedManTriggeredThisRoom"
+  ];
+  if (!checkObject(out, value, path, required)) return;
+  const four = { minItems: 4, maxItems: 4 };
+  checkArray(out, value.slots, `${path}.slots`, (v, p) => v !== null && checkCardId(out, v, p), four);
+  checkArray(out, value.resolvedMask, `${path}.resolvedMask`, (v, p) => checkBool(out, v, p), four);
+  checkNullableInt(out, value.carriedIndex, `${path}.carriedIndex`, 0, 3);
+  checkNullableInt(out, value.carryChoiceIndex, `${path}.carryChoiceIndex`, 0, 3);
+  checkBool(out, value.leapUsed, `${path}.leapUsed`);
+  checkBool(out, value.healingUsedThisRoom, `${path}.healingUsedThisRoom`);
+  checkArray(out, value.pendingCleanses, `${path}.pendingCleanses`, (v, p) => checkBool(out, v, p), four);
+  checkArray(out, value.disabledFateActionsThisRoom, `${path}.disabledFateActionsThisRoom`, (v, p) => checkEnum(out, v, p, ["CLEANSE", "REROLL"]), {
+    uniqueItems: true
+  });
+  checkBool(out, value.hangedManTriggeredThisRoom, `${path}.hangedManTriggeredThisRoom`);
+}
+
+function checkMajors(out: Out, value: unknown) {
+  const path = "majors";
+  if (!checkObject(out, value, path, ["claimed", "attuned", "spentThisFloor"])) return;
+  const item = (v: unknown, p: string) => checkEnum(out, v, p, ALL_MAJORS);
+  checkArray(out, value.claimed, `${path}.claimed`, item, { uniqueItems: true });
+  checkArray(out, value.attuned, `${path}.attuned`, item, { maxItems: 3, uniqueItems: true });
+  checkArray(out, value.spentThisFloor, `${path}.spentThisFloor`, item, { uniqueItems: true });
+}
+
+function checkRules(out: Out, value: unknown) {
+  const path = "rules";
+  if (!checkObject(out, value, path, ["weaponRestrictionMode", "orderConstraint"])) return;
+  checkEnum(out, value.weaponRestrictionMode, `${path}.weaponRestrictionMode`, ["DEFAULT", "STRICT"]);
+  const oc = value.orderConstraint;
+  if (checkObject(out, oc, `${path}.orderConstraint`, ["kind", "requiresChooseCarriedFirst", "scopeMajorId"])) {
+    checkEnum(out, oc.kind, `${path}.orderConstraint.kind`, ["NONE", "LEFT_TO_RIGHT", "RIGHT_TO_LEFT", "SUIT_ORDER", "ASC_ORDERING_VALUE"]);
+    checkBool(out, oc.requiresChooseCarriedFirst, `${path}.orderConstraint.requiresChooseCarriedFirst`);
+    checkEnum(out, oc.scopeMajorId, `${path}.orderConstraint.scopeMajorId`, [null, ...ALL_MAJORS]);
+  }
+}
+
+function checkPendingPrompt(out: Out, value: unknown, path: string) {
+  if (!isPlainObject(value)) {
+    schema(out, path, "must be an object");
+    return;
+  }
+  const kind = value.kind;
+  if (kind === "ACE" || kind === "ENEMY_FIGHT" || kind === "SWORDS_AMBUSH_BLOCK" || kind === "CUPS_8_10") {
+    if (checkObject(out, value, path, ["kind", "cardId"])) checkCardId(out, value.cardId, `${path}.cardId`);
+  } else if (kind === "MAJOR_CHOICE") {
+    if (!checkObject(out, value, path, ["kind", "majorId", "promptKey", "optionIds"])) return;
+    checkEnum(out, value.majorId, `${path}.majorId`, ALL_MAJORS);
+    if (typeof value.promptKey !== "string") schema(out, `${path}.promptKey`, "must be a string");
+    checkArray(out, value.optionIds, `${path}.optionIds`, (v, p) => typeof v !== "string" && schema(out, p, "must be a string"));
+  } else if (kind === "MAJOR_BARGAIN") {
+    if (!checkObject(out, value, path, ["kind", "majorId", "promptKey", "options"])) return;
+    checkEnum(out, value.majorId, `${path}.majorId`, ALL_MAJORS);
+    if (typeof value.promptKey !== "string") schema(out, `${path}.promptKey`, "must be a string");
+    checkArray(out, value.options, `${path}.options`, (v, p) => checkEnum(out, v, p, ["pay", "takeDamage"]));
+  } else if (kind === "MAJOR_REORDER_TOP3" || kind === "MAJOR_REORDER_ROOM4") {
+    if (checkObject(out, value, path, ["kind", "majorId"])) checkEnum(out, value.majorId, `${path}.majorId`, ALL_MAJORS);
+  } else {
+    schema(out, `${path}.kind`, "unknown prompt kind");
+  }
+}
+
+function checkMajorPrompt(out: Out, value: unknown, path: string) {
+  if (!isPlainObject(value)) {
+    schema(out, path, "must be an object");
+    return;
+  }
+  const objects = (v: unknown, p: string) => !isPlainObject(v) && schema(out, p, "must be an object");
+  const kind = value.kind;
+  if (kind === "CHOICE") {
+    if (!checkObject(out, value, path, ["kind", "majorId", "promptKey", "optionIds", "optionEffects"])) return;
+    checkArray(out, value.optionIds, `${path}.optionIds`, (v, p) => typeof v !== "string" && schema(out, p, "must be a string"));
+    checkArray(out, value.optionEffects, `${path}.optionEffects`, objects);
+  } else if (kind === "BARGAIN") {
+    if (!checkObject(out, value, path, ["kind", "majorId", "promptKey", "options", "bargainOptions"])) return;
+    checkArray(out, value.options, `${path}.options`, (v, p) => checkEnum(out, v, p, ["pay", "takeDamage"]));
+    checkArray(out, value.bargainOptions, `${path}.bargainOptions`, objects);
+  } else if (kind === "REORDER_TOP3" || kind === "REORDER_ROOM4") {
+    if (!checkObject(out, value, path, ["kind", "majorId"])) return;
+  } else if (kind === "SELECT_TARGET") {
+    if (!checkObject(out, value, path, ["kind", "majorId", "effect", "candidates"])) return;
+    objects(value.effect, `${path}.effect`);
+    checkArray(out, value.candidates, `${path}.candidates`, (v, p) => checkInt(out, v, p, 0, 3));
+  } else {
+    schema(out, `${path}.kind`, "unknown major prompt kind");
+    return;
+  }
+  checkEnum(out, value.majorId, `${path}.majorId`, ALL_MAJORS);
+  if ("promptKey" in value && typeof value.promptKey !== "string") schema(out, `${path}.promptKey`, "must be a string");
+}
+
+function checkPending(out: Out, value: unknown) {
+  const path = "pending";
+  if (!checkObject(out, value, path, ["resolution", "prompt", "majorPrompt", "floorStart"])) return;
+  const r = value.resolution;
+  if (r !== null && checkObject(out, r, `${path}.resolution`, ["slotIndex", "cardId"])) {
+    checkInt(out, r.slotIndex, `${path}.resolution.slotIndex`, 0, 3);
+    checkCardId(out, r.cardId, `${path}.resolution.cardId`);
+  }
+  if (value.prompt !== null) checkPendingPrompt(out, value.prompt, `${path}.prompt`);
+  if (value.majorPrompt !== null) checkMajorPrompt(out, value.majorPrompt, `${path}.majorPrompt`);
+  const f = value.floorStart;
+  if (f !== null && checkObject(out, f, `${path}.floorStart`, ["floorNumber", "attunementChosen", "floorStartHookApplied", "orderConstraintHookApplied"])) {
+    checkInt(out, f.floorNumber, `${path}.floorStart.floorNumber`, 1, 21);
+    checkBool(out, f.attunementChosen, `${path}.floorStart.attunementChosen`);
+    checkBool(out, f.floorStartHookApplied, `${path}.floorStart.floorStartHookApplied`);
+    checkBool(out, f.orderConstraintHookApplied, `${path}.floorStart.orderConstraintHookApplied`);
+  }
+}
+
+function checkStructure(out: Out, state: unknown): boolean {
+  const required = ["phase", "runLengthTarget", "fateCap", "rng", "player", "decks", "floor", "room", "majors", "lastRoomWasFlee", "rules", "pending"];
+  if (!checkObject(out, state, "", required, ["debug"])) return false;
+  const before = out.length;
+  checkEnum(out, state.phase, "phase", PHASE_IDS);
+  checkEnum(out, state.runLengthTarget, "runLengthTarget", [7, 14, 21]);
+  checkEnum(out, state.fateCap, "fateCap", [10]);
+  if (checkObject(out, state.rng, "rng", ["algo", "state"], ["streams"])) {
+    checkEnum(out, state.rng.algo, "rng.algo", RNG_ALGOS);
+    checkInt(out, state.rng.state, "rng.state", 0, 0xffffffff);
+    const streams = state.rng.streams;
+    if (streams !== undefined && checkObject(out, streams, "rng.streams", RNG_STREAMS)) {
+      for (const stream of RNG_STREAMS) checkInt(out, streams[stream], `rng.streams.${stream}`, 1, 0xffffffff);
+    }
+  }
+  checkPlayer(out, state.player);
+  checkDecks(out, state.decks);
+  checkFloor(out, state.floor);
+  checkRoom(out, state.room);
+  checkMajors(out, state.majors);
+  checkBool(out, state.lastRoomWasFlee, "lastRoomWasFlee");
+  checkRules(out, state.rules);
+  checkPending(out, state.pending);
+  if (state.debug !== undefined && !isPlainObject(state.debug)) schema(out, "debug", "must be an object");
+  return out.length === before;
+}
+
+function checkRulesInvariants(out: Out, state: RunState) {
+  const add = (code: StateViolationCode, path: string, message: string) => out.push({ code, path, message });
+  const { player, room, floor, majors } = state;
+
+  if (player.hp > player.maxHp) add("HP_OUT_OF_RANGE", "player.hp", `hp ${player.hp} exceeds maxHp ${player.maxHp}`);
+  if (player.fate > state.fateCap) add("FATE_OUT_OF_RANGE", "player.fate", `fate ${player.fate} exceeds fateCap ${state.fateCap}`);
+  if (player.hp <= 0 && state.phase !== "RunDefeat") add("DEFEAT_MISMATCH", "phase", `hp is 0 but phase is ${state.phase}`);
+
+  majors.attuned.forEach((id, i) => {
+    if (!majors.claimed.includes(id)) add("ATTUNED_NOT_CLAIMED", `majors.attuned[${i}]`, `${id} is attuned but not claimed`);
+  });
+  state.decks.majorDeck.forEach((id, i) => {
+    if (id === floor.activeMajorId) add("MAJOR_DECK_OVERLAP", `decks.majorDeck[${i}]`, `${id} is both in the major deck and the active floor major`);
+    if (majors.claimed.includes(id)) add("MAJOR_DECK_OVERLAP", `decks.majorDeck[${i}]`, `${id} is both in the major deck and claimed`);
+  });
+
+  const minors = state.decks.cards.minors;
+  for (const [id, card] of Object.entries(minors)) {
+    if (card.id !== id) add("UNKNOWN_CARD", `decks.cards.minors.${id}.id`, `registry key ${id} holds card ${card.id}`);
+  }
+  room.slots.forEach((id, i) => {
+    if (id !== null && !minors[id]) add("UNKNOWN_CARD", `room.slots[${i}]`, `unknown card ${id}`);
+    if (id !== null && room.resolvedMask[i]) add("ROOM_MASK_MISMATCH", `room.resolvedMask[${i}]`, `slot ${i} is resolved but still holds ${id}`);
+  });
+
+  const audit = auditCardZones(state);
+  if (isCardConservationViolated(audit)) add("CARD_NOT_CONSERVED", "decks.cards.minors", formatZoneAudit(audit));
+
+  for (const key of ["carriedIndex", "carryChoiceIndex"] as const) {
+    const idx = room[key];
+    if (idx === null) continue;
+    if (room.slots[idx] === null && !room.resolvedMask[idx]) add("CARRIED_INDEX_INVALID", `room.${key}`, `${key} ${idx} points at an empty slot`);
+  }
+
+  if (floor.bossMode !== (floor.bossDeck !== null)) add("BOSS_STATE_MISMATCH", "floor.bossDeck", "bossDeck must be set exactly when bossMode is on");
+  if (floor.bossRoomsCompleted > floor.bossRoomsRequired) {
+    add("BOSS_STATE_MISMATCH", "floor.bossRoomsCompleted", `completed ${floor.bossRoomsCompleted} of ${floor.bossRoomsRequired} boss rooms`);
+  }
+
+  const { prompt, majorPrompt } = state.pending;
+  const terminal = state.phase === "RunVictory" || state.phase === "RunDefeat";
+  if (prompt) {
+    if (terminal) add("PHASE_PROMPT_MISMATCH", "pending.prompt", `prompt ${prompt.kind} outstanding in terminal phase ${state.phase}`);
+    else if (prompt.kind.startsWith("MAJOR_") && !MAJOR_PROMPT_PHASES.includes(state.phase)) {
+      add("PHASE_PROMPT_MISMATCH", "pending.prompt", `prompt ${prompt.kind} outstanding in phase ${state.phase}`);
+    }
+    if (prompt.kind.startsWith("MAJOR_") && !majorPrompt) add("PHASE_PROMPT_MISMATCH", "pending.majorPrompt", "major prompt payload missing");
+  } else if (majorPrompt) {
+    add("PHASE_PROMPT_MISMATCH", "pending.majorPrompt", "major prompt payload without a pending prompt");
+  }
+  if (prompt && "majorId" in prompt && majorPrompt && prompt.majorId !== majorPrompt.majorId) {
+    add("PHASE_PROMPT_MISMATCH", "pending.majorPrompt.majorId", `payload is for ${majorPrompt.majorId} but the prompt is for ${prompt.majorId}`);
+  }
+
+  const pending = state.pending.resolution;
+  if (state.phase === "ResolveExecute" && !pending) add("PENDING_RESOLUTION_MISMATCH", "pending.resolution", "ResolveExecute without a pending resolution");
+  if (pending) {
+    if (state.phase !== "ResolveExecute") add("PENDING_RESOLUTION_MISMATCH", "pending.resolution", `pending resolution outstanding in phase ${state.phase}`);
+    if (room.slots[pending.slotIndex] !== pending.cardId) {
+      add("PENDING_RESOLUTION_MISMATCH", "pending.resolution", `slot ${pending.slotIndex} does not hold ${pending.cardId}`);
+    }
+  }
+
+  const floorStart = state.pending.floorStart;
+  if (state.phase !== "RunInit" && floorStart?.floorNumber !== floor.floorNumber) {
+    add("FLOOR_START_MISMATCH", "pending.floorStart", `floor-start progress is for floor ${floorStart?.floorNumber ?? "none"}, current floor is ${floor.floorNumber}`);
+  }
+}
+
+/**
+ * Dev-mode validation (spec §9): checks `state` against run_state.schema.json and the rules invariants the engine relies
+ * on. Never throws; an empty list means the state is valid.
+ */
+export function validateState(state: unknown): StateViolation[] {
+  const out: StateViolation[] = [];
+  // Rules invariants assume the structure is sound; skip them rather than crash on malformed input.
+  if (checkStructure(out, state)) checkRulesInvariants(out, state as RunState);
+  return out;
+}
@@ -0,0 +1,77 @@
+import { readFileSync } from "node:fs";
+
+import { beforeAll, describe, expect, it } from "vitest";
+
+import { loadContent } from "./content.js";
+import { applyAction, createRun, getLegalActions } from "./engine.js";
+import type { LegalAction, RunState } from "./types.js";
+import { auditCardZones, isCardConservationViolated } from "./zoneAudit.js";
+
+beforeAll(() => {
+  const majors = JSON.parse(readFileSync(new URL("../../game-data/content/majors.json", import.meta.url), "utf8"));
+  const strings = JSON.parse(readFileSync(new URL("../../game-data/content/strings.en.json", import.meta.url), "utf8"));
+  loadContent({ majors, strings });
+});
+
+// Prefers weapon fights and new weapons so tucked stacks are built and later discarded.
+function chooseAction(state: RunState): LegalAction {
+  const legal = getLegalActions(state);
+  return (
+    legal.find((a) => a.type === "ENEMY_FIGHT_CHOICE" && a.enemyMode === "weapon") ??
+    legal.find((a) => a.type === "CHOOSE_ENGAGE") ??
+    legal.find((a) => a.type === "COMMIT_RESOLVE") ??
+    legal[0]!
+  );
+}
+
+describe("Card zone audit", () => {
+  it("maps all 56 minors to exactly one zone at run start", () => {
+    const audit = auditCardZones(createRun({ seed: 1, runLengthTarget: 7 }));
+    expect(Object.keys(audit.locations)).toHaveLength(56);
+    expect(isCardConservationViolated(audit)).toBe(false);
+    for (const at of Object.values(audit.locations)) expect(at).toEqual([expect.objectContaining({ zone: "minorDeck" })]);
+  });
+
+  it("reports duplicated, missing and unknown cards", () => {
+    const s = createRun({ seed: 2, runLengthTarget: 7 });
+    const [first, second] = s.decks.minorDeck;
+    s.floor.floorDiscard.push(first!);
+    s.decks.minorDeck.splice(1, 1);
+    s.room.slots[0] = "cups_11";
+
+    const audit = auditCardZones(s);
+    expect(audit.duplicates).toEqual([first]);
+    expect(audit.locations[first!]).toEqual([
+      { zone: "minorDeck", index: 0 },
+      { zone: "floorDiscard", index: 0 }
+    ]);
+    expect(audit.missing).toEqual([second]);
+    expect(audit.unknown).toEqual(["cups_11"]);
+  });
+
+  it("keeps tucked enemies, boss decks and floor rebuilds conserved under strict mode", () => {
+    let sawTucked = false;
+    let sawBoss = false;
+    let sawSecondFloor = false;
+    for (const seed of [123, 999]) {
+      let s = createRun({ seed, runLengthTarget: 7 });
+      s.player.hp = 999;
+      s.player.maxHp = 999;
+      for (let i = 0; i < 1500 && s.phase !== "RunVictory" && s.phase !== "RunDefeat" && s.floor.floorNumber < 3; i += 1) {
+        s = applyAction(s, chooseAction(s), { strict: true }).nextState;
+        if (s.player.weapon?.tuckedEnemyIds.length) sawTucked = true;
+        if (s.floor.bossMode) sawBoss = true;
+        if (s.floor.floorNumber >= 2) sawSecondFloor = true;
+      }
+    }
+    expect(sawTucked).toBe(true);
+    expect(sawBoss).toBe(true);
+    expect(sawSecondFloor).toBe(true);
+  });
+
+  it("throws in strict mode when an action breaks conservation", () => {
+    const s = createRun({ seed: 3, runLengthTarget: 7 });
+    s.decks.minorDeck.push(s.decks.minorDeck[0]!);
+    expect(() => applyAction(s, { type: "SELECT_ATTUNEMENT", majorIds: [] }, { strict: true })).toThrow("Card conservation violated after SELECT_ATTUNEMENT");
+  });
+});
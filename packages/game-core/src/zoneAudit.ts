@@ -0,0 +1,72 @@
+import { InternalEngineError } from "./errors.js";
+import type { CardId, RunState } from "./types.js";
+
+export type CardZone = "minorDeck" | "bossDeck" | "floorDiscard" | "room" | "weapon" | "weaponTucked" | "armor" | "spell";
+
+// `index` is the position inside the zone: deck/discard position, room slot, or tuck order under the weapon.
+export type CardLocation = { zone: CardZone; index: number };
+
+export type ZoneAudit = {
+  // Every registry card mapped to where it was found. Conserved cards have exactly one location.
+  locations: Record<CardId, CardLocation[]>;
+  duplicates: CardId[];
+  missing: CardId[];
+  // Ids found in a zone that the card registry does not know about.
+  unknown: CardId[];
+};
+
+export function auditCardZones(state: RunState): ZoneAudit {
+  const locations: Record<CardId, CardLocation[]> = {};
+  for (const id of Object.keys(state.decks.cards.minors)) locations[id] = [];
+
+  const unknown: CardId[] = [];
+  const record = (cardId: CardId, zone: CardZone, index: number) => {
+    const at = locations[cardId];
+    if (!at) {
+      if (!unknown.includes(cardId)) unknown.push(cardId);
+      return;
+    }
+    at.push({ zone, index });
+  };
+
+  state.decks.minorDeck.forEach((id, i) => record(id, "minorDeck", i));
+  (state.floor.bossDeck ?? []).forEach((id, i) => record(id, "bossDeck", i));
+  state.floor.floorDiscard.forEach((id, i) => record(id, "floorDiscard", i));
+  state.room.slots.forEach((id, i) => {
+    if (id !== null) record(id, "room", i);
+  });
+
+  const { weapon, armor, spell } = state.player;
+  if (weapon) {
+    record(weapon.cardId, "weapon", 0);
+    weapon.tuckedEnemyIds.forEach((id, i) => record(id, "weaponTucked", i));
+  }
+  if (armor) record(armor.cardId, "armor", 0);
+  if (spell) record(spell.cardId, "spell", 0);
+
+  const ids = Object.keys(locations).sort();
+  return {
+    locations,
+    duplicates: ids.filter((id) => locations[id]!.length > 1),
+    missing: ids.filter((id) => locations[id]!.length === 0),
+    unknown
+  };
+}
+
+export function isCardConservationViolated(audit: ZoneAudit): boolean {
+  return audit.duplicates.length > 0 || audit.missing.length > 0 || audit.unknown.length > 0;
+}
+
+export function formatZoneAudit(audit: ZoneAudit): string {
+  const where = (id: CardId) => (audit.locations[id] ?? []).map((l) => `${l.zone}[${l.index}]`).join(", ");
+  const parts: string[] = [];
+  if (audit.duplicates.length) parts.push(`duplicated: ${audit.duplicates.map((id) => `${id} (${where(id)})`).join("; ")}`);
+  if (audit.missing.length) parts.push(`missing: ${audit.missing.join(", ")}`);
+  if (audit.unknown.length) parts.push(`unknown: ${audit.unknown.join(", ")}`);
+  return parts.length ? parts.join(" | ") : "all cards conserved";
+}
+
+export function assertCardConservation(state: RunState, context: string): void {
+  const audit = auditCardZones(state);
+  if (isCardConservationViolated(audit)) throw new InternalEngineError(`Card conservation violated after ${context}: ${formatZoneAudit(audit)}`);
+}
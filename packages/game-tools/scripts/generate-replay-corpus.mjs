@@ -0,0 +1,77 @@
+import { mkdirSync, readFileSync, writeFileSync } from "node:fs";
+import { resolve } from "node:path";
+
+import { applyAction, getLegalActions, hashRunState, loadContent, startRun } from "@fg/game-core";
+
+import { createPolicy } from "../dist/index.js";
+
+const repoRoot = resolve(import.meta.dirname, "../../..");
+const replaysDir = resolve(repoRoot, "replays");
+const outFile = resolve(replaysDir, "corpus_v1.json");
+
+const majors = JSON.parse(readFileSync(resolve(repoRoot, "packages/game-data/content/majors.json"), "utf8"));
+const strings = JSON.parse(readFileSync(resolve(repoRoot, "packages/game-data/content/strings.en.json"), "utf8"));
+loadContent({ majors, strings });
+
+const policy = createPolicy("greedy", { seed: 0 });
+const enginePkg = JSON.parse(readFileSync(resolve(repoRoot, "packages/game-core/package.json"), "utf8"));
+
+function nowFixedUTC() {
+  return "2025-12-27T00:00:00.000Z";
+}
+
+const RUNS = 120;
+// The first runs also record their event stream so event consumers are regression-tested; the rest stay small.
+const RUNS_WITH_EVENTS = 8;
+const corpus = {
+  format: "fg-replay-corpus",
+  corpusVersion: 1,
+  createdAtUTC: nowFixedUTC(),
+  engineVersion: enginePkg.version,
+  contentVersion: majors.contentVersion,
+  specVersion: "v1.1",
+  runs: []
+};
+
+for (let i = 0; i < RUNS; i += 1) {
+  const seed = 10_000 + i;
+  const runLengthTarget = 7;
+  // corpus_v1 predates seed derivation: its START_RUN actions carry no seedDerivation and replay with the legacy one,
+  // which keeps these hashes pinning legacy logs bit-for-bit.
+  const started = startRun({ seed, runLengthTarget, seedDerivation: 0 });
+  let state = started.nextState;
+
+  const actions = [{ type: "START_RUN", seed, runLengthTarget }];
+  const checkpoints = [];
+  const events = [started.events];
+
+  checkpoints.push({ stepIndex: 0, stateHash: await hashRunState(state) });
+
+  for (let step = 0; step < 450; step += 1) {
+    if (state.phase === "RunVictory" || state.phase === "RunDefeat") break;
+    const action = policy.choose(state, getLegalActions(state));
+    actions.push(action);
+    const result = applyAction(state, action);
+    state = result.nextState;
+    events.push(result.events);
+    if (actions.length % 10 === 0) checkpoints.push({ stepIndex: actions.length - 1, stateHash: await hashRunState(state) });
+  }
+
+  corpus.runs.push({
+    header: {
+      engineVersion: enginePkg.version,
+      contentVersion: majors.contentVersion,
+      specVersion: "v1.1",
+      createdAtUTC: nowFixedUTC()
+    },
+    seed,
+    actions,
+    checkpoints,
+    ...(i < RUNS_WITH_EVENTS ? { events } : {})
+  });
+}
+
+mkdirSync(replaysDir, { recursive: true });
+writeFileSync(outFile, JSON.stringify(corpus, null, 2));
+console.log(`Wrote ${RUNS} runs → ${outFile}`);
+
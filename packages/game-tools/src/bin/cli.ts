@@ -0,0 +1,33 @@
+import type { RunLengthTarget } from "../sim.js";
+
+export type Cli = {
+  fail(message: string): never;
+  int(name: string, value: string | undefined, fallback: number, min: number): number;
+  runLengths(name: string, value: string): RunLengthTarget[];
+};
+
+// Argument checks shared by the fg-* commands; a bad argument prints the usage and exits with status 2. Declare the
+// result with an explicit `Cli` type so that TypeScript treats `fail` as ending control flow.
+export function createCli(command: string, usage: string): Cli {
+  function fail(message: string): never {
+    process.stderr.write(`${command}: ${message}\n\n${usage}\n`);
+    process.exit(2);
+  }
+
+  return {
+    fail,
+    int(name, value, fallback, min) {
+      if (value === undefined) return fallback;
+      const n = Number(value);
+      if (!Number.isSafeInteger(n) || n < min) fail(`--${name} must be an integer >= ${min}, got "${value}"`);
+      return n;
+    },
+    runLengths(name, value) {
+      return value.split(",").map((part) => {
+        const n = Number(part.trim());
+        if (n !== 7 && n !== 14 && n !== 21) fail(`--${name} accepts 7, 14 and 21, got "${part}"`);
+        return n;
+      });
+    }
+  };
+}
@@ -0,0 +1,76 @@
+#!/usr/bin/env node
+import { mkdirSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import { parseArgs } from "node:util";
+
+import { readContentRegistry } from "../content.js";
+import { POLICY_NAMES, isPolicyName } from "../policies/registry.js";
+import { buildBalanceReport, renderBalanceCsv, renderBalanceMarkdown } from "../report.js";
+import { simulateRuns } from "../sim.js";
+import { createCli } from "./cli.js";
+import type { Cli } from "./cli.js";
+
+const USAGE = `Usage: fg-report [options]
+
+Simulates --runs seeds for every run length and charges what happened to the Majors: each floor to the Major whose
+shadow was active, each run to the gifts it attuned. Prints the Markdown report, or with --out-dir writes
+balance.md, shadows.csv and gifts.csv there.
+
+  --policy <name>      ${POLICY_NAMES.join(" | ")} (default riskAware)
+  --runs <n>           seeds per run length (default 200)
+  --seed <n>           first seed (default 1)
+  --lengths <list>     comma-separated run lengths from 7,14,21 (default 7)
+  --content <dir>      directory holding majors.json and strings.en.json (default packages/game-data/content)
+  --max-steps <n>      actions before a run counts as stalled (default 5000)
+  --iterations <n>     mcts simulations per decision (default 200)
+  --out-dir <dir>      destination of balance.md, shadows.csv and gifts.csv
+  -h, --help`;
+
+const cli: Cli = createCli("fg-report", USAGE);
+
+let parsed;
+try {
+  parsed = parseArgs({
+    options: {
+      policy: { type: "string", default: "riskAware" },
+      runs: { type: "string" },
+      seed: { type: "string" },
+      lengths: { type: "string", default: "7" },
+      content: { type: "string" },
+      "max-steps": { type: "string" },
+      iterations: { type: "string" },
+      "out-dir": { type: "string" },
+      help: { type: "boolean", short: "h" }
+    }
+  }).values;
+} catch (err) {
+  cli.fail((err as Error).message);
+}
+
+if (parsed.help) {
+  process.stdout.write(`${USAGE}\n`);
+  process.exit(0);
+}
+
+const policy = parsed.policy;
+if (!isPolicyName(policy)) cli.fail(`unknown policy "${policy}"`);
+const runs = cli.int("runs", parsed.runs, 200, 1);
+const firstSeed = cli.int("seed", parsed.seed, 1, Number.MIN_SAFE_INTEGER);
+const maxSteps = cli.int("max-steps", parsed["max-steps"], 5000, 1);
+const iterations = cli.int("iterations", parsed.iterations, 200, 1);
+const lengths = cli.runLengths("lengths", parsed.lengths);
+const content = parsed.content === undefined ? readContentRegistry() : readContentRegistry(parsed.content);
+
+const results = [...simulateRuns({ firstSeed, runs, runLengths: lengths, policy, content, maxSteps, policySettings: { iterations } })];
+const report = buildBalanceReport(results, content);
+const markdown = renderBalanceMarkdown(report);
+
+const outDir = parsed["out-dir"];
+if (outDir === undefined) process.stdout.write(markdown);
+else {
+  const csv = renderBalanceCsv(report);
+  mkdirSync(outDir, { recursive: true });
+  writeFileSync(join(outDir, "balance.md"), markdown);
+  writeFileSync(join(outDir, "shadows.csv"), csv.shadows);
+  writeFileSync(join(outDir, "gifts.csv"), csv.gifts);
+}
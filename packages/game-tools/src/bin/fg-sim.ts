@@ -0,0 +1,74 @@
+#!/usr/bin/env node
+import { createWriteStream, writeFileSync } from "node:fs";
+import { parseArgs } from "node:util";
+
+import { readContentRegistry } from "../content.js";
+import { POLICY_NAMES, isPolicyName } from "../policies/registry.js";
+import { simulateRuns, summarizeRuns } from "../sim.js";
+import type { SimRunResult } from "../sim.js";
+import { createCli } from "./cli.js";
+import type { Cli } from "./cli.js";
+
+const USAGE = `Usage: fg-sim [options]
+
+Plays --runs seeds for every run length under one policy. Writes one JSON result per run (NDJSON) to --out or stdout
+and the aggregate summary to --summary or stderr.
+
+  --policy <name>      ${POLICY_NAMES.join(" | ")} (default greedy)
+  --runs <n>           seeds per run length (default 100)
+  --seed <n>           first seed (default 1)
+  --lengths <list>     comma-separated run lengths from 7,14,21 (default 7)
+  --content <dir>      directory holding majors.json and strings.en.json (default packages/game-data/content)
+  --max-steps <n>      actions before a run counts as stalled (default 5000)
+  --iterations <n>     mcts simulations per decision (default 200)
+  --out <file>         NDJSON destination
+  --summary <file>     summary destination
+  -h, --help`;
+
+const cli: Cli = createCli("fg-sim", USAGE);
+
+let parsed;
+try {
+  parsed = parseArgs({
+    options: {
+      policy: { type: "string", default: "greedy" },
+      runs: { type: "string" },
+      seed: { type: "string" },
+      lengths: { type: "string", default: "7" },
+      content: { type: "string" },
+      "max-steps": { type: "string" },
+      iterations: { type: "string" },
+      out: { type: "string" },
+      summary: { type: "string" },
+      help: { type: "boolean", short: "h" }
+    }
+  }).values;
+} catch (err) {
+  cli.fail((err as Error).message);
+}
+
+if (parsed.help) {
+  process.stdout.write(`${USAGE}\n`);
+  process.exit(0);
+}
+
+const policy = parsed.policy;
+if (!isPolicyName(policy)) cli.fail(`unknown policy "${policy}"`);
+const runs = cli.int("runs", parsed.runs, 100, 1);
+const firstSeed = cli.int("seed", parsed.seed, 1, Number.MIN_SAFE_INTEGER);
+const maxSteps = cli.int("max-steps", parsed["max-steps"], 5000, 1);
+const iterations = cli.int("iterations", parsed.iterations, 200, 1);
+const lengths = cli.runLengths("lengths", parsed.lengths);
+const content = parsed.content === undefined ? readContentRegistry() : readContentRegistry(parsed.content);
+
+const out = parsed.out === undefined ? process.stdout : createWriteStream(parsed.out);
+const results: SimRunResult[] = [];
+for (const result of simulateRuns({ firstSeed, runs, runLengths: lengths, policy, content, maxSteps, policySettings: { iterations } })) {
+  results.push(result);
+  out.write(`${JSON.stringify(result)}\n`);
+}
+if (out !== process.stdout) out.end();
+
+const summary = `${JSON.stringify({ policy, contentVersion: content.contentVersion, ...summarizeRuns(results) }, null, 2)}\n`;
+if (parsed.summary === undefined) process.stderr.write(summary);
+else writeFileSync(parsed.summary, summary);
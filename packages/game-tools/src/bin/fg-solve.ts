@@ -0,0 +1,56 @@
+#!/usr/bin/env node
+import { writeFileSync } from "node:fs";
+import { parseArgs } from "node:util";
+
+import { readContentRegistry } from "../content.js";
+import { solveSeed } from "../solver.js";
+import { createCli } from "./cli.js";
+import type { Cli } from "./cli.js";
+
+const USAGE = `Usage: fg-solve [options]
+
+Decides with full knowledge of the deck whether a seed can be won. Prints the verdict and node counts as JSON; a
+winning action log can be written with --out and replayed like any other.
+
+  --seed <n>           run seed (default 1)
+  --length <n>         run length: 7, 14 or 21 (default 7)
+  --floors <n>         only ask whether this many floors can be cleared
+  --max-nodes <n>      explored states before answering "unknown" (default 100000)
+  --content <dir>      directory holding majors.json and strings.en.json (default packages/game-data/content)
+  --out <file>         witness action log destination
+  -h, --help`;
+
+const cli: Cli = createCli("fg-solve", USAGE);
+
+let parsed;
+try {
+  parsed = parseArgs({
+    options: {
+      seed: { type: "string" },
+      length: { type: "string", default: "7" },
+      floors: { type: "string" },
+      "max-nodes": { type: "string" },
+      content: { type: "string" },
+      out: { type: "string" },
+      help: { type: "boolean", short: "h" }
+    }
+  }).values;
+} catch (err) {
+  cli.fail((err as Error).message);
+}
+
+if (parsed.help) {
+  process.stdout.write(`${USAGE}\n`);
+  process.exit(0);
+}
+
+const seed = cli.int("seed", parsed.seed, 1, Number.MIN_SAFE_INTEGER);
+const [runLengthTarget, ...extra] = cli.runLengths("length", parsed.length);
+if (!runLengthTarget || extra.length) cli.fail("--length takes a single run length");
+const floorLimit = cli.int("floors", parsed.floors, runLengthTarget, 1);
+const maxNodes = cli.int("max-nodes", parsed["max-nodes"], 100_000, 1);
+const content = parsed.content === undefined ? readContentRegistry() : readContentRegistry(parsed.content);
+
+const { witness, ...result } = solveSeed({ seed, runLengthTarget, content, floorLimit, maxNodes });
+if (witness && parsed.out !== undefined) writeFileSync(parsed.out, JSON.stringify(witness, null, 2));
+process.stdout.write(`${JSON.stringify({ seed, runLengthTarget, floorLimit, ...result, witnessActions: witness?.actions.length ?? null }, null, 2)}\n`);
@@ -0,0 +1,16 @@
+import { readFileSync } from "node:fs";
+import { resolve } from "node:path";
+import { pathToFileURL } from "node:url";
+
+import { createContentRegistry } from "@fg/game-core";
+import type { ContentRegistry } from "@fg/game-core";
+
+// packages/game-data/content; the same relative path from src/ and dist/.
+export const DEFAULT_CONTENT_DIR = new URL("../../game-data/content/", import.meta.url);
+
+// Reads majors.json and strings.en.json from `dir` into a registry of their own (the loaded default is left alone).
+export function readContentRegistry(dir: string | URL = DEFAULT_CONTENT_DIR): ContentRegistry {
+  const base = typeof dir === "string" ? pathToFileURL(`${resolve(dir)}/`) : dir;
+  const read = (file: string) => JSON.parse(readFileSync(new URL(file, base), "utf8"));
+  return createContentRegistry({ majors: read("majors.json"), strings: read("strings.en.json") });
+}
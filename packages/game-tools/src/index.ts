@@ -1 +1,19 @@
-export const placeholder = "game-tools ready";
+export { DEFAULT_CONTENT_DIR, readContentRegistry } from "./content.js";
+export { chooseGreedy, createGreedyPolicy } from "./policies/greedy.js";
+export { createLookaheadPolicy } from "./policies/lookahead.js";
+export type { LookaheadOptions } from "./policies/lookahead.js";
+export { createMctsPolicy, rankActionsByMcts } from "./policies/mcts.js";
+export type { MctsActionStats, MctsOptions } from "./policies/mcts.js";
+export { policyRng } from "./policies/policy.js";
+export type { Policy, PolicyOptions } from "./policies/policy.js";
+export { createRandomPolicy } from "./policies/random.js";
+export { POLICY_NAMES, createPolicy, isPolicyName } from "./policies/registry.js";
+export type { PolicyName, PolicySettings } from "./policies/registry.js";
+export { cardThreat, createRiskAwarePolicy, roomThreat } from "./policies/riskAware.js";
+export { determinize, evaluateState, isRunOver } from "./policies/search.js";
+export { buildBalanceReport, renderBalanceCsv, renderBalanceMarkdown } from "./report.js";
+export type { BalanceReport, GiftRow, ShadowRow } from "./report.js";
+export { simulateRun, simulateRuns, summarizeRuns } from "./sim.js";
+export type { RunLengthTarget, SimBatchConfig, SimFloorResult, SimOutcome, SimRunConfig, SimRunResult, SimSummary, SimSummaryGroup } from "./sim.js";
+export { dominanceResources, solveSeed } from "./solver.js";
+export type { SolveOptions, SolveResult, SolveVerdict } from "./solver.js";
@@ -0,0 +1,41 @@
+import type { LegalAction, RunState } from "@fg/game-core";
+
+import type { Policy } from "./policy.js";
+
+function sameOrder(order: number[], identity: number[]): boolean {
+  return order.length === identity.length && order.every((v, i) => v === identity[i]);
+}
+
+// The replay corpus heuristic: attune as much as possible, always engage, spend gifts at once, fight with the weapon,
+// keep deck and room order.
+export function chooseGreedy(state: RunState, legal: LegalAction[]): LegalAction {
+  if (state.phase === "FloorStart") {
+    let best = legal[0]!;
+    for (const a of legal) {
+      if (a.type === "SELECT_ATTUNEMENT" && best.type === "SELECT_ATTUNEMENT" && a.majorIds.length > best.majorIds.length) best = a;
+    }
+    return best;
+  }
+
+  const preferred =
+    legal.find((a) => a.type === "USE_MAJOR_GIFT") ??
+    legal.find((a) => a.type === "CHOOSE_ENGAGE") ??
+    legal.find((a) => a.type === "SELECT_CARRIED_CARD") ??
+    legal.find((a) => a.type === "COMMIT_RESOLVE") ??
+    legal.find((a) => a.type === "ENEMY_FIGHT_CHOICE" && a.enemyMode === "weapon") ??
+    legal.find((a) => a.type === "SWORDS_AMBUSH_BLOCK_CHOICE" && a.block) ??
+    legal.find((a) => a.type === "CUPS_8_10_CHOICE" && a.cupsChoice === "heal") ??
+    legal.find((a) => a.type === "REORDER_TOP3" && sameOrder(a.order, [0, 1, 2])) ??
+    legal.find((a) => a.type === "REORDER_ROOM4" && sameOrder(a.order, [0, 1, 2, 3]));
+  if (preferred) return preferred;
+
+  const ace = legal.find((a) => a.type === "ACE_CHOICE");
+  if (ace?.type === "ACE_CHOICE" && ace.optionId === "cleanse_free") {
+    return legal.find((a) => a.type === "ACE_CHOICE" && a.optionId === "heal_to_full") ?? ace;
+  }
+  return ace ?? legal[0]!;
+}
+
+export function createGreedyPolicy(): Policy {
+  return { name: "greedy", choose: chooseGreedy };
+}
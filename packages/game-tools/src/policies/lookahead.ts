@@ -0,0 +1,44 @@
+import { applyAction, getLegalActions } from "@fg/game-core";
+import type { LegalAction, RunState } from "@fg/game-core";
+
+import { policyRng } from "./policy.js";
+import type { Policy, PolicyOptions } from "./policy.js";
+import { determinize, evaluateState, isRunOver } from "./search.js";
+
+export type LookaheadOptions = PolicyOptions & {
+  // Actions searched ahead, this one included (default 2).
+  depth?: number;
+  // Deck orders each action is averaged over (default 3).
+  samples?: number;
+};
+
+/**
+ * Tries every legal action `depth` actions deep on `samples` guesses at the hidden state (see determinize) and plays the
+ * one with the best mean evaluateState, taking the best reply at every deeper level. All actions are scored on the same
+ * guesses, so luck cancels out between them.
+ */
+export function createLookaheadPolicy({ seed, content, depth = 2, samples = 3 }: LookaheadOptions): Policy {
+  const rng = policyRng(seed);
+  const options = content ? { content } : {};
+
+  function value(state: RunState, remaining: number): number {
+    if (remaining === 0 || isRunOver(state)) return evaluateState(state);
+    let best = -Infinity;
+    for (const action of getLegalActions(state, options)) best = Math.max(best, value(applyAction(state, action, options).nextState, remaining - 1));
+    return best === -Infinity ? evaluateState(state) : best;
+  }
+
+  function choose(state: RunState, legal: LegalAction[]): LegalAction {
+    if (legal.length === 1) return legal[0]!;
+    const guesses = Array.from({ length: samples }, () => determinize(state, rng));
+    let best = legal[0]!;
+    let bestValue = -Infinity;
+    for (const action of legal) {
+      let total = 0;
+      for (const guess of guesses) total += value(applyAction(guess, action, options).nextState, depth - 1);
+      if (total > bestValue) [best, bestValue] = [action, total];
+    }
+    return best;
+  }
+  return { name: "lookahead", choose };
+}
@@ -0,0 +1,48 @@
+import { applyAction, getLegalActions, startRun } from "@fg/game-core";
+import type { LegalAction, RunState } from "@fg/game-core";
+import { describe, expect, it } from "vitest";
+
+import { readContentRegistry } from "../content.js";
+import { createMctsPolicy, rankActionsByMcts } from "./mcts.js";
+import { createRiskAwarePolicy } from "./riskAware.js";
+
+const content = readContentRegistry();
+
+// The first state riskAware play reaches whose legal actions include two of type `type`.
+function findDecision(type: LegalAction["type"]): RunState {
+  for (let seed = 1; seed <= 50; seed += 1) {
+    const policy = createRiskAwarePolicy({ seed, content });
+    let state = startRun({ seed, runLengthTarget: 7, content }).nextState;
+    for (let legal = getLegalActions(state, { content }); legal.length; legal = getLegalActions(state, { content })) {
+      if (legal.filter((a) => a.type === type).length >= 2) return state;
+      state = applyAction(state, policy.choose(state, legal), { content }).nextState;
+    }
+  }
+  throw new Error(`No ${type} decision found`);
+}
+
+describe("MCTS", () => {
+  it("ranks every legal action of a Major prompt and of attunement", () => {
+    for (const type of ["REORDER_TOP3", "SELECT_ATTUNEMENT"] as const) {
+      const state = findDecision(type);
+      const ranked = rankActionsByMcts(state, { seed: 1, content, iterations: 60 });
+      expect(ranked.map((r) => r.action)).toEqual(expect.arrayContaining(getLegalActions(state, { content })));
+      expect(ranked.reduce((sum, r) => sum + r.visits, 0)).toBe(60);
+      expect(ranked[0]!.action.type).toBe(type);
+      expect(rankActionsByMcts(state, { seed: 1, content, iterations: 60 })).toEqual(ranked);
+    }
+  }, 60_000);
+
+  it("does not read the real deck order", () => {
+    const state = findDecision("COMMIT_RESOLVE");
+    const reordered: RunState = { ...state, decks: { ...state.decks, minorDeck: [...state.decks.minorDeck].reverse() } };
+    const settings = { seed: 3, content, iterations: 40 };
+    expect(rankActionsByMcts(reordered, settings)).toEqual(rankActionsByMcts(state, settings));
+  });
+
+  it("skips the search for forced actions", () => {
+    const state = startRun({ seed: 1, runLengthTarget: 7, content }).nextState;
+    const only = getLegalActions(state, { content }).slice(0, 1);
+    expect(createMctsPolicy({ seed: 1, content, iterations: 1_000_000 }).choose(state, only)).toBe(only[0]);
+  });
+});
@@ -0,0 +1,112 @@
+import { applyAction, getLegalActions, stableStringify } from "@fg/game-core";
+import type { LegalAction, Rng, RunState } from "@fg/game-core";
+
+import { policyRng } from "./policy.js";
+import type { Policy, PolicyOptions } from "./policy.js";
+import { createRiskAwarePolicy } from "./riskAware.js";
+import { determinize, evaluateState, isRunOver } from "./search.js";
+
+export type MctsOptions = PolicyOptions & {
+  // Simulations per decision (default 200). Decisions with one legal action are not searched.
+  iterations?: number;
+  // riskAware actions played out past the tree before a state is scored (default 12).
+  rolloutDepth?: number;
+  // UCB1 exploration constant (default 0.7).
+  exploration?: number;
+};
+
+// Root action statistics of one search, most visited first.
+export type MctsActionStats = { action: LegalAction; visits: number; meanReward: number };
+
+type Node = { visits: number; reward: number; availability: number; children: Map<string, Node> };
+
+function newNode(): Node {
+  return { visits: 0, reward: 0, availability: 0, children: new Map() };
+}
+
+// Victory 1, defeat 0, anything else in between by how much better than `root` it evaluates.
+function rewardOf(state: RunState, rootValue: number): number {
+  if (state.phase === "RunVictory") return 1;
+  if (isRunOver(state)) return 0;
+  return 0.5 + 0.45 * Math.tanh((evaluateState(state) - rootValue) / 300);
+}
+
+function createSearch(options: MctsOptions, rng: Rng) {
+  const { content, iterations = 200, rolloutDepth = 12, exploration = 0.7 } = options;
+  const engineOptions = content ? { content } : {};
+  const rollout = createRiskAwarePolicy(options);
+
+  function select(node: Node, legal: LegalAction[], keys: string[]): number {
+    let best = 0;
+    let bestScore = -Infinity;
+    for (let i = 0; i < legal.length; i += 1) {
+      const child = node.children.get(keys[i]!)!;
+      const score = child.reward / child.visits + exploration * Math.sqrt(Math.log(child.availability) / child.visits);
+      if (score > bestScore) [best, bestScore] = [i, score];
+    }
+    return best;
+  }
+
+  // One simulation on a fresh guess at the deck order: descend while every action has been tried, expand one, play out.
+  function simulate(root: Node, rootState: RunState, rootValue: number) {
+    let state = determinize(rootState, rng);
+    let node = root;
+    const path = [root];
+    while (!isRunOver(state)) {
+      const legal = getLegalActions(state, engineOptions);
+      if (!legal.length) break;
+      const keys = legal.map(stableStringify);
+      for (const key of keys) {
+        const child = node.children.get(key);
+        if (child) child.availability += 1;
+      }
+      const untried = keys.flatMap((key, i) => (node.children.has(key) ? [] : [i]));
+      const index = untried.length ? untried[rng.nextUint32() % untried.length]! : select(node, legal, keys);
+      if (untried.length) node.children.set(keys[index]!, { ...newNode(), availability: 1 });
+      node = node.children.get(keys[index]!)!;
+      path.push(node);
+      state = applyAction(state, legal[index]!, engineOptions).nextState;
+      if (untried.length) break;
+    }
+
+    for (let i = 0; i < rolloutDepth && !isRunOver(state); i += 1) {
+      const legal = getLegalActions(state, engineOptions);
+      if (!legal.length) break;
+      state = applyAction(state, rollout.choose(state, legal), engineOptions).nextState;
+    }
+
+    const reward = rewardOf(state, rootValue);
+    for (const n of path) {
+      n.visits += 1;
+      n.reward += reward;
+    }
+  }
+
+  return (state: RunState, legal: LegalAction[]): MctsActionStats[] => {
+    const root = newNode();
+    const rootValue = evaluateState(state);
+    for (let i = 0; i < iterations; i += 1) simulate(root, state, rootValue);
+    return legal
+      .map((action) => {
+        const child = root.children.get(stableStringify(action));
+        return { action, visits: child?.visits ?? 0, meanReward: child?.visits ? child.reward / child.visits : 0 };
+      })
+      .sort((a, b) => b.visits - a.visits || b.meanReward - a.meanReward);
+  };
+}
+
+/**
+ * Ranks the legal actions of `state` by an information-set MCTS: every simulation plays on its own guess at the decks,
+ * unseen orientations and RNG (see determinize), so the search never reads the real ones. Usable as an in-game hint;
+ * `seed` fixes the result.
+ */
+export function rankActionsByMcts(state: RunState, options: MctsOptions): MctsActionStats[] {
+  const legal = getLegalActions(state, options.content ? { content: options.content } : {});
+  return createSearch(options, policyRng(options.seed))(state, legal);
+}
+
+// Plays the most visited action of rankActionsByMcts, on every decision including Major prompts and attunement.
+export function createMctsPolicy(options: MctsOptions): Policy {
+  const search = createSearch(options, policyRng(options.seed));
+  return { name: "mcts", choose: (state, legal) => (legal.length === 1 ? legal[0]! : search(state, legal)[0]!.action) };
+}
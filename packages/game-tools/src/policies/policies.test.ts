@@ -0,0 +1,134 @@
+import { RNG_STREAMS, Xorshift32, applyAction, getLegalActions, replayActionLog, startRun } from "@fg/game-core";
+import type { ActionLog, LegalAction, RunState } from "@fg/game-core";
+import { describe, expect, it } from "vitest";
+
+import { readContentRegistry } from "../content.js";
+import { POLICY_NAMES, createPolicy } from "./registry.js";
+import type { PolicyName } from "./registry.js";
+import { createRiskAwarePolicy, roomThreat } from "./riskAware.js";
+import { determinize } from "./search.js";
+
+const content = readContentRegistry();
+
+function play(name: PolicyName, seed: number, steps: number): { log: ActionLog; endState: RunState } {
+  const policy = createPolicy(name, { seed, content, iterations: 20 });
+  let state = startRun({ seed, runLengthTarget: 7, content }).nextState;
+  const log: ActionLog = {
+    header: { engineVersion: "0.1.0", contentVersion: content.contentVersion, specVersion: "v1.1", createdAtUTC: "2025-12-27T00:00:00.000Z" },
+    seed,
+    actions: [{ type: "START_RUN", seed, runLengthTarget: 7, seedDerivation: 2 }]
+  };
+  for (let i = 0; i < steps; i += 1) {
+    const legal = getLegalActions(state, { content });
+    if (!legal.length) break;
+    const action = policy.choose(state, legal);
+    state = applyAction(state, action, { content, strict: true }).nextState;
+    log.actions.push(action);
+  }
+  return { log, endState: state };
+}
+
+// A state waiting on CHOOSE_ENGAGE / CHOOSE_FLEE with at least one card that hurts.
+function engageDecision(): RunState {
+  let state = startRun({ seed: 4, runLengthTarget: 7, content }).nextState;
+  const policy = createPolicy("riskAware", { seed: 4, content });
+  for (let i = 0; i < 500; i += 1) {
+    const legal = getLegalActions(state, { content });
+    if (legal.some((a) => a.type === "CHOOSE_FLEE") && roomThreat(state) > 0) return state;
+    state = applyAction(state, policy.choose(state, legal), { content }).nextState;
+  }
+  throw new Error("No engage decision reached");
+}
+
+describe("Policies", () => {
+  it("play legal, seed-deterministic runs that replay as action logs", async () => {
+    for (const name of POLICY_NAMES) {
+      const steps = name === "lookahead" || name === "mcts" ? 15 : 200;
+      const { log, endState } = play(name, 5, steps);
+      expect(play(name, 5, steps).log.actions, name).toEqual(log.actions);
+      expect((await replayActionLog(log, { content })).endState, name).toEqual(endState);
+    }
+  }, 60_000);
+
+  it("random picks like the fuzz tests' uniform chooser", () => {
+    const chooser = new Xorshift32(9);
+    const policy = createPolicy("random", { seed: 9, content });
+    let state = startRun({ seed: 9, runLengthTarget: 7, content }).nextState;
+    for (let i = 0; i < 50 && getLegalActions(state, { content }).length; i += 1) {
+      const legal = getLegalActions(state, { content });
+      const action: LegalAction = policy.choose(state, legal);
+      expect(action).toEqual(legal[chooser.nextUint32() % legal.length]);
+      state = applyAction(state, action, { content }).nextState;
+    }
+  });
+
+  it("riskAware flees a room it expects to die in and engages otherwise", () => {
+    const state = engageDecision();
+    const policy = createRiskAwarePolicy({ seed: 1, content });
+    const legal = getLegalActions(state, { content });
+    expect(policy.choose({ ...state, player: { ...state.player, hp: roomThreat(state) } }, legal)).toEqual({ type: "CHOOSE_FLEE" });
+    expect(policy.choose({ ...state, player: { ...state.player, hp: roomThreat(state) + 1 } }, legal)).toEqual({ type: "CHOOSE_ENGAGE" });
+  });
+});
+
+// The state just before the action that starts a boss, and that action.
+function bossStartDecision(): { state: RunState; action: LegalAction } {
+  let state = startRun({ seed: 2, runLengthTarget: 7, content }).nextState;
+  state = { ...state, player: { ...state.player, maxHp: 100, hp: 100 } };
+  const policy = createPolicy("random", { seed: 2, content });
+  for (let i = 0; i < 500; i += 1) {
+    const action = policy.choose(state, getLegalActions(state, { content }));
+    const result = applyAction(state, action, { content });
+    if (result.events.some((e) => e.type === "BOSS_STARTED")) return { state, action };
+    state = result.nextState;
+  }
+  throw new Error("No boss start reached");
+}
+
+describe("determinize", () => {
+  it("re-guesses the unseen decks, their orientations and the run's RNG", () => {
+    const state = startRun({ seed: 6, runLengthTarget: 7, content }).nextState;
+    const before = structuredClone(state);
+    const guess = determinize(state, new Xorshift32(1));
+    expect(state).toEqual(before);
+
+    expect(guess.decks.minorDeck).not.toEqual(state.decks.minorDeck);
+    expect([...guess.decks.minorDeck].sort()).toEqual([...state.decks.minorDeck].sort());
+    expect([...guess.decks.majorDeck].sort()).toEqual([...state.decks.majorDeck].sort());
+    const orientations = (s: RunState) => s.decks.minorDeck.map((id) => s.decks.cards.minors[id]!.orientation);
+    expect(orientations(guess)).not.toEqual(orientations(state));
+    expect(guess.rng.state).not.toBe(state.rng.state);
+    for (const stream of RNG_STREAMS) expect(guess.rng.streams![stream], stream).not.toBe(state.rng.streams![stream]);
+
+    // What the player can see is kept as is.
+    expect(guess.room).toEqual(state.room);
+    expect(guess.player).toEqual(state.player);
+    for (const id of state.room.slots) expect(guess.decks.cards.minors[id!]).toEqual(state.decks.cards.minors[id!]);
+  });
+
+  it("depends only on what the player can see", () => {
+    const state = startRun({ seed: 6, runLengthTarget: 7, content }).nextState;
+    const other = structuredClone(state);
+    other.decks.minorDeck.reverse();
+    other.decks.majorDeck.reverse();
+    for (const id of other.decks.minorDeck) {
+      const card = other.decks.cards.minors[id]!;
+      other.decks.cards.minors[id] = { ...card, orientation: card.orientation === "upright" ? "reversed" : "upright" };
+    }
+    other.rng = { ...other.rng, state: other.rng.state ^ 1 };
+    expect(determinize(other, new Xorshift32(1))).toEqual(determinize(state, new Xorshift32(1)));
+  });
+
+  it("leaves no future shuffle to the real RNG", () => {
+    const { state, action } = bossStartDecision();
+    const bossStart = (rng: Xorshift32) => {
+      const result = applyAction(determinize(state, rng), action, { content, strict: true });
+      expect(result.events.some((e) => e.type === "BOSS_STARTED")).toBe(true);
+      return result.nextState;
+    };
+    const [first, second] = [bossStart(new Xorshift32(1)), bossStart(new Xorshift32(2))];
+    // The boss stream is re-keyed from each guess's root seed, not the real one.
+    expect(first.rng.streams!.boss).not.toBe(second.rng.streams!.boss);
+    expect(first.floor.bossDeck).not.toEqual(second.floor.bossDeck);
+  });
+});
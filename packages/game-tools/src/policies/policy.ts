@@ -0,0 +1,18 @@
+import { Xorshift32 } from "@fg/game-core";
+import type { ContentRegistry, LegalAction, Rng, RunState } from "@fg/game-core";
+
+// Picks one of `legal`, the non-empty list getLegalActions returned for `state`. A policy is deterministic given the
+// options it was created with, so (seed, runLengthTarget, policy, policy seed) pins the whole action log.
+export type Policy = { readonly name: string; choose(state: RunState, legal: LegalAction[]): LegalAction };
+
+export type PolicyOptions = {
+  // Seeds the policy's own random choices, never the run's.
+  seed: number;
+  // Content for policies that simulate ahead; the loaded default when absent.
+  content?: ContentRegistry;
+};
+
+export function policyRng(seed: number): Rng {
+  // xorshift32 is stuck at 0.
+  return new Xorshift32(seed >>> 0 || 1);
+}
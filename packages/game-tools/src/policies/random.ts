@@ -0,0 +1,8 @@
+import { policyRng } from "./policy.js";
+import type { Policy, PolicyOptions } from "./policy.js";
+
+// Uniform over the legal actions, the way the invariant fuzz tests play.
+export function createRandomPolicy({ seed }: PolicyOptions): Policy {
+  const rng = policyRng(seed);
+  return { name: "random", choose: (_state, legal) => legal[rng.nextUint32() % legal.length]! };
+}
@@ -0,0 +1,32 @@
+import { createGreedyPolicy } from "./greedy.js";
+import { createLookaheadPolicy } from "./lookahead.js";
+import { createMctsPolicy } from "./mcts.js";
+import type { LookaheadOptions } from "./lookahead.js";
+import type { MctsOptions } from "./mcts.js";
+import type { Policy, PolicyOptions } from "./policy.js";
+import { createRandomPolicy } from "./random.js";
+import { createRiskAwarePolicy } from "./riskAware.js";
+
+const POLICY_FACTORIES = {
+  random: createRandomPolicy,
+  greedy: createGreedyPolicy,
+  riskAware: createRiskAwarePolicy,
+  lookahead: createLookaheadPolicy,
+  mcts: createMctsPolicy
+} satisfies Record<string, (options: PolicyOptions) => Policy>;
+
+export type PolicyName = keyof typeof POLICY_FACTORIES;
+
+// Tuning knobs of every policy; each reads only its own.
+export type PolicySettings = PolicyOptions & Omit<LookaheadOptions & MctsOptions, keyof PolicyOptions>;
+
+export const POLICY_NAMES = Object.keys(POLICY_FACTORIES) as PolicyName[];
+
+export function isPolicyName(value: unknown): value is PolicyName {
+  return typeof value === "string" && Object.hasOwn(POLICY_FACTORIES, value);
+}
+
+export function createPolicy(name: PolicyName, options: PolicySettings): Policy {
+  if (!isPolicyName(name)) throw new Error(`Unknown policy: ${String(name)}`);
+  return POLICY_FACTORIES[name](options);
+}
@@ -0,0 +1,103 @@
+import { canUseWeaponAgainstEnemy, computeEffectiveOrientation, computeEnemyValue, previewAction } from "@fg/game-core";
+import type { ActionPreview, LegalAction, Orientation, RunState } from "@fg/game-core";
+
+import { chooseGreedy } from "./greedy.js";
+import type { Policy, PolicyOptions } from "./policy.js";
+
+const RESOLUTION_TYPES = new Set<LegalAction["type"]>(["COMMIT_RESOLVE", "ACE_CHOICE", "ENEMY_FIGHT_CHOICE", "SWORDS_AMBUSH_BLOCK_CHOICE", "CUPS_8_10_CHOICE"]);
+
+// What one Fate and one gold are worth in HP when comparing previews.
+const FATE_HP = 0.3;
+const GOLD_HP = 0.05;
+
+/**
+ * HP the card in `slotIndex` would cost if it were resolved now, with the best answer to its prompt: enemy value less
+ * a usable weapon (weapon restriction applies) and armor, reversed numbered damage less gold, spell or a blocking weapon.
+ * Upright cards and Aces cost nothing. `orientation` overrides the effective orientation, e.g. to price a cleanse.
+ */
+export function cardThreat(state: RunState, slotIndex: number, orientation?: Orientation): number {
+  const cardId = state.room.slots[slotIndex];
+  if (!cardId) return 0;
+  const card = state.decks.cards.minors[cardId]!;
+  const effective = orientation ?? computeEffectiveOrientation(state, slotIndex, card);
+  const { weapon, armor } = state.player;
+  const armored = (damage: number) => Math.max(0, damage - (armor?.value ?? 0));
+
+  if (card.rank.kind === "court") {
+    const value = computeEnemyValue(card, effective);
+    return armored(weapon && canUseWeaponAgainstEnemy(state, value) ? Math.max(0, value - weapon.value) : value);
+  }
+  if (card.rank.kind === "ace" || effective === "upright") return 0;
+  const value = card.rank.value;
+  switch (card.suit) {
+    case "pentacles":
+      return armored(Math.max(0, value - state.player.gold));
+    case "cups":
+      return value;
+    case "wands":
+      return state.player.spell ? 0 : armored(2);
+    case "swords":
+      return armored(weapon ? Math.max(0, value - weapon.value) : value);
+  }
+}
+
+// Engaging means resolving three of the room's four cards; the fourth, the costliest, is carried.
+export function roomThreat(state: RunState): number {
+  const threats = state.room.slots.map((_id, i) => cardThreat(state, i)).sort((a, b) => a - b);
+  return threats.slice(0, 3).reduce((sum, t) => sum + t, 0);
+}
+
+// HP-denominated value of a previewed outcome; an action that opens a prompt is worth its best answer.
+function previewScore(preview: ActionPreview): number {
+  if (preview.choices.length) return Math.max(...preview.choices.map(previewScore));
+  if (preview.defeat === true) return -1000;
+  let score = preview.hpDelta === "unknown" ? -3 : preview.hpDelta;
+  if (preview.fateDelta !== "unknown") score += preview.fateDelta * FATE_HP;
+  if (preview.goldDelta !== "unknown") score += preview.goldDelta * GOLD_HP;
+  // A weapon held to weaker enemies and broken armor both cost HP later.
+  if (preview.weaponRestrictedTo !== null) score -= (14 - Math.min(14, preview.weaponRestrictedTo)) / 4;
+  if (preview.armorBreaks) score -= 1;
+  return score;
+}
+
+// The first of `items` with the highest score.
+function bestBy<T>(items: T[], score: (item: T) => number): { item: T; score: number } | null {
+  let best: { item: T; score: number } | null = null;
+  for (const item of items) {
+    const s = score(item);
+    if (!best || s > best.score) best = { item, score: s };
+  }
+  return best;
+}
+
+/**
+ * Plays what it can see safely: flees rooms it expects to die in, carries the costliest card, cleanses cards that would
+ * hurt, and otherwise resolves and answers prompts by previewAction, counting HP, Fate, gold, armor breaks and how far
+ * a weapon fight restricts the weapon. Anything else (attunement, gifts, Major prompts) is played like greedy.
+ */
+export function createRiskAwarePolicy({ content }: PolicyOptions): Policy {
+  function choose(state: RunState, legal: LegalAction[]): LegalAction {
+    const flee = legal.find((a) => a.type === "CHOOSE_FLEE");
+    if (flee && roomThreat(state) >= state.player.hp) return flee;
+
+    const carried = bestBy(
+      legal.filter((a) => a.type === "SELECT_CARRIED_CARD"),
+      (a) => cardThreat(state, a.slotIndex)
+    );
+    if (carried) return carried.item;
+
+    // Cleansing (with Fate or the spell) pays off when it saves at least 3 HP.
+    const cleanse = bestBy(
+      legal.filter((a) => a.type === "SPEND_FATE_CLEANSE" || a.type === "USE_SPELL_CLEANSE"),
+      (a) => cardThreat(state, a.slotIndex) - cardThreat(state, a.slotIndex, "upright")
+    );
+    if (cleanse && cleanse.score >= 3) return cleanse.item;
+
+    const resolutions = legal.filter((a) => RESOLUTION_TYPES.has(a.type));
+    if (resolutions.length && !legal.some((a) => a.type === "USE_MAJOR_GIFT")) {
+      return bestBy(resolutions, (a) => previewScore(previewAction(state, a, content ? { content } : {})))!.item;
+    }
+    return chooseGreedy(state, legal);
+  }
+  return { name: "riskAware", choose };
+}
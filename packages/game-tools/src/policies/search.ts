@@ -0,0 +1,52 @@
+import { RNG_STREAMS } from "@fg/game-core";
+import type { Rng, RngStreams, RunState } from "@fg/game-core";
+
+// Starts from the sorted items so that the result depends on which items there are, not on their real order.
+function shuffled<T extends string>(items: T[], rng: Rng): T[] {
+  const out = [...items].sort();
+  for (let i = out.length - 1; i > 0; i -= 1) {
+    const j = rng.nextUint32() % (i + 1);
+    [out[i], out[j]] = [out[j]!, out[i]!];
+  }
+  return out;
+}
+
+// A made-up generator state; xorshift32 is stuck at 0.
+function guessRngState(rng: Rng): number {
+  return rng.nextUint32() || 1;
+}
+
+/**
+ * One guess at what the player cannot see, drawn from `rng`: `state` with the minor, boss and Major decks reordered,
+ * the orientation of every card still in the minor deck re-rolled, and the run's RNG replaced, so that later shuffles,
+ * reshuffles and RANDOM targets come out differently too. Searching over guesses instead of `state` itself keeps agents
+ * from reading the real future. Cards a peek has shown, or an earlier floor turned face up, are guessed again as well,
+ * so agents play as if they had forgotten them.
+ */
+export function determinize(state: RunState, rng: Rng): RunState {
+  const { decks, floor } = state;
+  const minors = { ...decks.cards.minors };
+  for (const id of [...decks.minorDeck].sort()) minors[id] = { ...minors[id]!, orientation: (rng.nextUint32() & 1) === 1 ? "reversed" : "upright" };
+  const streams = state.rng.streams && (Object.fromEntries(RNG_STREAMS.map((stream) => [stream, guessRngState(rng)])) as RngStreams);
+  return {
+    ...state,
+    rng: { algo: state.rng.algo, state: guessRngState(rng), ...(streams ? { streams } : {}) },
+    decks: { cards: { minors }, minorDeck: shuffled(decks.minorDeck, rng), majorDeck: shuffled(decks.majorDeck, rng) },
+    floor: { ...floor, bossDeck: floor.bossDeck && shuffled(floor.bossDeck, rng) }
+  };
+}
+
+export function isRunOver(state: RunState): boolean {
+  return state.phase === "RunVictory" || state.phase === "RunDefeat" || state.player.hp <= 0;
+}
+
+// Heuristic worth of `state` for the player: progress first, then HP, then resources. Higher is better.
+export function evaluateState(state: RunState): number {
+  if (state.phase === "RunVictory") return 1_000_000;
+  const { floor, player } = state;
+  const progress = state.majors.claimed.length * 500 + floor.engagedRoomsCompleted * 20 + floor.bossRoomsCompleted * 40;
+  if (isRunOver(state)) return progress - 100_000;
+
+  const weapon = player.weapon ? player.weapon.value * 3 + (player.weapon.lastHelpedDefeatValue ?? 16) / 2 : 0;
+  return progress + player.hp * 10 + player.fate * 3 + player.gold / 2 + (player.armor?.value ?? 0) * 3 + weapon + (player.spell ? 4 : 0);
+}
@@ -0,0 +1,66 @@
+import { describe, expect, it } from "vitest";
+
+import { readContentRegistry } from "./content.js";
+import { buildBalanceReport, renderBalanceCsv, renderBalanceMarkdown } from "./report.js";
+import type { SimFloorResult, SimRunResult } from "./sim.js";
+
+const content = readContentRegistry();
+
+function run(outcome: SimRunResult["outcome"], floors: Partial<SimFloorResult>[], attuned: SimRunResult["attuned"] = [], giftsUsed: SimRunResult["giftsUsed"] = {}): SimRunResult {
+  return {
+    seed: 1,
+    runLengthTarget: 7,
+    policy: "riskAware",
+    contentVersion: content.contentVersion,
+    outcome,
+    floorReached: floors.length,
+    majorsClaimed: [],
+    hpCurve: [],
+    fateSpent: 0,
+    roomsFled: 0,
+    steps: 0,
+    floors: floors.map((f, i) => ({ floorNumber: i + 1, majorId: "magician", hpLost: 0, fateSpent: 0, roomsFled: 0, died: false, ...f })),
+    attuned,
+    giftsUsed
+  };
+}
+
+describe("buildBalanceReport", () => {
+  const results = [
+    run("defeat", [{ majorId: "tower", hpLost: 20, fateSpent: 2, roomsFled: 1, died: true }]),
+    run("defeat", [{ majorId: "tower", hpLost: 4 }, { majorId: "moon", hpLost: 16, died: true }], ["tower"], { tower: 3 }),
+    run("victory", [{ majorId: "moon", hpLost: 6, roomsFled: 2 }], ["tower", "moon"], { tower: 1, moon: 2 })
+  ];
+  const report = buildBalanceReport(results, content);
+
+  it("charges each floor to its active Major", () => {
+    expect(report.shadows.map((r) => r.majorId)).toEqual(content.majors.majors.map((m) => m.id));
+    expect(report.shadows.find((r) => r.majorId === "tower")).toEqual({
+      majorId: "tower",
+      name: content.strings["majors.tower.name"],
+      floors: 2,
+      deaths: 1,
+      deathRate: 0.5,
+      meanHpLost: 12,
+      meanFateSpent: 1,
+      meanRoomsFled: 0.5
+    });
+    expect(report.shadows.find((r) => r.majorId === "magician")).toMatchObject({ floors: 0, deathRate: 0 });
+  });
+
+  it("compares runs that attuned a gift with runs that did not", () => {
+    expect(report.gifts.find((r) => r.majorId === "tower")).toMatchObject({ runsAttuned: 2, winRateAttuned: 0.5, winRateNotAttuned: 0, winRateDelta: 0.5, uses: 4, usesPerAttunedRun: 2 });
+    expect(report.gifts.find((r) => r.majorId === "moon")).toMatchObject({ runsAttuned: 1, winRateAttuned: 1, winRateNotAttuned: 0, uses: 2 });
+    expect(report.winRate).toBeCloseTo(1 / 3);
+  });
+
+  it("renders one row per Major as Markdown and CSV", () => {
+    const markdown = renderBalanceMarkdown(report);
+    expect(markdown.split("\n").filter((line) => line.startsWith("| ") && !line.startsWith("| Major") && !line.startsWith("| ---"))).toHaveLength(42);
+    expect(markdown).toContain(`| ${content.strings["majors.tower.name"]} | 2 | 1 | 50.0% | 12.00 | 1.00 | 0.50 |`);
+
+    const csv = renderBalanceCsv(report);
+    expect(csv.shadows.trim().split("\n")).toHaveLength(22);
+    expect(csv.gifts.split("\n")[0]).toBe("majorId,name,runsAttuned,winRateAttuned,winRateNotAttuned,winRateDelta,uses,usesPerAttunedRun");
+  });
+});
@@ -0,0 +1,147 @@
+import type { ContentRegistry, MajorId } from "@fg/game-core";
+
+import type { SimRunResult } from "./sim.js";
+
+// The floors a Major's shadow was active on.
+export type ShadowRow = {
+  majorId: MajorId;
+  name: string;
+  floors: number;
+  deaths: number;
+  deathRate: number;
+  meanHpLost: number;
+  meanFateSpent: number;
+  meanRoomsFled: number;
+};
+
+// Runs that attuned a Major at some point against the runs that never did.
+export type GiftRow = {
+  majorId: MajorId;
+  name: string;
+  runsAttuned: number;
+  winRateAttuned: number;
+  winRateNotAttuned: number;
+  winRateDelta: number;
+  uses: number;
+  usesPerAttunedRun: number;
+};
+
+export type BalanceReport = { contentVersion: string; runs: number; winRate: number; shadows: ShadowRow[]; gifts: GiftRow[] };
+
+function ratio(n: number, d: number): number {
+  return d ? n / d : 0;
+}
+
+// One row per Major of `content`, in majors.json order, whether or not the runs met it.
+export function buildBalanceReport(results: SimRunResult[], content: ContentRegistry): BalanceReport {
+  const winRate = (runs: SimRunResult[]) => ratio(runs.filter((r) => r.outcome === "victory").length, runs.length);
+  const majors = content.majors.majors;
+  const nameOf = (id: MajorId) => content.strings[content.majorById[id].ui.nameKey] ?? id;
+
+  const shadows = majors.map(({ id }): ShadowRow => {
+    const floors = results.flatMap((r) => r.floors.filter((f) => f.majorId === id));
+    const deaths = floors.filter((f) => f.died).length;
+    const sum = (of: (f: (typeof floors)[number]) => number) => floors.reduce((total, f) => total + of(f), 0);
+    return {
+      majorId: id,
+      name: nameOf(id),
+      floors: floors.length,
+      deaths,
+      deathRate: ratio(deaths, floors.length),
+      meanHpLost: ratio(sum((f) => f.hpLost), floors.length),
+      meanFateSpent: ratio(sum((f) => f.fateSpent), floors.length),
+      meanRoomsFled: ratio(sum((f) => f.roomsFled), floors.length)
+    };
+  });
+
+  const gifts = majors.map(({ id }): GiftRow => {
+    const attuned = results.filter((r) => r.attuned.includes(id));
+    const notAttuned = results.filter((r) => !r.attuned.includes(id));
+    const uses = attuned.reduce((total, r) => total + (r.giftsUsed[id] ?? 0), 0);
+    return {
+      majorId: id,
+      name: nameOf(id),
+      runsAttuned: attuned.length,
+      winRateAttuned: winRate(attuned),
+      winRateNotAttuned: winRate(notAttuned),
+      winRateDelta: winRate(attuned) - winRate(notAttuned),
+      uses,
+      usesPerAttunedRun: ratio(uses, attuned.length)
+    };
+  });
+
+  return { contentVersion: content.contentVersion, runs: results.length, winRate: winRate(results), shadows, gifts };
+}
+
+type Column<Row> = { header: string; value: (row: Row) => string | number };
+
+const pct = (v: number) => `${(v * 100).toFixed(1)}%`;
+const num = (v: number) => v.toFixed(2);
+
+const SHADOW_COLUMNS: Column<ShadowRow>[] = [
+  { header: "Major", value: (r) => r.name },
+  { header: "Floors", value: (r) => r.floors },
+  { header: "Deaths", value: (r) => r.deaths },
+  { header: "Death rate", value: (r) => pct(r.deathRate) },
+  { header: "HP lost", value: (r) => num(r.meanHpLost) },
+  { header: "Fate spent", value: (r) => num(r.meanFateSpent) },
+  { header: "Rooms fled", value: (r) => num(r.meanRoomsFled) }
+];
+
+const GIFT_COLUMNS: Column<GiftRow>[] = [
+  { header: "Major", value: (r) => r.name },
+  { header: "Runs attuned", value: (r) => r.runsAttuned },
+  { header: "Win rate attuned", value: (r) => pct(r.winRateAttuned) },
+  { header: "Win rate not attuned", value: (r) => pct(r.winRateNotAttuned) },
+  { header: "Delta", value: (r) => `${r.winRateDelta >= 0 ? "+" : ""}${pct(r.winRateDelta)}` },
+  { header: "Uses", value: (r) => r.uses },
+  { header: "Uses per attuned run", value: (r) => num(r.usesPerAttunedRun) }
+];
+
+function markdownTable<Row>(rows: Row[], columns: Column<Row>[]): string {
+  const lines = [`| ${columns.map((c) => c.header).join(" | ")} |`, `|${columns.map((_c, i) => (i ? " ---: |" : " --- |")).join("")}`];
+  for (const row of rows) lines.push(`| ${columns.map((c) => String(c.value(row)).replaceAll("|", "\\|")).join(" | ")} |`);
+  return lines.join("\n");
+}
+
+// Shadows sorted deadliest first; gifts by win-rate delta.
+export function renderBalanceMarkdown(report: BalanceReport): string {
+  const shadows = [...report.shadows].sort((a, b) => b.deathRate - a.deathRate || b.meanHpLost - a.meanHpLost);
+  const gifts = [...report.gifts].sort((a, b) => b.winRateDelta - a.winRateDelta);
+  return [
+    `# Major balance report`,
+    "",
+    `Content ${report.contentVersion}, ${report.runs} runs, win rate ${pct(report.winRate)}.`,
+    "",
+    "## Shadows",
+    "",
+    "Per floor the Major was active on: death rate, and mean HP lost, Fate spent and rooms fled.",
+    "",
+    markdownTable(shadows, SHADOW_COLUMNS),
+    "",
+    "## Gifts",
+    "",
+    "Runs that attuned the Major at any point against runs that never did. Only runs that cleared a floor can attune,",
+    "so every delta carries some survival bias; compare gifts with each other rather than with zero.",
+    "",
+    markdownTable(gifts, GIFT_COLUMNS),
+    ""
+  ].join("\n");
+}
+
+function csvField(value: string | number): string {
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replaceAll('"', '""')}"` : text;
+}
+
+function csvTable<Row extends Record<string, string | number>>(rows: Row[], keys: (keyof Row & string)[]): string {
+  return [keys.join(","), ...rows.map((row) => keys.map((k) => csvField(row[k]!)).join(","))].join("\n") + "\n";
+}
+
+// Raw numbers (rates as fractions), one row per Major in majors.json order.
+export function renderBalanceCsv(report: BalanceReport): { shadows: string; gifts: string } {
+  return {
+    shadows: csvTable(report.shadows, ["majorId", "name", "floors", "deaths", "deathRate", "meanHpLost", "meanFateSpent", "meanRoomsFled"]),
+    gifts: csvTable(report.gifts, ["majorId", "name", "runsAttuned", "winRateAttuned", "winRateNotAttuned", "winRateDelta", "uses", "usesPerAttunedRun"])
+  };
+}
@@ -0,0 +1,51 @@
+import { describe, expect, it } from "vitest";
+
+import { readContentRegistry } from "./content.js";
+import { POLICY_NAMES } from "./policies/registry.js";
+import { simulateRun, summarizeRuns } from "./sim.js";
+
+const content = readContentRegistry();
+
+describe("simulateRun", () => {
+  it("replays the same run for the same seed and policy", () => {
+    for (const policy of POLICY_NAMES) {
+      const config = { seed: 3, runLengthTarget: 7, policy, content, maxSteps: 30, policySettings: { iterations: 20 } } as const;
+      expect(simulateRun(config)).toEqual(simulateRun(config));
+    }
+    expect(simulateRun({ seed: 3, runLengthTarget: 7, policy: "random", content, policySeed: 1 })).not.toEqual(
+      simulateRun({ seed: 3, runLengthTarget: 7, policy: "random", content, policySeed: 2 })
+    );
+  });
+
+  it("ends with an outcome, starting and final HP on the curve", () => {
+    const result = simulateRun({ seed: 2, runLengthTarget: 7, policy: "greedy", content });
+    expect(result.outcome).not.toBe("stalled");
+    expect(result.hpCurve[0]).toBe(20);
+    expect(result.hpCurve.at(-1)).toBe(result.outcome === "defeat" ? 0 : expect.any(Number));
+    expect(result.contentVersion).toBe(content.contentVersion);
+    expect(simulateRun({ seed: 2, runLengthTarget: 7, policy: "greedy", content, maxSteps: 1 })).toMatchObject({ outcome: "stalled", steps: 1 });
+  });
+  it("charges floors to their Majors and records attunement and gift use", () => {
+    const result = simulateRun({ seed: 2, runLengthTarget: 7, policy: "riskAware", content });
+    expect(result.floors.map((f) => f.floorNumber)).toEqual(Array.from({ length: result.floorReached }, (_v, i) => i + 1));
+    expect(result.floors.reduce((sum, f) => sum + f.fateSpent, 0)).toBe(result.fateSpent);
+    expect(result.floors.reduce((sum, f) => sum + f.roomsFled, 0)).toBe(result.roomsFled);
+    expect(result.floors.filter((f) => f.died)).toHaveLength(result.outcome === "defeat" ? 1 : 0);
+    expect(result.majorsClaimed).toEqual(result.floors.slice(0, result.majorsClaimed.length).map((f) => f.majorId));
+    for (const id of Object.keys(result.giftsUsed)) expect(result.attuned).toContain(id);
+  });
+});
+
+describe("summarizeRuns", () => {
+  it("aggregates overall and per run length", () => {
+    const results = [7, 14].flatMap((runLengthTarget) =>
+      [1, 2, 3].map((seed) => simulateRun({ seed, runLengthTarget: runLengthTarget as 7 | 14, policy: "random", content }))
+    );
+    const summary = summarizeRuns(results);
+    expect(summary.runs).toBe(6);
+    expect(summary.victories + summary.defeats + summary.stalled).toBe(6);
+    expect(Object.keys(summary.byRunLength)).toEqual(["7", "14"]);
+    expect(summary.byRunLength[7]!.runs).toBe(3);
+    expect(summary.meanSteps).toBe(results.reduce((sum, r) => sum + r.steps, 0) / 6);
+  });
+});
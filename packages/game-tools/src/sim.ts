@@ -0,0 +1,171 @@
+import { applyAction, getLegalActions, startRun } from "@fg/game-core";
+import type { ContentRegistry, GameEvent, MajorId, RunState } from "@fg/game-core";
+
+import { createPolicy } from "./policies/registry.js";
+import type { PolicyName, PolicySettings } from "./policies/registry.js";
+
+export type RunLengthTarget = RunState["runLengthTarget"];
+
+export type SimRunConfig = {
+  seed: number;
+  runLengthTarget: RunLengthTarget;
+  policy: PolicyName;
+  content: ContentRegistry;
+  // Seeds the policy's own choices; defaults to `seed`.
+  policySeed?: number;
+  // Search budgets and other tuning for the policy.
+  policySettings?: Omit<PolicySettings, "seed" | "content">;
+  // A run still going after this many actions is reported as "stalled" (default 5000).
+  maxSteps?: number;
+};
+
+export type SimOutcome = "victory" | "defeat" | "stalled";
+
+// What happened on one floor, charged to the Major whose shadow was active there.
+export type SimFloorResult = { floorNumber: number; majorId: MajorId; hpLost: number; fateSpent: number; roomsFled: number; died: boolean };
+
+// One NDJSON line of fg-sim output.
+export type SimRunResult = {
+  seed: number;
+  runLengthTarget: RunLengthTarget;
+  policy: PolicyName;
+  contentVersion: string;
+  outcome: SimOutcome;
+  floorReached: number;
+  majorsClaimed: MajorId[];
+  // HP as each room was revealed, then the final HP.
+  hpCurve: number[];
+  fateSpent: number;
+  roomsFled: number;
+  steps: number;
+  floors: SimFloorResult[];
+  // Every Major attuned at some point of the run.
+  attuned: MajorId[];
+  giftsUsed: Partial<Record<MajorId, number>>;
+};
+
+export type SimSummaryGroup = {
+  runs: number;
+  victories: number;
+  defeats: number;
+  stalled: number;
+  winRate: number;
+  meanFloorReached: number;
+  meanMajorsClaimed: number;
+  meanFateSpent: number;
+  meanRoomsFled: number;
+  meanSteps: number;
+};
+
+export type SimSummary = SimSummaryGroup & { byRunLength: Partial<Record<RunLengthTarget, SimSummaryGroup>> };
+
+const DEFAULT_MAX_STEPS = 5000;
+
+// Folds one step's events into `result`; `hp` is the player's HP after the step.
+function record(result: SimRunResult, events: GameEvent[], hp: number) {
+  for (const e of events) if (e.type === "PLAYER_HP_CHANGED") hp -= e.delta;
+  for (const e of events) {
+    const floor = result.floors.at(-1);
+    if (e.type === "PLAYER_HP_CHANGED") {
+      hp = e.hp;
+      if (floor && e.delta < 0) floor.hpLost -= e.delta;
+    } else if (e.type === "ROOM_REVEALED") result.hpCurve.push(hp);
+    else if (e.type === "PLAYER_FATE_CHANGED" && e.delta < 0) {
+      result.fateSpent -= e.delta;
+      if (floor) floor.fateSpent -= e.delta;
+    } else if (e.type === "FLOOR_STARTED") {
+      result.floors.push({ floorNumber: e.floorNumber, majorId: e.majorId, hpLost: 0, fateSpent: 0, roomsFled: 0, died: false });
+    } else if (e.type === "MAJORS_ATTUNED") {
+      for (const id of e.majorIds) if (!result.attuned.includes(id)) result.attuned.push(id);
+    } else if (e.type === "GIFT_USED") result.giftsUsed[e.majorId] = (result.giftsUsed[e.majorId] ?? 0) + 1;
+  }
+}
+
+export function simulateRun(config: SimRunConfig): SimRunResult {
+  const { seed, runLengthTarget, content } = config;
+  const policy = createPolicy(config.policy, { ...config.policySettings, seed: config.policySeed ?? seed, content });
+  const maxSteps = config.maxSteps ?? DEFAULT_MAX_STEPS;
+
+  const started = startRun({ seed, runLengthTarget, content });
+  let state = started.nextState;
+  const result: SimRunResult = {
+    seed,
+    runLengthTarget,
+    policy: config.policy,
+    contentVersion: content.contentVersion,
+    outcome: "stalled",
+    floorReached: 1,
+    majorsClaimed: [],
+    hpCurve: [],
+    fateSpent: 0,
+    roomsFled: 0,
+    steps: 0,
+    floors: [],
+    attuned: [],
+    giftsUsed: {}
+  };
+  record(result, started.events, state.player.hp);
+
+  while (result.steps < maxSteps) {
+    const legal = getLegalActions(state, { content });
+    if (!legal.length) break;
+    const action = policy.choose(state, legal);
+    if (action.type === "CHOOSE_FLEE") {
+      result.roomsFled += 1;
+      result.floors.at(-1)!.roomsFled += 1;
+    }
+    const next = applyAction(state, action, { content });
+    state = next.nextState;
+    record(result, next.events, state.player.hp);
+    result.steps += 1;
+  }
+
+  result.hpCurve.push(state.player.hp);
+  if (state.phase === "RunVictory") result.outcome = "victory";
+  else if (state.phase === "RunDefeat" || state.player.hp <= 0) {
+    result.outcome = "defeat";
+    result.floors.at(-1)!.died = true;
+  }
+  result.floorReached = state.floor.floorNumber;
+  result.majorsClaimed = [...state.majors.claimed];
+  return result;
+}
+
+export type SimBatchConfig = Omit<SimRunConfig, "seed" | "runLengthTarget"> & { firstSeed: number; runs: number; runLengths: RunLengthTarget[] };
+
+// `runs` consecutive seeds from `firstSeed` for every run length, yielded as they finish.
+export function* simulateRuns(config: SimBatchConfig): Generator<SimRunResult> {
+  const { firstSeed, runs, runLengths, ...run } = config;
+  for (const runLengthTarget of runLengths) {
+    for (let i = 0; i < runs; i += 1) yield simulateRun({ ...run, seed: firstSeed + i, runLengthTarget });
+  }
+}
+
+function mean(results: SimRunResult[], of: (r: SimRunResult) => number): number {
+  return results.length ? results.reduce((sum, r) => sum + of(r), 0) / results.length : 0;
+}
+
+function summarizeGroup(results: SimRunResult[]): SimSummaryGroup {
+  const victories = results.filter((r) => r.outcome === "victory").length;
+  const defeats = results.filter((r) => r.outcome === "defeat").length;
+  return {
+    runs: results.length,
+    victories,
+    defeats,
+    stalled: results.length - victories - defeats,
+    winRate: results.length ? victories / results.length : 0,
+    meanFloorReached: mean(results, (r) => r.floorReached),
+    meanMajorsClaimed: mean(results, (r) => r.majorsClaimed.length),
+    meanFateSpent: mean(results, (r) => r.fateSpent),
+    meanRoomsFled: mean(results, (r) => r.roomsFled),
+    meanSteps: mean(results, (r) => r.steps)
+  };
+}
+
+export function summarizeRuns(results: SimRunResult[]): SimSummary {
+  const byRunLength: SimSummary["byRunLength"] = {};
+  for (const length of [...new Set(results.map((r) => r.runLengthTarget))].sort((a, b) => a - b)) {
+    byRunLength[length] = summarizeGroup(results.filter((r) => r.runLengthTarget === length));
+  }
+  return { ...summarizeGroup(results), byRunLength };
+}
@@ -0,0 +1,49 @@
+import { createContentRegistry, replayActionLog } from "@fg/game-core";
+import { describe, expect, it } from "vitest";
+
+import { readContentRegistry } from "./content.js";
+import { dominanceResources, solveSeed } from "./solver.js";
+
+const content = readContentRegistry();
+
+describe("solveSeed", () => {
+  it("returns a witness that replays to victory", async () => {
+    const result = solveSeed({ seed: 1, runLengthTarget: 7, content });
+    expect(result.verdict).toBe("winnable");
+    expect(result.nodesExplored).toBeGreaterThan(0);
+    const replayed = await replayActionLog(result.witness!, { content, strict: true });
+    expect(replayed.endState.phase).toBe("RunVictory");
+  }, 60_000);
+
+  it("stops at the floor limit", async () => {
+    const result = solveSeed({ seed: 3, runLengthTarget: 7, content, floorLimit: 1 });
+    expect(result.verdict).toBe("winnable");
+    const { endState } = await replayActionLog(result.witness!, { content });
+    expect(endState.majors.claimed).toHaveLength(1);
+    expect(endState.floor.floorNumber).toBe(2);
+  });
+
+  it("answers unknown when the node budget runs out", () => {
+    const result = solveSeed({ seed: 3, runLengthTarget: 7, content, maxNodes: 10 });
+    expect(result).toMatchObject({ verdict: "unknown", witness: null, nodesExplored: 10 });
+  });
+
+  it("stops treating gold as harmless once content branches on it", async () => {
+    expect(dominanceResources(content)).toEqual(["hp", "gold", "fate"]);
+
+    // The Sun's shadow only bargains with players holding 2 gold or more: more gold can now cost HP.
+    const majors = structuredClone(content.majors);
+    const sun = majors.majors.find((m) => m.id === "sun")!;
+    sun.shadow.effect = {
+      type: "SEQUENCE",
+      effects: [{ type: "CONDITIONAL", if: { kind: "PLAYER_GOLD_AT_LEAST", value: 2 }, then: sun.shadow.effect, else: { type: "NOOP" } }]
+    };
+    const goldSensitive = createContentRegistry({ majors, strings: content.strings });
+    expect(dominanceResources(goldSensitive)).toEqual(["hp", "fate"]);
+
+    const result = solveSeed({ seed: 3, runLengthTarget: 7, content: goldSensitive, floorLimit: 1 });
+    expect(result.verdict).toBe("winnable");
+    const { endState } = await replayActionLog(result.witness!, { content: goldSensitive, strict: true });
+    expect(endState.majors.claimed).toHaveLength(1);
+  });
+});
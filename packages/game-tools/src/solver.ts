@@ -0,0 +1,151 @@
+import { SEED_DERIVATION_VERSION, applyAction, createRunStateHasher, getLegalActions, startRun } from "@fg/game-core";
+import type { ActionLog, ActionLogHeader, ContentRegistry, EffectNode, LegalAction, RunState, SeedDerivation, StartRunAction } from "@fg/game-core";
+
+import { evaluateState, isRunOver } from "./policies/search.js";
+import type { RunLengthTarget } from "./sim.js";
+
+export type SolveOptions = {
+  seed: number;
+  runLengthTarget: RunLengthTarget;
+  content: ContentRegistry;
+  // Defaults to SEED_DERIVATION_VERSION.
+  seedDerivation?: SeedDerivation;
+  // Stop once this many floors are cleared instead of at victory.
+  floorLimit?: number;
+  // Expanded states before giving up with "unknown" (default 100000).
+  maxNodes?: number;
+  // Overrides for the witness log's header.
+  header?: Partial<ActionLogHeader>;
+};
+
+export type SolveVerdict = "winnable" | "unwinnable" | "unknown";
+
+export type SolveResult = {
+  verdict: SolveVerdict;
+  // Actions from START_RUN to the goal; null unless winnable.
+  witness: ActionLog | null;
+  // States whose actions were tried.
+  nodesExplored: number;
+  // Successor states skipped because they had been explored already.
+  transpositions: number;
+  // Successor states skipped because a sibling reached the same state with at least the HP, gold and Fate (see
+  // dominanceResources).
+  dominated: number;
+};
+
+type Child = { action: LegalAction; state: RunState; value: number };
+
+const DEFAULT_MAX_NODES = 100_000;
+
+class NodeBudgetExceeded extends Error {}
+
+type Resource = "hp" | "gold" | "fate";
+
+function usesGoldCondition(content: ContentRegistry): boolean {
+  const stack: EffectNode[] = content.majors.majors.flatMap((m) => [m.shadow.effect, m.gift.effect]);
+  while (stack.length) {
+    const node = stack.pop()!;
+    if (node.if?.kind === "PLAYER_GOLD_AT_LEAST") return true;
+    stack.push(...(node.effects ?? []), ...(node.options ?? []).map((o) => o.effect));
+    if (node.then) stack.push(node.then);
+    if (node.else) stack.push(node.else);
+  }
+  return false;
+}
+
+// The resources of which more never hurts under `content`: HP, Fate, and gold unless a Major's CONDITIONAL branches on
+// PLAYER_GOLD_AT_LEAST (its `then` may be the worse branch).
+export function dominanceResources(content: ContentRegistry): Resource[] {
+  return usesGoldCondition(content) ? ["hp", "fate"] : ["hp", "gold", "fate"];
+}
+
+// Same state apart from what the player holds in `resources`.
+function withoutResources(state: RunState, resources: Resource[]): RunState {
+  const player = { ...state.player };
+  for (const r of resources) player[r] = 0;
+  return { ...state, player };
+}
+
+function dominates(a: RunState, b: RunState, resources: Resource[]): boolean {
+  return resources.every((r) => a.player[r] >= b.player[r]);
+}
+
+/**
+ * Decides with full knowledge of the deck whether a run can be won (or, with `floorLimit`, get that many floors
+ * cleared), by depth-first search that tries the best-evaluated successor first. A state already explored is never
+ * explored again, and among successors that differ only in dominanceResources the dominated ones are dropped; both are
+ * sound because more of those resources never hurts. "unwinnable" is only reported after the whole tree was covered.
+ */
+export function solveSeed(options: SolveOptions): SolveResult {
+  const { seed, runLengthTarget, content } = options;
+  const engineOptions = { content };
+  const maxNodes = options.maxNodes ?? DEFAULT_MAX_NODES;
+  const floorLimit = options.floorLimit ?? Infinity;
+  const resources = dominanceResources(content);
+  const hasher = createRunStateHasher();
+  const explored = new Set<string>();
+  const result: SolveResult = { verdict: "unknown", witness: null, nodesExplored: 0, transpositions: 0, dominated: 0 };
+
+  const reachedGoal = (state: RunState) => state.phase === "RunVictory" || state.majors.claimed.length >= floorLimit;
+
+  function successors(state: RunState): Child[] {
+    const children: Child[] = [];
+    const byShape = new Map<string, Child[]>();
+    for (const action of getLegalActions(state, engineOptions)) {
+      const next = applyAction(state, action, engineOptions).nextState;
+      const key = hasher.hash(next);
+      if (explored.has(key)) {
+        result.transpositions += 1;
+        continue;
+      }
+      const shape = hasher.hash(withoutResources(next, resources));
+      const siblings = byShape.get(shape) ?? [];
+      if (siblings.some((s) => dominates(s.state, next, resources))) {
+        result.dominated += 1;
+        continue;
+      }
+      const child = { action, state: next, value: evaluateState(next) };
+      const kept = siblings.filter((s) => !dominates(next, s.state, resources));
+      result.dominated += siblings.length - kept.length;
+      byShape.set(shape, [...kept, child]);
+    }
+    for (const group of byShape.values()) children.push(...group);
+    // Stable: equal evaluations keep getLegalActions order.
+    return children.sort((a, b) => b.value - a.value);
+  }
+
+  // The actions from `state` to the goal, or null when there are none.
+  function search(state: RunState): LegalAction[] | null {
+    if (reachedGoal(state)) return [];
+    if (isRunOver(state)) return null;
+    explored.add(hasher.hash(state));
+    if (result.nodesExplored >= maxNodes) throw new NodeBudgetExceeded();
+    result.nodesExplored += 1;
+    for (const child of successors(state)) {
+      const rest = search(child.state);
+      if (rest) return [child.action, ...rest];
+    }
+    return null;
+  }
+
+  const start: StartRunAction = { type: "START_RUN", seed, runLengthTarget, seedDerivation: options.seedDerivation ?? SEED_DERIVATION_VERSION };
+  const initial = startRun({ seed, runLengthTarget, seedDerivation: start.seedDerivation!, content }).nextState;
+  try {
+    const actions = search(initial);
+    result.verdict = actions ? "winnable" : "unwinnable";
+    if (actions) {
+      const header: ActionLogHeader = {
+        engineVersion: "0.1.0",
+        contentVersion: content.contentVersion,
+        specVersion: "v1.1",
+        createdAtUTC: new Date().toISOString(),
+        rngAlgo: initial.rng.algo,
+        ...options.header
+      };
+      result.witness = { header, seed, actions: [start, ...actions] };
+    }
+  } catch (err) {
+    if (!(err instanceof NodeBudgetExceeded)) throw err;
+  }
+  return result;
+}